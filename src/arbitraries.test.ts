@@ -0,0 +1,232 @@
+import { BlobRef, Lexicons } from "@atproto/lexicon";
+import * as fc from "fast-check";
+import * as v from "valibot";
+import { describe, expect, it } from "vitest";
+import { lexiconToArbitraries } from "./arbitraries.js";
+import { describeIssues, lexiconToValibot } from "./index.js";
+
+const post = {
+  lexicon: 1,
+  id: "com.example.post",
+  defs: {
+    main: {
+      type: "record",
+      key: "tid",
+      record: {
+        type: "object",
+        required: ["text", "createdAt", "author"],
+        nullable: ["reply"],
+        properties: {
+          text: { type: "string", maxLength: 30, maxGraphemes: 10 },
+          title: { type: "string", minLength: 4, minGraphemes: 2, maxGraphemes: 6 },
+          createdAt: { type: "string", format: "datetime" },
+          author: { type: "string", format: "did" },
+          handle: { type: "string", format: "handle" },
+          uri: { type: "string", format: "at-uri" },
+          link: { type: "string", format: "uri" },
+          rkey: { type: "string", format: "record-key" },
+          rev: { type: "string", format: "tid" },
+          collection: { type: "string", format: "nsid" },
+          actor: { type: "string", format: "at-identifier" },
+          cid: { type: "string", format: "cid" },
+          lang: { type: "string", format: "language" },
+          visibility: { type: "string", enum: ["public", "private"] },
+          kind: { type: "string", const: "post" },
+          mood: { type: "string", knownValues: ["happy", "#sad"], maxLength: 32 },
+          priority: { type: "integer", minimum: 1, maximum: 5 },
+          level: { type: "integer", enum: [1, 2, 3] },
+          pinned: { type: "boolean" },
+          locked: { type: "boolean", const: false },
+          tags: { type: "array", items: { type: "string", minLength: 1, maxLength: 8 }, minLength: 1, maxLength: 3 },
+          checksum: { type: "bytes", minLength: 2, maxLength: 4 },
+          head: { type: "cid-link" },
+          image: { type: "blob", accept: ["image/*"], maxSize: 1000 },
+          extra: { type: "unknown" },
+          reply: { type: "ref", ref: "#reply" },
+          embed: { type: "union", refs: ["#link", "#quote"] },
+          status: { type: "union", refs: ["#link"], closed: true },
+        },
+      },
+    },
+    reply: {
+      type: "object",
+      required: ["parent"],
+      properties: {
+        parent: { type: "string", format: "at-uri" },
+        replies: { type: "array", items: { type: "ref", ref: "#reply" } },
+      },
+    },
+    link: {
+      type: "object",
+      required: ["uri"],
+      properties: { uri: { type: "string", format: "uri" } },
+    },
+    quote: {
+      type: "object",
+      required: ["record"],
+      properties: { record: { type: "ref", ref: "com.example.strongRef" } },
+    },
+    sad: { type: "token" },
+  },
+} as const;
+
+const strongRef = {
+  lexicon: 1,
+  id: "com.example.strongRef",
+  defs: {
+    main: {
+      type: "object",
+      required: ["uri", "cid"],
+      properties: {
+        uri: { type: "string", format: "at-uri" },
+        cid: { type: "string", format: "cid" },
+      },
+    },
+  },
+} as const;
+
+const externalRefs = { "com.example.strongRef": lexiconToArbitraries(strongRef).main };
+const schemas = lexiconToValibot(post, { externalRefs: { "com.example.strongRef": lexiconToValibot(strongRef).main } });
+
+describe("lexiconToArbitraries", () => {
+  it("generates values satisfying every constraint", () => {
+    const arbitraries = lexiconToArbitraries(post, { externalRefs });
+    fc.assert(
+      fc.property(arbitraries.main, (value) => {
+        expect(v.safeParse(schemas.main, value).issues).toBeUndefined();
+      })
+    );
+    fc.assert(fc.property(arbitraries.reply, (value) => v.is(schemas.reply, value)));
+    expect(fc.sample(arbitraries.sad, 1)).toEqual(["com.example.post#sad"]);
+  });
+
+  it("generates values @atproto/lexicon accepts", () => {
+    const lexicons = new Lexicons(structuredClone([post, strongRef]) as never);
+    const arbitraries = lexiconToArbitraries(post, { externalRefs });
+    fc.assert(
+      fc.property(arbitraries.main, (value) => {
+        expect(lexicons.validate("com.example.post", value)).toMatchObject({ success: true });
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it("generates values in wire format", () => {
+    const wire = lexiconToValibot(post, {
+      format: "wire",
+      externalRefs: { "com.example.strongRef": lexiconToValibot(strongRef).main },
+    });
+    const arbitraries = lexiconToArbitraries(post, { externalRefs, format: "wire" });
+    fc.assert(fc.property(arbitraries.main, (value) => v.is(wire.main, value)));
+
+    const [sample] = fc.sample(
+      arbitraries.main.filter((value) => value.image !== undefined && value.checksum !== undefined),
+      1
+    );
+    expect(sample.image).toMatchObject({ $type: "blob", ref: { $link: expect.any(String) } });
+    expect(sample.checksum).toEqual({ $bytes: expect.any(String) });
+  });
+
+  it("generates records with their $type and union members with theirs", () => {
+    const arbitraries = lexiconToArbitraries(post, { externalRefs });
+    const samples = fc.sample(arbitraries.main, 200);
+    expect(samples.every((value) => value.$type === "com.example.post")).toBe(true);
+    const types = new Set(samples.flatMap((value) => (value.embed ? [(value.embed as { $type: string }).$type] : [])));
+    expect(types).toEqual(new Set(["com.example.post#link", "com.example.post#quote"]));
+    expect(samples.some((value) => value.image instanceof BlobRef)).toBe(true);
+  });
+
+  it("generates strings at their byte and grapheme limits", () => {
+    const lexicon = {
+      lexicon: 1,
+      id: "com.example.text",
+      defs: {
+        main: {
+          type: "object",
+          required: ["bytes", "graphemes"],
+          properties: {
+            bytes: { type: "string", minLength: 60, maxLength: 64 },
+            graphemes: { type: "string", minGraphemes: 3, maxGraphemes: 3, maxLength: 40 },
+          },
+        },
+      },
+    } as const;
+    const { main } = lexiconToValibot(lexicon);
+    const samples = fc.sample(lexiconToArbitraries(lexicon).main, 100);
+    expect(samples.every((value) => v.is(main, value))).toBe(true);
+    // Multi-byte graphemes fill byte limits with fewer characters
+    expect(samples.some(({ bytes }) => bytes.length < 60)).toBe(true);
+  });
+
+  it("generates known values only in strict mode", () => {
+    const arbitraries = lexiconToArbitraries(post, { externalRefs, knownValues: "strict" });
+    const moods = fc.sample(arbitraries.main, 200).flatMap(({ mood }) => (mood === undefined ? [] : [mood]));
+    expect(new Set(moods)).toEqual(new Set(["happy", "com.example.post#sad"]));
+  });
+
+  it("ends recursive values", () => {
+    const samples = fc.sample(lexiconToArbitraries(post, { externalRefs, maxDepth: 1 }).reply, 50);
+    const depth = (value: { replies?: unknown[] }): number =>
+      1 + Math.max(0, ...(value.replies ?? []).map((reply) => depth(reply as { replies?: unknown[] })));
+    expect(Math.max(...samples.map(depth))).toBeLessThanOrEqual(3);
+  });
+
+  it("throws for refs outside the lexicon", () => {
+    expect(() => lexiconToArbitraries(post)).toThrow(
+      "External ref not resolved: com.example.strongRef - provide it in externalRefs option"
+    );
+  });
+
+  describe("invalid mode", () => {
+    it.each(["sdk", "wire"] as const)("generates %s values violating exactly one constraint", (format) => {
+      const arbitraries = lexiconToArbitraries(post, { externalRefs, format, mode: "invalid", untypedBlobs: "reject" });
+      const { main } = lexiconToValibot(post, {
+        format,
+        untypedBlobs: "reject",
+        externalRefs: { "com.example.strongRef": lexiconToValibot(strongRef).main },
+      });
+      fc.assert(
+        fc.property(arbitraries.main, (value) => {
+          const result = v.safeParse(main, value);
+          expect(result.success).toBe(false);
+          expect(describeIssues(post, result.issues ?? [], { untypedBlobs: "reject" })).toHaveLength(1);
+        }),
+        { numRuns: 500 }
+      );
+    });
+
+    it("violates every kind of constraint", () => {
+      const arbitraries = lexiconToArbitraries(post, { externalRefs, mode: "invalid", knownValues: "strict" });
+      const { main } = lexiconToValibot(post, {
+        knownValues: "strict",
+        externalRefs: { "com.example.strongRef": lexiconToValibot(strongRef).main },
+      });
+      const codes = new Set(
+        fc.sample(arbitraries.main, { numRuns: 3000, seed: 1 }).flatMap((value) =>
+          describeIssues(post, v.safeParse(main, value).issues ?? [], { knownValues: "strict" }).map(({ code }) => code)
+        )
+      );
+      expect([...codes].sort()).toEqual([
+        "blob_accept",
+        "blob_max_size",
+        "closed_union",
+        "const",
+        "enum",
+        "format",
+        // null for the external strongRef, whose def the issues cannot be traced into
+        "invalid",
+        "invalid_type",
+        "known_values",
+        "max_graphemes",
+        "max_length",
+        "maximum",
+        "min_graphemes",
+        "min_length",
+        "minimum",
+        "missing_type",
+        "required",
+        "type_mismatch",
+      ]);
+    });
+  });
+});
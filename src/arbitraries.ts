@@ -0,0 +1,605 @@
+import { BlobRef } from "@atproto/lexicon";
+import * as fc from "fast-check";
+import { CID } from "multiformats/cid";
+import { create as createDigest } from "multiformats/hashes/digest";
+import type * as v from "valibot";
+import { matchesAccept } from "./converters/atproto.js";
+import { hasDefault, toTypeName } from "./converters/complex.js";
+import { formatValidators } from "./converters/formats.js";
+import { countGraphemes, expandKnownValue } from "./converters/primitives.js";
+import type { BlobFormat, InferLexiconValidators } from "./infer.js";
+import type {
+  KnownValuesPolicy,
+  LexArray,
+  LexBlob,
+  LexBoolean,
+  LexBytes,
+  LexiconInput,
+  LexInteger,
+  LexObject,
+  LexRecord,
+  LexRefUnion,
+  LexString,
+  Mutable,
+  UntypedBlobPolicy,
+} from "./types.js";
+
+// fast-check arbitraries generating values for the defs of a lexicon, walking defs like convertType.
+// In 'invalid' mode, every value violates exactly one constraint and satisfies all others.
+
+/**
+ * Which values to generate:
+ * - 'valid': values satisfying every constraint
+ * - 'invalid': values violating exactly one constraint
+ */
+export type ArbitraryMode = 'valid' | 'invalid';
+
+export interface LexiconToArbitrariesOptions {
+  /** Arbitraries for refs outside the lexicon (e.g., com.atproto.repo.strongRef) */
+  externalRefs?: Record<string, fc.Arbitrary<unknown>>;
+  /** Format of blobs, bytes and cid-links. Default: 'sdk' */
+  format?: BlobFormat;
+  /** Policy for strings with knownValues, as in lexiconToValibot. Default: 'open' */
+  knownValues?: KnownValuesPolicy;
+  /** Policy for untyped (legacy) blob refs, as in lexiconToValibot - 'reject' makes them a violation. Default: 'allow' */
+  untypedBlobs?: UntypedBlobPolicy;
+  /** Which values to generate. Default: 'valid' */
+  mode?: ArbitraryMode;
+  /** Ref depth past which optional properties are left out and arrays kept at their minimum length. Default: 3 */
+  maxDepth?: number;
+}
+
+type InferArbitraryValues<T extends Record<string, fc.Arbitrary<unknown>>> = {
+  [K in keyof T]: T[K] extends fc.Arbitrary<infer U> ? U : never;
+};
+
+/** Arbitraries for the record, object and token defs of a lexicon, by def name. */
+export type InferLexiconArbitraries<
+  T extends { id: string; defs: Record<string, unknown> },
+  ExtRefs extends Record<string, unknown> = {},
+  Format extends BlobFormat = 'sdk',
+  Mode extends ArbitraryMode = 'valid'
+> = {
+  [K in keyof InferLexiconValidators<T, ExtRefs, Format>]: fc.Arbitrary<
+    Mode extends 'valid' ? v.InferInput<InferLexiconValidators<T, ExtRefs, Format>[K]> : unknown
+  >;
+};
+
+/**
+ * Generate values for the record, object and token defs of a lexicon, for property-based tests.
+ * Values are generated in the SDK format unless `format` is 'wire', and records always carry their `$type`.
+ */
+export function lexiconToArbitraries<
+  T extends LexiconInput,
+  ExtRefs extends Record<string, fc.Arbitrary<unknown>> = {},
+  Format extends BlobFormat = 'sdk',
+  Mode extends ArbitraryMode = 'valid'
+>(
+  lexicon: T,
+  options: LexiconToArbitrariesOptions & { externalRefs?: ExtRefs; format?: Format; mode?: Mode } = {}
+): InferLexiconArbitraries<Mutable<T>, InferArbitraryValues<ExtRefs>, Format, Mode> {
+  const generator = new ArbitraryGenerator(lexicon, options);
+  const result: Record<string, fc.Arbitrary<unknown>> = {};
+
+  for (const [defName, def] of Object.entries(lexicon.defs)) {
+    const type = (def as { type?: string }).type;
+    if (type === "query" || type === "procedure" || type === "subscription") continue;
+
+    const node = generator.def(defName, 0);
+    if (options.mode === 'invalid') {
+      if (node.invalid.length === 0) {
+        throw new Error(`Def has no constraint to violate: ${lexicon.id}#${defName}`);
+      }
+      result[defName] = fc.oneof(...node.invalid);
+    } else {
+      result[defName] = node.valid;
+    }
+  }
+
+  return result as InferLexiconArbitraries<Mutable<T>, InferArbitraryValues<ExtRefs>, Format, Mode>;
+}
+
+// The values of a def: valid ones, and one arbitrary per way of violating exactly one of its constraints
+interface ArbitraryNode {
+  valid: fc.Arbitrary<unknown>;
+  invalid: fc.Arbitrary<unknown>[];
+}
+
+interface Range {
+  min: number;
+  max: number;
+}
+
+const LOWER = "abcdefghijklmnopqrstuvwxyz";
+const DIGITS = "0123456789";
+const BASE32 = "234567abcdefghijklmnopqrstuvwxyz";
+
+// Strings from a set of characters
+function chars(set: string, minLength: number, maxLength: number): fc.Arbitrary<string> {
+  return fc.string({ unit: fc.constantFrom(...set), minLength, maxLength });
+}
+
+const cidArbitrary = fc
+  .uint8Array({ minLength: 32, maxLength: 32 })
+  .map((bytes) => CID.createV1(0x71, createDigest(0x12, bytes)));
+
+const domainLabel = fc
+  .tuple(chars(LOWER, 1, 1), chars(LOWER + DIGITS + "-", 0, 8), chars(LOWER + DIGITS, 0, 1))
+  .map((parts) => parts.join(""))
+  .filter((label) => !label.endsWith("-"));
+const handle = fc
+  .tuple(fc.array(domainLabel, { minLength: 1, maxLength: 3 }), chars(LOWER, 2, 6))
+  .map(([labels, tld]) => [...labels, tld].join("."));
+const did = fc.oneof(
+  chars(BASE32, 24, 24).map((id) => `did:plc:${id}`),
+  handle.map((domain) => `did:web:${domain}`)
+);
+const nsid = fc
+  .tuple(fc.array(domainLabel, { minLength: 2, maxLength: 3 }), chars(LOWER, 1, 1), chars(LOWER + LOWER.toUpperCase() + DIGITS, 0, 12))
+  .map(([authority, first, rest]) => `${authority.join(".")}.${first}${rest}`);
+const tid = fc.tuple(chars("234567abcdefghij", 1, 1), chars(BASE32, 12, 12)).map(([first, rest]) => first + rest);
+const recordKey = fc.oneof(
+  tid,
+  chars(LOWER + LOWER.toUpperCase() + DIGITS + ".-_:~", 1, 32).filter((key) => key !== "." && key !== "..")
+);
+const atIdentifier = fc.oneof(did, handle);
+
+// Valid values for each string format
+const FORMAT_ARBITRARIES: Record<string, fc.Arbitrary<string>> = {
+  "datetime": fc
+    .date({ min: new Date("1970-01-01T00:00:00.000Z"), max: new Date("2099-12-31T23:59:59.999Z"), noInvalidDate: true })
+    .map((date) => date.toISOString()),
+  "uri": fc.tuple(handle, chars(LOWER + DIGITS + "/-", 0, 16)).map(([host, path]) => `https://${host}/${path}`),
+  "at-uri": fc
+    .tuple(atIdentifier, fc.option(fc.tuple(nsid, fc.option(recordKey, { nil: undefined })), { nil: undefined }))
+    .map(([authority, rest]) => {
+      if (rest === undefined) return `at://${authority}`;
+      const [collection, rkey] = rest;
+      return rkey === undefined ? `at://${authority}/${collection}` : `at://${authority}/${collection}/${rkey}`;
+    }),
+  "did": did,
+  "handle": handle,
+  "at-identifier": atIdentifier,
+  "nsid": nsid,
+  "cid": cidArbitrary.map((cid) => cid.toString()),
+  "language": fc.oneof(
+    fc.constantFrom("en", "pt-BR", "zh-Hant", "ja", "de-CH", "en-GB-oxendict"),
+    fc.tuple(chars(LOWER, 2, 3), fc.option(chars(LOWER.toUpperCase(), 2, 2), { nil: undefined }))
+      .map(([language, region]) => (region === undefined ? language : `${language}-${region}`))
+  ),
+  "tid": tid,
+  "record-key": recordKey,
+};
+
+// A single grapheme of the given UTF-8 byte size: a letter, a multi-byte character,
+// or a base letter followed by as many combining marks as it takes
+function grapheme(size: number, variant: number): string {
+  switch (size) {
+    case 1:
+      return LOWER[variant % LOWER.length];
+    case 2:
+      return ["\u00e9", "\u00df", "\u00f1"][variant % 3];
+    case 3:
+      return ["\u4e2d", "\u20ac", "\u30a2"][variant % 3];
+    case 4:
+      return ["\u{1F642}", "\u{1D11E}", "\u{1F98B}"][variant % 3];
+    default:
+      return (size % 2 === 1 ? "e" : "\u00e9") + "\u0301".repeat(Math.floor((size - 1) / 2));
+  }
+}
+
+// Largest grapheme strings are built from, in bytes
+const MAX_GRAPHEME_SIZE = 32;
+
+const utf8Length = (value: string) => new TextEncoder().encode(value).length;
+
+/**
+ * Strings with a UTF-8 byte length and a grapheme count in the given ranges,
+ * or undefined if no string fits both.
+ */
+function stringInRanges(bytes: Range, graphemes: Range): fc.Arbitrary<string> | undefined {
+  const minGraphemes = Math.max(graphemes.min, Math.ceil(bytes.min / MAX_GRAPHEME_SIZE), 0);
+  const maxGraphemes = Math.min(graphemes.max, bytes.max, minGraphemes + 16);
+  if (minGraphemes > maxGraphemes) {
+    return undefined;
+  }
+
+  return fc.integer({ min: minGraphemes, max: maxGraphemes }).chain((count) => {
+    const minBytes = Math.max(bytes.min, count);
+    const maxBytes = Math.min(bytes.max, count * MAX_GRAPHEME_SIZE, minBytes + 64);
+    return fc
+      .tuple(
+        fc.integer({ min: minBytes, max: maxBytes }),
+        fc.array(fc.tuple(fc.integer({ min: 1, max: 4 }), fc.nat()), { minLength: count, maxLength: count })
+      )
+      .map(([total, units]) => {
+        // Resize graphemes until their sizes add up to the total
+        let remaining = total - units.reduce((sum, [size]) => sum + size, 0);
+        for (const unit of units) {
+          const change = remaining > 0 ? Math.min(remaining, MAX_GRAPHEME_SIZE - unit[0]) : Math.max(remaining, 1 - unit[0]);
+          unit[0] += change;
+          remaining -= change;
+        }
+        return units.map(([size, variant]) => grapheme(size, variant)).join("");
+      });
+  });
+}
+
+// Add `$type` to generated objects
+function withType(arbitrary: fc.Arbitrary<unknown>, $type: string): fc.Arbitrary<unknown> {
+  return arbitrary.map((value) => ({ $type, ...(value as object) }));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Add `$type` to the generated values that are objects, leaving values of the wrong type as they are
+function withTypeIfObject(arbitrary: fc.Arbitrary<unknown>, $type: string): fc.Arbitrary<unknown> {
+  return arbitrary.map((value) => (isPlainObject(value) ? { $type, ...value } : value));
+}
+
+// A value that is neither of the def's type nor null
+const wrongType = (type: string): fc.Arbitrary<unknown> =>
+  type === "string" ? fc.integer() : type === "object" ? fc.constant("not an object") : fc.constant("not a value");
+
+class ArbitraryGenerator {
+  private readonly cache = new Map<string, ArbitraryNode>();
+  private readonly maxDepth: number;
+
+  constructor(
+    private readonly lexicon: LexiconInput,
+    private readonly options: LexiconToArbitrariesOptions
+  ) {
+    this.maxDepth = options.maxDepth ?? 3;
+  }
+
+  /** Values of a top-level def, at a ref depth. */
+  def(defName: string, depth: number): ArbitraryNode {
+    // Defs past the maximum depth share one node, generating only required properties
+    const key = `${defName}@${Math.min(depth, this.maxDepth + 1)}`;
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    // Recursive refs resolve to the node being built, once it is
+    let built: ArbitraryNode | undefined;
+    this.cache.set(key, {
+      valid: fc.constant(undefined).chain(() => built!.valid),
+      invalid: [fc.constant(undefined).chain(() => fc.oneof(...built!.invalid))],
+    });
+
+    const def = this.lexicon.defs[defName] as { type?: string } | undefined;
+    if (def === undefined) {
+      throw new Error(`Ref not found: ${this.lexicon.id}#${defName}`);
+    }
+
+    let node: ArbitraryNode;
+    switch (def.type) {
+      case "record": {
+        const typeName = defName === "main" ? this.lexicon.id : `${this.lexicon.id}#${defName}`;
+        const record = this.object((def as LexRecord).record, depth);
+        node = {
+          valid: withType(record.valid, typeName),
+          invalid: [
+            ...record.invalid.map((arbitrary) => withTypeIfObject(arbitrary, typeName)),
+            withType(record.valid, `${typeName}x`),
+          ],
+        };
+        break;
+      }
+      case "token": {
+        const typeName = `${this.lexicon.id}#${defName}`;
+        node = { valid: fc.constant(typeName), invalid: [fc.constant(`${typeName}x`)] };
+        break;
+      }
+      default:
+        node = this.type(def, depth);
+    }
+    built = node;
+    this.cache.set(key, node);
+    return node;
+  }
+
+  /** Values of a field type. */
+  type(schema: unknown, depth: number): ArbitraryNode {
+    const type = (schema as { type?: string }).type;
+    switch (type) {
+      case "boolean":
+        return this.boolean(schema as LexBoolean);
+      case "integer":
+        return this.integer(schema as LexInteger);
+      case "string":
+        return this.string(schema as LexString);
+      case "unknown":
+        return {
+          valid: fc.dictionary(chars(LOWER, 1, 8), fc.oneof(fc.string(), fc.integer(), fc.boolean(), fc.constant(null)), { maxKeys: 4 }),
+          invalid: [wrongType("object")],
+        };
+      case "bytes":
+        return this.bytes(schema as LexBytes);
+      case "cid-link":
+        return {
+          valid: this.options.format === 'wire' ? cidArbitrary.map((cid) => ({ $link: cid.toString() })) : cidArbitrary,
+          invalid: [fc.constant("not a cid-link")],
+        };
+      case "blob":
+        return this.blob(schema as LexBlob);
+      case "array":
+        return this.array(schema as LexArray, depth);
+      case "object":
+        return this.object(schema as LexObject, depth);
+      case "ref":
+        return this.ref((schema as { ref: string }).ref, depth);
+      case "union":
+        return this.union(schema as LexRefUnion, depth);
+      default:
+        throw new Error(`Unknown schema type: ${type}`);
+    }
+  }
+
+  private ref(ref: string, depth: number): ArbitraryNode {
+    const external = this.options.externalRefs?.[ref] ?? this.options.externalRefs?.[toTypeName(ref, this.lexicon.id)];
+    if (external !== undefined) {
+      return { valid: external, invalid: [] };
+    }
+
+    const [nsid, defName = "main"] = ref.startsWith("#") ? [this.lexicon.id, ref.slice(1)] : ref.split("#");
+    if (nsid !== this.lexicon.id) {
+      throw new Error(`External ref not resolved: ${ref} - provide it in externalRefs option`);
+    }
+    return this.def(defName, depth + 1);
+  }
+
+  private boolean(schema: LexBoolean): ArbitraryNode {
+    if (schema.const !== undefined) {
+      return { valid: fc.constant(schema.const), invalid: [fc.constant(!schema.const)] };
+    }
+    return { valid: fc.boolean(), invalid: [fc.constant("true")] };
+  }
+
+  private integer(schema: LexInteger): ArbitraryNode {
+    if (schema.enum !== undefined && schema.enum.length > 0) {
+      const values = schema.enum;
+      return {
+        valid: fc.constantFrom(...values),
+        invalid: [fc.integer().filter((value) => !values.includes(value))],
+      };
+    }
+    if (schema.const !== undefined) {
+      const value = schema.const;
+      return { valid: fc.constant(value), invalid: [fc.integer().filter((other) => other !== value)] };
+    }
+
+    const min = schema.minimum ?? -(2 ** 31);
+    const max = schema.maximum ?? 2 ** 31 - 1;
+    const invalid: fc.Arbitrary<unknown>[] = [fc.constant(String(min))];
+    // A number between two allowed integers breaks only the integer constraint
+    if (max > min) {
+      invalid.push(fc.integer({ min, max: max - 1 }).map((value) => value + 0.5));
+    }
+    if (schema.minimum !== undefined) {
+      invalid.push(fc.integer({ min: min - 1000, max: min - 1 }));
+    }
+    if (schema.maximum !== undefined) {
+      invalid.push(fc.integer({ min: max + 1, max: max + 1000 }));
+    }
+    return { valid: fc.integer({ min, max }), invalid };
+  }
+
+  private string(schema: LexString): ArbitraryNode {
+    if (schema.enum !== undefined && schema.enum.length > 0) {
+      const values = schema.enum;
+      return {
+        valid: fc.constantFrom(...values),
+        invalid: [fc.string().filter((value) => !values.includes(value))],
+      };
+    }
+    if (schema.const !== undefined) {
+      const value = schema.const;
+      return { valid: fc.constant(value), invalid: [fc.string().filter((other) => other !== value)] };
+    }
+
+    const bytes: Range = { min: schema.minLength ?? 0, max: schema.maxLength ?? Infinity };
+    const graphemes: Range = { min: schema.minGraphemes ?? 0, max: schema.maxGraphemes ?? Infinity };
+    const fitsLengths = (value: string) => {
+      const size = utf8Length(value);
+      const count = countGraphemes(value);
+      return size >= bytes.min && size <= bytes.max && count >= graphemes.min && count <= graphemes.max;
+    };
+    const isValidFormat = schema.format === undefined ? () => true : formatValidators[schema.format];
+    const knownValues = (schema.knownValues ?? [])
+      .map((value) => expandKnownValue(value, this.lexicon.id))
+      .filter((value) => fitsLengths(value) && isValidFormat(value));
+    const strict = this.options.knownValues === 'strict' && schema.knownValues !== undefined && schema.knownValues.length > 0;
+
+    const invalid: fc.Arbitrary<unknown>[] = [wrongType("string")];
+    let valid: fc.Arbitrary<string>;
+
+    if (strict) {
+      if (knownValues.length === 0) {
+        throw new Error(`No known value satisfies the constraints of a string in ${this.lexicon.id}`);
+      }
+      valid = fc.constantFrom(...knownValues);
+    } else if (schema.format !== undefined) {
+      valid = FORMAT_ARBITRARIES[schema.format].filter(fitsLengths);
+    } else {
+      valid = stringInRanges(bytes, graphemes) ?? fc.constant("");
+      if (knownValues.length > 0) {
+        valid = fc.oneof(fc.constantFrom(...knownValues), valid);
+      }
+    }
+
+    // Length violations keep the other length constraints; formatted strings are not resized, and strict
+    // known values leave none out of range that is not also unknown
+    const lengthViolations: [Range, Range][] = [
+      [{ min: bytes.max + 1, max: Infinity }, graphemes],
+      [{ min: 0, max: bytes.min - 1 }, graphemes],
+      [bytes, { min: graphemes.max + 1, max: Infinity }],
+      [bytes, { min: 0, max: graphemes.min - 1 }],
+    ];
+    for (const [bytesRange, graphemesRange] of lengthViolations) {
+      if (strict || schema.format !== undefined || bytesRange.min > bytesRange.max || graphemesRange.min > graphemesRange.max) continue;
+      const violation = stringInRanges(bytesRange, graphemesRange);
+      if (violation !== undefined) {
+        invalid.push(violation);
+      }
+    }
+    if (strict) {
+      const other = stringInRanges(bytes, graphemes);
+      if (other !== undefined) {
+        invalid.push(other.filter((value) => !knownValues.includes(value) && isValidFormat(value)));
+      }
+    }
+    if (schema.format !== undefined && !strict) {
+      const other = stringInRanges(bytes, graphemes);
+      if (other !== undefined) {
+        invalid.push(other.filter((value) => !isValidFormat(value)));
+      }
+    }
+
+    return { valid, invalid };
+  }
+
+  private bytes(schema: LexBytes): ArbitraryNode {
+    const min = schema.minLength ?? 0;
+    const max = schema.maxLength ?? min + 32;
+    const encode = (bytes: Uint8Array) =>
+      this.options.format === 'wire' ? { $bytes: btoa(String.fromCharCode(...bytes)).replace(/=+$/, "") } : bytes;
+
+    const invalid: fc.Arbitrary<unknown>[] = [
+      this.options.format === 'wire' ? fc.constant({ $bytes: 42 }) : fc.array(fc.nat({ max: 255 }), { maxLength: 4 }),
+    ];
+    if (schema.minLength !== undefined && min > 0) {
+      invalid.push(fc.uint8Array({ maxLength: min - 1 }).map(encode));
+    }
+    if (schema.maxLength !== undefined) {
+      invalid.push(fc.uint8Array({ minLength: max + 1, maxLength: max + 8 }).map(encode));
+    }
+    return { valid: fc.uint8Array({ minLength: min, maxLength: max }).map(encode), invalid };
+  }
+
+  private blob(schema: LexBlob): ArbitraryNode {
+    const accept = schema.accept !== undefined && schema.accept.length > 0 ? schema.accept : ["*/*"];
+    const mimeType = fc.constantFrom(...accept).chain((pattern) => {
+      if (pattern === "*/*") return fc.constantFrom("image/png", "application/json", "video/mp4", "text/plain");
+      if (pattern.endsWith("/*")) return fc.constantFrom("png", "jpeg", "webp", "x-test").map((subtype) => `${pattern.slice(0, -1)}${subtype}`);
+      return fc.constant(pattern);
+    });
+    const maxSize = schema.maxSize ?? 10_000_000;
+    const blob = (mimeType: fc.Arbitrary<string>, size: fc.Arbitrary<number>) =>
+      fc.tuple(cidArbitrary, mimeType, size).map(([cid, mimeType, size]) => {
+        const ref = new BlobRef(cid, mimeType, size);
+        return this.options.format === 'wire' ? ref.toJSON() : ref;
+      });
+    const validSize = fc.integer({ min: 0, max: maxSize });
+
+    const invalid: fc.Arbitrary<unknown>[] = [fc.constant("not a blob")];
+    const unaccepted = ["application/x-unaccepted", "text/x-unaccepted", "video/x-unaccepted"].filter(
+      (type) => !matchesAccept(type, accept)
+    );
+    if (unaccepted.length > 0) {
+      invalid.push(blob(fc.constantFrom(...unaccepted), validSize));
+    }
+    if (schema.maxSize !== undefined) {
+      invalid.push(blob(mimeType, fc.integer({ min: maxSize + 1, max: maxSize + 1000 })));
+    }
+    if (this.options.untypedBlobs === 'reject') {
+      invalid.push(fc.tuple(cidArbitrary, mimeType).map(([cid, mimeType]) => ({ cid: cid.toString(), mimeType })));
+    }
+    return { valid: blob(mimeType, validSize), invalid };
+  }
+
+  private array(schema: LexArray, depth: number): ArbitraryNode {
+    const items = this.type(schema.items, depth);
+    const min = schema.minLength ?? 0;
+    // Past the maximum depth arrays are kept short, so recursive values end
+    const max = schema.maxLength ?? (depth > this.maxDepth ? min : min + 4);
+
+    const invalid: fc.Arbitrary<unknown>[] = [wrongType("array")];
+    if (min > 0) {
+      invalid.push(fc.array(items.valid, { maxLength: min - 1 }));
+    }
+    if (schema.maxLength !== undefined) {
+      invalid.push(fc.array(items.valid, { minLength: max + 1, maxLength: max + 2 }));
+    }
+    // One invalid item among valid ones
+    if (items.invalid.length > 0 && max > 0) {
+      invalid.push(
+        fc
+          .tuple(fc.array(items.valid, { minLength: Math.max(min - 1, 0), maxLength: max - 1 }), fc.oneof(...items.invalid), fc.nat())
+          .map(([values, item, index]) => {
+            const copy = [...values];
+            copy.splice(index % (copy.length + 1), 0, item);
+            return copy;
+          })
+      );
+    }
+    return { valid: fc.array(items.valid, { minLength: min, maxLength: max }), invalid };
+  }
+
+  private object(schema: LexObject, depth: number): ArbitraryNode {
+    const required = new Set(schema.required ?? []);
+    const nullable = new Set(schema.nullable ?? []);
+    const properties = Object.entries(schema.properties ?? {}).map(([key, property]) => {
+      const node = this.type(property, depth);
+      return { key, node, valid: nullable.has(key) ? fc.oneof(node.valid, fc.constant(null)) : node.valid };
+    });
+
+    // Optional properties are left out past the maximum depth, unless they are the one violating a constraint
+    const record = (overrides: Record<string, fc.Arbitrary<unknown>> = {}, omit?: string) => {
+      const entries = properties.filter(
+        ({ key }) => key !== omit && (required.has(key) || key in overrides || depth <= this.maxDepth)
+      );
+      return fc.record(Object.fromEntries(entries.map(({ key, valid }) => [key, overrides[key] ?? valid])), {
+        requiredKeys: entries.filter(({ key }) => required.has(key) || key in overrides).map(({ key }) => key),
+      });
+    };
+
+    const invalid: fc.Arbitrary<unknown>[] = [wrongType("object")];
+    for (const { key, node } of properties) {
+      // Missing defaulted properties are filled with their default
+      if (required.has(key) && !hasDefault(schema.properties?.[key])) {
+        invalid.push(record({}, key));
+      }
+      if (node.invalid.length > 0) {
+        invalid.push(record({ [key]: fc.oneof(...node.invalid) }));
+      }
+      // null breaks the type of properties that are not nullable
+      if (!nullable.has(key)) {
+        invalid.push(record({ [key]: fc.constant(null) }));
+      }
+    }
+    return { valid: record(), invalid };
+  }
+
+  private union(schema: LexRefUnion, depth: number): ArbitraryNode {
+    if (schema.refs.length === 0) {
+      throw new Error(`Union without refs has no values in ${this.lexicon.id}`);
+    }
+
+    // Token members are matched by name, object members carry their $type
+    const members = schema.refs.map((ref) => {
+      const [nsid, defName = "main"] = ref.startsWith("#") ? [this.lexicon.id, ref.slice(1)] : ref.split("#");
+      const token = nsid === this.lexicon.id && (this.lexicon.defs[defName] as { type?: string } | undefined)?.type === "token";
+      return { typeName: toTypeName(ref, this.lexicon.id), token, node: this.ref(ref, depth) };
+    });
+    const objects = members.filter(({ token }) => !token);
+
+    const invalid: fc.Arbitrary<unknown>[] = [wrongType("object")];
+    if (objects.length > 0) {
+      // A member without its $type
+      invalid.push(fc.oneof(...objects.map(({ node }) => node.valid)).filter((value) => isPlainObject(value) && !("$type" in value)));
+    }
+    if (schema.closed) {
+      invalid.push(fc.constant({ $type: "com.example.unknown#member" }));
+    }
+    for (const { typeName, node } of objects) {
+      invalid.push(...node.invalid.map((arbitrary) => withTypeIfObject(arbitrary, typeName)));
+    }
+
+    return {
+      valid: fc.oneof(...members.map(({ typeName, token, node }) => (token ? node.valid : withType(node.valid, typeName)))),
+      invalid,
+    };
+  }
+}
@@ -0,0 +1,169 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { runCli } from "./cli.js";
+
+const strongRef = {
+  lexicon: 1,
+  id: "com.example.strongRef",
+  defs: {
+    main: {
+      type: "object",
+      required: ["uri", "cid"],
+      properties: {
+        uri: { type: "string", format: "at-uri" },
+        cid: { type: "string", format: "cid" },
+      },
+    },
+  },
+};
+
+const like = {
+  lexicon: 1,
+  id: "com.example.feed.like",
+  defs: {
+    main: {
+      type: "record",
+      key: "tid",
+      record: {
+        type: "object",
+        required: ["subject"],
+        properties: { subject: { type: "ref", ref: "com.example.strongRef" } },
+      },
+    },
+  },
+};
+
+describe("runCli", () => {
+  let dir: string;
+  let log: ReturnType<typeof vi.spyOn>;
+  let error: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "lexicon-cli-"));
+    mkdirSync(join(dir, "lexicons/feed"), { recursive: true });
+    writeFileSync(join(dir, "lexicons/strongRef.json"), JSON.stringify(strongRef));
+    writeFileSync(join(dir, "lexicons/feed/like.json"), JSON.stringify(like));
+    writeFileSync(join(dir, "lexicons/README.md"), "not a lexicon");
+    log = vi.spyOn(console, "log").mockImplementation(() => {});
+    error = vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  describe("codegen", () => {
+    it("generates modules for the JSON files in a directory", async () => {
+      const out = join(dir, "out");
+      expect(await runCli(["codegen", join(dir, "lexicons"), "--out", out])).toBe(0);
+
+      expect(readFileSync(join(out, "com/example/strongRef.ts"), "utf8")).toContain("export const main");
+      expect(readFileSync(join(out, "com/example/feed/like.ts"), "utf8")).toContain(
+        'import * as ComExampleStrongRef from "../strongRef.js";'
+      );
+      expect(log).toHaveBeenCalledWith(`Generated 2 module(s) in ${out}`);
+    });
+
+    it("passes options to the generator", async () => {
+      const out = join(dir, "out");
+      const args = ["codegen", join(dir, "lexicons/feed/like.json"), "--out", out, "--format", "wire", "--unresolved-refs", "unknown-object"];
+      expect(await runCli(args)).toBe(0);
+
+      const source = readFileSync(join(out, "com/example/feed/like.ts"), "utf8");
+      expect(source).toContain("$type: v.literal(\"com.example.feed.like\"),");
+      expect(source).toContain("subject: v.looseObject({}),");
+      expect(existsSync(join(out, "com/example/strongRef.ts"))).toBe(false);
+    });
+
+    it("reports invalid arguments", async () => {
+      expect(await runCli(["codegen", join(dir, "lexicons")])).toBe(1);
+      expect(error).toHaveBeenCalledWith("Missing --out <dir>");
+
+      expect(await runCli(["codegen", join(dir, "lexicons"), "--out", dir, "--format", "json"])).toBe(1);
+      expect(error).toHaveBeenCalledWith("Invalid --format: json - expected one of sdk, wire");
+    });
+
+    it("reports unreadable and invalid lexicons", async () => {
+      writeFileSync(join(dir, "broken.json"), "{");
+      expect(await runCli(["codegen", join(dir, "broken.json"), "--out", dir])).toBe(1);
+      expect(error.mock.calls[0][0]).toMatch(/^Failed to read .*broken\.json/);
+
+      writeFileSync(join(dir, "invalid.json"), JSON.stringify({ ...like, id: "invalid" }));
+      expect(await runCli(["codegen", join(dir, "invalid.json"), "--out", dir])).toBe(1);
+      expect(error.mock.calls[1][0]).toMatch(/^Invalid lexicon invalid/);
+    });
+  });
+
+  describe("validate", () => {
+    const uri = "at://did:plc:abc/com.example.feed.post/3k2a";
+    const cid = "bafyreie5737gdxlw5i64vzichcalba3z2v5n6icifvx5xytvske7mr3hpm";
+    const validLike = { $type: "com.example.feed.like", subject: { uri, cid } };
+
+    function output(): string[] {
+      return log.mock.calls.map((call: unknown[]) => call[0] as string);
+    }
+
+    it("validates JSON and JSONL records by their $type", async () => {
+      writeFileSync(join(dir, "like.json"), JSON.stringify(validLike));
+      writeFileSync(join(dir, "likes.json"), JSON.stringify([validLike, validLike]));
+      writeFileSync(join(dir, "likes.jsonl"), `${JSON.stringify(validLike)}\n\n${JSON.stringify(validLike)}\n`);
+
+      const args = ["validate", join(dir, "lexicons"), join(dir, "like.json"), join(dir, "likes.json"), join(dir, "likes.jsonl")];
+      expect(await runCli(args)).toBe(0);
+      expect(output()).toEqual(["Checked 5 record(s): 5 valid, 0 invalid"]);
+    });
+
+    it("reports the issues of each invalid record", async () => {
+      const records = [
+        validLike,
+        { ...validLike, subject: { uri: "not a uri", cid } },
+        { $type: "com.example.feed.like" },
+        { $type: "com.example.unknown" },
+        { $type: "com.example.strongRef", uri, cid },
+        { subject: { uri, cid } },
+      ];
+      writeFileSync(join(dir, "likes.jsonl"), [...records.map((record) => JSON.stringify(record)), "{"].join("\n"));
+
+      expect(await runCli(["validate", join(dir, "lexicons"), join(dir, "likes.jsonl")])).toBe(1);
+      const file = join(dir, "likes.jsonl");
+      expect(output()).toEqual([
+        `${file}:2 (com.example.feed.like)`,
+        "  Record/subject/uri must be a valid at-uri (format)",
+        `${file}:3 (com.example.feed.like)`,
+        '  Record must have the property "subject" (required)',
+        `${file}:4 (com.example.unknown)`,
+        "  Unknown collection: com.example.unknown",
+        `${file}:5 (com.example.strongRef)`,
+        "  Lexicon com.example.strongRef does not define a record",
+        `${file}:6`,
+        "  Missing $type - pass --collection to validate untyped records",
+        `${file}:7`,
+        expect.stringMatching(/^  Invalid JSON: /),
+        "Checked 7 record(s): 1 valid, 6 invalid",
+      ]);
+    });
+
+    it("validates against --collection instead of $type", async () => {
+      writeFileSync(join(dir, "likes.json"), JSON.stringify([{ subject: { uri, cid } }, validLike]));
+
+      const args = ["validate", join(dir, "lexicons"), join(dir, "likes.json"), "--collection", "com.example.feed.like"];
+      expect(await runCli([...args, "--format", "sdk"])).toBe(0);
+      // Wire records require their $type
+      expect(await runCli(args)).toBe(1);
+      expect(output()).toContain(`${join(dir, "likes.json")}[0] (com.example.feed.like)`);
+    });
+
+    it("reports invalid arguments", async () => {
+      expect(await runCli(["validate", join(dir, "lexicons")])).toBe(1);
+      expect(error).toHaveBeenCalledWith("Missing record files");
+    });
+  });
+
+  it("rejects unknown commands", async () => {
+    expect(await runCli(["generate"])).toBe(1);
+    expect(error.mock.calls[0][0]).toMatch(/^Unknown command: generate/);
+  });
+});
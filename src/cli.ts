@@ -0,0 +1,262 @@
+import { mkdir, readdir, readFile, stat, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { parseArgs } from "node:util";
+import * as v from "valibot";
+import { generateModules, type CodegenOptions } from "./codegen.js";
+import { formatIssue } from "./issues.js";
+import { LexiconRegistry } from "./registry.js";
+import type { LexiconInput, LexiconToValibotOptions, LexUserType } from "./types.js";
+
+const USAGE = `Usage: lexicon-to-valibot <command> [options]
+
+Commands:
+  codegen <files or directories...> --out <dir>
+      Generate valibot TypeScript modules from lexicon JSON files
+  validate <lexicon dir> <record files...>
+      Validate the records in JSON or JSONL files against their lexicons
+
+Options for codegen:
+  --out <dir>                 Directory to write the generated modules to
+  --runtime-module <module>   Module the generated code imports its helpers from
+
+Options for validate:
+  --collection <nsid>         Validate every record against this lexicon, instead of its $type
+
+Shared options:
+  --format <sdk|wire>         Format for blobs, bytes and cid-links
+                              (default: sdk for codegen, wire for validate)
+  --known-values <open|strict>
+                              Policy for strings with knownValues (default: open)
+  --untyped-blobs <allow|reject>
+                              Policy for untyped (legacy) blob refs (default: allow)
+  --unresolved-refs <error|warn|unknown-object>
+                              Policy for refs to lexicons not given (default: warn)
+`;
+
+// Conversion options shared by all commands
+const CONVERSION_OPTIONS = {
+  format: { type: "string" },
+  "known-values": { type: "string" },
+  "untyped-blobs": { type: "string" },
+  "unresolved-refs": { type: "string" },
+} as const;
+
+// Check an option against its allowed values
+function parseChoice<T extends string>(name: string, value: string | undefined, choices: readonly T[]): T | undefined {
+  if (value === undefined) return undefined;
+  if (!choices.includes(value as T)) {
+    throw new Error(`Invalid --${name}: ${value} - expected one of ${choices.join(", ")}`);
+  }
+  return value as T;
+}
+
+// Collect the given files, and the JSON files in the given directories recursively
+async function collectJsonFiles(paths: string[], inDirectory = false): Promise<string[]> {
+  const files: string[] = [];
+  for (const path of paths) {
+    if ((await stat(path)).isDirectory()) {
+      const entries = (await readdir(path)).sort().map((entry) => join(path, entry));
+      files.push(...(await collectJsonFiles(entries, true)));
+    } else if (!inDirectory || path.endsWith(".json")) {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+/** Read lexicon JSON files, and every `.json` file in the given directories. */
+export async function readLexicons(paths: string[]): Promise<LexiconInput[]> {
+  const lexicons: LexiconInput[] = [];
+  for (const file of await collectJsonFiles(paths)) {
+    try {
+      lexicons.push(JSON.parse(await readFile(file, "utf8")));
+    } catch (error) {
+      throw new Error(`Failed to read ${file}: ${(error as Error).message}`);
+    }
+  }
+  return lexicons;
+}
+
+function parseConversionOptions(values: { [K in keyof typeof CONVERSION_OPTIONS]?: string }): LexiconToValibotOptions {
+  return {
+    format: parseChoice("format", values.format, ["sdk", "wire"]),
+    knownValues: parseChoice("known-values", values["known-values"], ["open", "strict"]),
+    untypedBlobs: parseChoice("untyped-blobs", values["untyped-blobs"], ["allow", "reject"]),
+    unresolvedRefs: parseChoice("unresolved-refs", values["unresolved-refs"], ["error", "warn", "unknown-object"]),
+  };
+}
+
+async function codegen(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      ...CONVERSION_OPTIONS,
+      out: { type: "string" },
+      "runtime-module": { type: "string" },
+    },
+  });
+
+  if (values.out === undefined) {
+    throw new Error("Missing --out <dir>");
+  }
+  if (positionals.length === 0) {
+    throw new Error("Missing lexicon files or directories");
+  }
+
+  const options: CodegenOptions = { ...parseConversionOptions(values), runtimeModule: values["runtime-module"] };
+
+  const modules = generateModules(await readLexicons(positionals), options);
+  for (const [path, source] of Object.entries(modules)) {
+    const target = join(values.out, path);
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, source);
+  }
+  console.log(`Generated ${Object.keys(modules).length} module(s) in ${values.out}`);
+}
+
+// A record read from a file, labeled by its location for reporting
+interface RecordEntry {
+  label: string;
+  value?: unknown;
+  error?: string;
+}
+
+// JSONL files hold a record per line, JSON files a record or an array of records
+async function readRecords(file: string): Promise<RecordEntry[]> {
+  const content = await readFile(file, "utf8");
+  if (file.endsWith(".jsonl")) {
+    const records: RecordEntry[] = [];
+    content.split("\n").forEach((line, index) => {
+      if (line.trim() === "") return;
+      const label = `${file}:${index + 1}`;
+      try {
+        records.push({ label, value: JSON.parse(line) });
+      } catch (error) {
+        records.push({ label, error: `Invalid JSON: ${(error as Error).message}` });
+      }
+    });
+    return records;
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to read ${file}: ${(error as Error).message}`);
+  }
+  return Array.isArray(value)
+    ? value.map((item, index) => ({ label: `${file}[${index}]`, value: item }))
+    : [{ label: file, value }];
+}
+
+function getRecordType(value: unknown): string | undefined {
+  if (typeof value === "object" && value !== null && "$type" in value && typeof value.$type === "string") {
+    return value.$type;
+  }
+  return undefined;
+}
+
+async function validate(args: string[]): Promise<boolean> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      ...CONVERSION_OPTIONS,
+      collection: { type: "string" },
+    },
+  });
+
+  const [lexiconDir, ...files] = positionals;
+  if (lexiconDir === undefined) {
+    throw new Error("Missing lexicon directory");
+  }
+  if (files.length === 0) {
+    throw new Error("Missing record files");
+  }
+
+  // Records read from JSON are in the wire format unless told otherwise
+  const options = parseConversionOptions(values);
+  const registry = new LexiconRegistry({ ...options, format: options.format ?? "wire" }).add(
+    ...(await readLexicons([lexiconDir]))
+  );
+
+  // Record schemas by collection, or the reason a collection can not be validated
+  const schemas = new Map<string, v.GenericSchema | string>();
+  const getSchema = (collection: string): v.GenericSchema | string => {
+    let schema = schemas.get(collection);
+    if (schema === undefined) {
+      const lexicon = registry.get(collection);
+      if (lexicon === undefined) {
+        schema = `Unknown collection: ${collection}`;
+      } else if ((lexicon.defs.main as LexUserType | undefined)?.type !== "record") {
+        schema = `Lexicon ${collection} does not define a record`;
+      } else {
+        schema = (registry.lexiconToValibot(collection) as Record<string, v.GenericSchema>).main;
+      }
+      schemas.set(collection, schema);
+    }
+    return schema;
+  };
+
+  // Issues of a record, formatted with the path of the offending value and their code
+  const checkRecord = (collection: string | undefined, value: unknown): string[] => {
+    if (collection === undefined) {
+      return ["Missing $type - pass --collection to validate untyped records"];
+    }
+    const schema = getSchema(collection);
+    if (typeof schema === "string") {
+      return [schema];
+    }
+    const issues = registry.describeIssues(collection, v.safeParse(schema, value).issues ?? []);
+    return issues.map((issue) => `${formatIssue(issue, "Record")} (${issue.code})`);
+  };
+
+  let valid = 0;
+  let invalid = 0;
+  for (const file of files) {
+    for (const { label, value, error } of await readRecords(file)) {
+      const collection = values.collection ?? getRecordType(value);
+      const issues = error !== undefined ? [error] : checkRecord(collection, value);
+      if (issues.length === 0) {
+        valid++;
+        continue;
+      }
+      invalid++;
+      console.log(collection === undefined ? label : `${label} (${collection})`);
+      for (const issue of issues) {
+        console.log(`  ${issue}`);
+      }
+    }
+  }
+
+  console.log(`Checked ${valid + invalid} record(s): ${valid} valid, ${invalid} invalid`);
+  return invalid === 0;
+}
+
+/**
+ * Run the lexicon-to-valibot CLI with the given arguments.
+ * Returns the exit code - errors are reported on stderr, invalid records on stdout.
+ */
+export async function runCli(args: string[]): Promise<number> {
+  const [command, ...rest] = args;
+  try {
+    switch (command) {
+      case "codegen":
+        await codegen(rest);
+        return 0;
+      case "validate":
+        return (await validate(rest)) ? 0 : 1;
+      case undefined:
+      case "help":
+      case "--help":
+        console.log(USAGE);
+        return command === undefined ? 1 : 0;
+      default:
+        throw new Error(`Unknown command: ${command}\n\n${USAGE}`);
+    }
+  } catch (error) {
+    console.error((error as Error).message);
+    return 1;
+  }
+}
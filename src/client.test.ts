@@ -0,0 +1,209 @@
+import * as v from "valibot";
+import { describe, expect, expectTypeOf, it } from "vitest";
+import { createXrpcClient } from "./index.js";
+
+const strongRef = {
+  lexicon: 1,
+  id: "com.example.strongRef",
+  defs: {
+    main: {
+      type: "object",
+      required: ["uri", "cid"],
+      properties: {
+        uri: { type: "string", format: "at-uri" },
+        cid: { type: "string", format: "cid" },
+      },
+    },
+  },
+} as const;
+
+const getPosts = {
+  lexicon: 1,
+  id: "com.example.getPosts",
+  defs: {
+    main: {
+      type: "query",
+      parameters: {
+        type: "params",
+        required: ["actor"],
+        properties: {
+          actor: { type: "string", format: "did" },
+          limit: { type: "integer", minimum: 1, maximum: 100, default: 50 },
+          tags: { type: "array", items: { type: "string" } },
+        },
+      },
+      output: {
+        encoding: "application/json",
+        schema: {
+          type: "object",
+          required: ["posts"],
+          properties: { posts: { type: "array", items: { type: "ref", ref: "com.example.strongRef" } } },
+        },
+      },
+      errors: [{ name: "ActorNotFound" }],
+    },
+  },
+} as const;
+
+const createPost = {
+  lexicon: 1,
+  id: "com.example.createPost",
+  defs: {
+    main: {
+      type: "procedure",
+      input: {
+        encoding: "application/json",
+        schema: { type: "object", required: ["text"], properties: { text: { type: "string", maxLength: 10 } } },
+      },
+      output: {
+        encoding: "application/json",
+        schema: { type: "ref", ref: "com.example.strongRef" },
+      },
+      errors: [{ name: "TextTooLong" }, { name: "RateLimited" }],
+    },
+  },
+} as const;
+
+const uploadBlob = {
+  lexicon: 1,
+  id: "com.example.uploadBlob",
+  defs: { main: { type: "procedure", input: { encoding: "*/*" } } },
+} as const;
+
+const getRepo = {
+  lexicon: 1,
+  id: "com.example.getRepo",
+  defs: { main: { type: "query", output: { encoding: "application/vnd.ipld.car" } } },
+} as const;
+
+const uri = "at://did:plc:abc/com.example.post/3k2a";
+const cid = "bafyreie5737gdxlw5i64vzichcalba3z2v5n6icifvx5xytvske7mr3hpm";
+
+// A fetch stand-in recording requests and answering with the given response
+function mockFetch(respond: (request: Request) => Response | Promise<Response>) {
+  const requests: Request[] = [];
+  const fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = new Request(input, init);
+    requests.push(request.clone());
+    return respond(request);
+  };
+  return { fetch: fetch as typeof globalThis.fetch, requests };
+}
+
+const json = (body: unknown, status = 200) => Response.json(body, { status });
+
+function createClient(respond: (request: Request) => Response | Promise<Response>, service: string | URL = "https://example.com") {
+  const { fetch, requests } = mockFetch(respond);
+  const client = createXrpcClient({
+    service,
+    fetch,
+    lexicons: [strongRef, getPosts, createPost, uploadBlob, getRepo],
+    headers: { authorization: "Bearer token" },
+  });
+  return { client, requests };
+}
+
+describe("createXrpcClient", () => {
+  it("sends queries as GET with serialized params", async () => {
+    const { client, requests } = createClient(() => json({ posts: [{ uri, cid }] }));
+    const response = await client.call("com.example.getPosts", { params: { actor: "did:plc:abc", tags: ["a", "b"] } });
+
+    expect(response).toMatchObject({ success: true, status: 200, data: { posts: [{ uri, cid }] } });
+    expect(requests[0].method).toBe("GET");
+    expect(requests[0].url).toBe(
+      "https://example.com/xrpc/com.example.getPosts?actor=did%3Aplc%3Aabc&limit=50&tags=a&tags=b"
+    );
+    expect(requests[0].headers.get("authorization")).toBe("Bearer token");
+  });
+
+  it("keeps the path prefix of the service", async () => {
+    for (const service of ["https://example.com/proxy", "https://example.com/proxy/", new URL("https://example.com/proxy")]) {
+      const { client, requests } = createClient(() => json({ posts: [] }), service);
+      await client.call("com.example.getPosts", { params: { actor: "did:plc:abc" } });
+      expect(requests[0].url).toBe("https://example.com/proxy/xrpc/com.example.getPosts?actor=did%3Aplc%3Aabc&limit=50");
+    }
+  });
+
+  it("sends procedures as POST with a JSON body", async () => {
+    const { client, requests } = createClient(() => json({ uri, cid }));
+    const response = await client.call("com.example.createPost", { input: { text: "hello" }, headers: { "x-extra": "1" } });
+
+    expect(response).toMatchObject({ success: true, data: { uri, cid } });
+    expect(requests[0].method).toBe("POST");
+    expect(requests[0].headers.get("content-type")).toBe("application/json");
+    expect(requests[0].headers.get("x-extra")).toBe("1");
+    expect(await requests[0].json()).toEqual({ text: "hello" });
+  });
+
+  it("sends and receives binary bodies", async () => {
+    const { client, requests } = createClient((request) =>
+      request.url.endsWith("getRepo")
+        ? new Response(new Uint8Array([1, 2]), { headers: { "content-type": "application/vnd.ipld.car" } })
+        : new Response(null)
+    );
+
+    await client.call("com.example.uploadBlob", { input: new Blob(["png"], { type: "image/png" }) });
+    expect(requests[0].headers.get("content-type")).toBe("image/png");
+    await client.call("com.example.uploadBlob", { input: new Uint8Array([1]), encoding: "video/mp4" });
+    expect(requests[1].headers.get("content-type")).toBe("video/mp4");
+    await expect(client.call("com.example.uploadBlob", { input: new Uint8Array([1]) })).rejects.toThrow(
+      "Input encoding */* names no Content-Type - pass it as the encoding option"
+    );
+
+    const response = await client.call("com.example.getRepo");
+    expect(response).toMatchObject({ success: true, data: new Uint8Array([1, 2]) });
+  });
+
+  it("returns declared and undeclared errors", async () => {
+    const { client } = createClient(() => json({ error: "TextTooLong", message: "Too long" }, 400));
+    const response = await client.call("com.example.createPost", { input: { text: "hello" } });
+    expect(response).toMatchObject({ success: false, status: 400, error: { error: "TextTooLong", message: "Too long" } });
+
+    const proxy = createClient(() => new Response("<html>", { status: 502, statusText: "Bad Gateway" }));
+    expect(await proxy.client.call("com.example.getRepo")).toMatchObject({
+      success: false,
+      status: 502,
+      error: { error: "UnknownError", message: "Bad Gateway" },
+    });
+  });
+
+  it("validates params, input and output", async () => {
+    const { client, requests } = createClient(() => json({ posts: [{ uri: "nope", cid }] }));
+    await expect(client.call("com.example.getPosts", { params: { actor: "alice" } })).rejects.toThrow(v.ValiError);
+    await expect(client.call("com.example.createPost", { input: { text: "far too long" } })).rejects.toThrow(v.ValiError);
+    expect(requests).toHaveLength(0);
+
+    await expect(client.call("com.example.getPosts", { params: { actor: "did:plc:abc" } })).rejects.toThrow(v.ValiError);
+
+    const wrongType = createClient(() => new Response(JSON.stringify({ uri, cid }), { headers: { "content-type": "text/plain" } }));
+    await expect(wrongType.client.call("com.example.createPost", { input: { text: "hi" } })).rejects.toThrow(
+      "Invalid Content-Type: expected application/json but received text/plain"
+    );
+  });
+
+  it("rejects methods that are not queries or procedures", async () => {
+    const { client } = createClient(() => json({}));
+    await expect((client.call as (nsid: string) => Promise<unknown>)("com.example.strongRef")).rejects.toThrow(
+      "Not a query or procedure: com.example.strongRef"
+    );
+  });
+
+  it("infers call options and results", async () => {
+    const { client } = createClient(() => json({ uri, cid }));
+
+    type Options = Parameters<typeof client.call<"com.example.getPosts">>[1];
+    expectTypeOf<NonNullable<Options>["params"]>().toEqualTypeOf<{ actor: string; limit?: number; tags?: string[] }>();
+
+    const response = await client.call("com.example.createPost", { input: { text: "hi" } });
+    if (response.success) {
+      expectTypeOf(response.data).toEqualTypeOf<{ $type?: "com.example.strongRef" | "com.example.strongRef#main"; uri: string; cid: string }>();
+    } else {
+      expectTypeOf<"TextTooLong" | "RateLimited">().toMatchTypeOf<typeof response.error.error>();
+    }
+
+    // @ts-expect-error - procedures need their input
+    client.call("com.example.createPost").catch(() => {});
+    // @ts-expect-error - unknown methods are not callable
+    client.call("com.example.missing").catch(() => {});
+  });
+});
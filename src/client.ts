@@ -0,0 +1,165 @@
+import * as v from "valibot";
+import type { ProcedureValidators, XrpcErrorBody } from "./converters/xrpc.js";
+import { isJsonEncoding, matchesEncoding, serializeParams } from "./converters/xrpc.js";
+import type { LexiconsMap, Prettify } from "./infer.js";
+import {
+  createMethodResolver,
+  isProcedure,
+  type MainDef,
+  type MethodErrorName,
+  type MethodOutput,
+  type MethodParams,
+  type MethodValidators,
+  type XrpcMethods,
+} from "./methods.js";
+import type { LexiconsById } from "./registry.js";
+import type { LexiconInput } from "./types.js";
+
+// Typed XRPC client: params and input are validated before a request is sent, outputs and errors after.
+
+// Params with defaults may be left out, even though they are present after validation
+type RequiredParamKeys<Def> = Def extends { parameters: { required: readonly (infer K extends string)[] } } ? K : never;
+type CallParams<Def, Params> = Prettify<
+  { [K in keyof Params as K extends RequiredParamKeys<Def> ? K : never]: Params[K] } & {
+    [K in keyof Params as K extends RequiredParamKeys<Def> ? never : K]?: Params[K];
+  }
+>;
+
+type ParamsOption<Params> = {} extends Params ? { params?: Params } : { params: Params };
+
+type InputOption<Def, Methods> = Def extends { input: object }
+  ? Methods extends { input: v.GenericSchema<unknown, infer Input> }
+    ? {
+        input: Input;
+        /** Content-Type of a binary input, for encodings like `*\/*` that do not name one. */
+        encoding?: string;
+      }
+    : {}
+  : {};
+
+/** Options of a call to an XRPC method. */
+export type XrpcCallOptions<Lexicons extends LexiconsMap, Id extends keyof XrpcMethods<Lexicons>> = Prettify<
+  ParamsOption<CallParams<MainDef<Lexicons, Id>, MethodParams<XrpcMethods<Lexicons>[Id]>>> &
+    InputOption<MainDef<Lexicons, Id>, XrpcMethods<Lexicons>[Id]> & {
+      headers?: HeadersInit;
+      signal?: AbortSignal;
+    }
+>;
+
+/** Result of a call: the validated output, or the error body the service responded with. */
+export type XrpcResponse<Output, ErrorName extends string = string> =
+  | { success: true; status: number; headers: Headers; data: Output }
+  | { success: false; status: number; headers: Headers; error: XrpcErrorBody<ErrorName> };
+
+export interface XrpcClientOptions<T extends readonly LexiconInput[]> {
+  /** Service to call, like https://public.api.bsky.app */
+  service: string | URL;
+  /** Defaults to the global fetch. */
+  fetch?: typeof globalThis.fetch;
+  lexicons: T;
+  /** Headers sent with every call, like Authorization. */
+  headers?: HeadersInit;
+}
+
+export interface XrpcClient<Lexicons extends LexiconsMap> {
+  call<Id extends keyof XrpcMethods<Lexicons> & string>(
+    nsid: Id,
+    ...args: {} extends XrpcCallOptions<Lexicons, Id>
+      ? [options?: XrpcCallOptions<Lexicons, Id>]
+      : [options: XrpcCallOptions<Lexicons, Id>]
+  ): Promise<
+    XrpcResponse<MethodOutput<XrpcMethods<Lexicons>[Id]>, MethodErrorName<XrpcMethods<Lexicons>[Id]>>
+  >;
+}
+
+interface CallOptions {
+  params?: Record<string, unknown>;
+  input?: unknown;
+  encoding?: string;
+  headers?: HeadersInit;
+  signal?: AbortSignal;
+}
+
+// Request body and Content-Type of a call's input
+function encodeInput(validators: ProcedureValidators, options: CallOptions): { body?: BodyInit; contentType?: string } {
+  const encoding = validators.inputEncoding;
+  if (encoding === undefined) {
+    return {};
+  }
+  const input = v.parse(validators.input, options.input);
+  if (isJsonEncoding(encoding)) {
+    return { body: JSON.stringify(input), contentType: encoding };
+  }
+  const contentType = options.encoding ?? (input instanceof Blob && input.type !== "" ? input.type : encoding);
+  if (contentType.includes("*")) {
+    throw new Error(`Input encoding ${encoding} names no Content-Type - pass it as the encoding option`);
+  }
+  if (!matchesEncoding(encoding, contentType)) {
+    throw new Error(`Invalid input encoding: ${contentType} does not match ${encoding}`);
+  }
+  return { body: input as BodyInit, contentType };
+}
+
+async function decodeOutput(validators: MethodValidators, response: Response): Promise<unknown> {
+  const encoding = validators.outputEncoding;
+  if (encoding === undefined) {
+    return undefined;
+  }
+  const body = isJsonEncoding(encoding) ? await response.json() : new Uint8Array(await response.arrayBuffer());
+  return v.parse(validators.parseOutput, { contentType: response.headers.get("content-type"), body });
+}
+
+// Error bodies that are not XRPC errors, like a proxy's HTML page, are reported by their status
+async function decodeError(validators: MethodValidators, response: Response): Promise<XrpcErrorBody> {
+  const body: unknown = await response.json().catch(() => undefined);
+  const result = v.safeParse(validators.error, body);
+  return result.success ? result.output : { error: "UnknownError", message: response.statusText || undefined };
+}
+
+/**
+ * Create a client calling the queries and procedures of the given lexicons on a service.
+ * Params and input are validated before a call, outputs and declared errors after it - invalid values throw a ValiError.
+ */
+export function createXrpcClient<const T extends readonly LexiconInput[]>(
+  options: XrpcClientOptions<T>
+): XrpcClient<LexiconsById<T>> {
+  const resolve = createMethodResolver(options.lexicons);
+  const fetch = options.fetch ?? globalThis.fetch;
+  // Methods are resolved relative to the service, keeping a path prefix like https://host/proxy
+  const service = String(options.service).endsWith("/") ? String(options.service) : `${options.service}/`;
+
+  async function call(nsid: string, callOptions: CallOptions = {}): Promise<XrpcResponse<unknown>> {
+    const validators = resolve(nsid);
+    if (validators === undefined) {
+      throw new Error(`Not a query or procedure: ${nsid}`);
+    }
+    const params = v.parse(validators.parameters, callOptions.params ?? {}) as Record<string, unknown>;
+    const { body, contentType } = isProcedure(validators) ? encodeInput(validators, callOptions) : {};
+
+    const url = new URL(`xrpc/${nsid}`, service);
+    url.search = serializeParams(params).toString();
+    const headers = new Headers(options.headers);
+    for (const [key, value] of new Headers(callOptions.headers)) {
+      headers.set(key, value);
+    }
+    if (contentType !== undefined) {
+      headers.set("content-type", contentType);
+    }
+
+    const response = await fetch(url, {
+      method: isProcedure(validators) ? "POST" : "GET",
+      headers,
+      body,
+      signal: callOptions.signal,
+      // Streamed bodies must be sent half-duplex
+      ...(body instanceof ReadableStream ? { duplex: "half" } : {}),
+    });
+
+    if (!response.ok) {
+      return { success: false, status: response.status, headers: response.headers, error: await decodeError(validators, response) };
+    }
+    return { success: true, status: response.status, headers: response.headers, data: await decodeOutput(validators, response) };
+  }
+
+  return { call } as unknown as XrpcClient<LexiconsById<T>>;
+}
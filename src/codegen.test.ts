@@ -0,0 +1,322 @@
+import { mkdtempSync, mkdirSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { CID } from "multiformats/cid";
+import * as v from "valibot";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { generateModules, LexiconRegistry, toModulePath, type CodegenOptions } from "./index.js";
+
+const strongRef = {
+  lexicon: 1,
+  id: "com.example.strongRef",
+  defs: {
+    main: {
+      type: "object",
+      required: ["uri", "cid"],
+      properties: {
+        uri: { type: "string", format: "at-uri" },
+        cid: { type: "string", format: "cid" },
+      },
+    },
+  },
+} as const;
+
+const post = {
+  lexicon: 1,
+  id: "com.example.feed.post",
+  defs: {
+    main: {
+      type: "record",
+      description: "A post",
+      key: "tid",
+      record: {
+        type: "object",
+        required: ["text", "createdAt"],
+        nullable: ["langs"],
+        properties: {
+          text: { type: "string", maxLength: 30, maxGraphemes: 10 },
+          langs: { type: "array", items: { type: "string", format: "language" }, maxLength: 3 },
+          reason: { type: "string", knownValues: ["#spam", "other"] },
+          embed: { type: "union", refs: ["#images", "com.example.strongRef", "#spam"] },
+          kind: { type: "union", refs: ["#images"], closed: true },
+          reply: { type: "ref", ref: "#replyRef" },
+          limit: { type: "integer", minimum: 1, maximum: 100, default: 50 },
+          checksum: { type: "bytes", maxLength: 4 },
+          previous: { type: "cid-link" },
+          createdAt: { type: "string", format: "datetime" },
+          "weird-key": { type: "boolean", const: true },
+        },
+      },
+    },
+    images: {
+      type: "object",
+      required: ["images"],
+      properties: {
+        images: { type: "array", items: { type: "blob", accept: ["image/*"], maxSize: 1000 } },
+      },
+    },
+    replyRef: {
+      type: "object",
+      required: ["root", "parent"],
+      properties: {
+        root: { type: "ref", ref: "com.example.strongRef" },
+        parent: { type: "ref", ref: "com.example.strongRef#main" },
+        children: { type: "array", items: { type: "ref", ref: "#replyRef" } },
+      },
+    },
+    spam: { type: "token" },
+    delete: { type: "object", properties: {} },
+    getPost: {
+      type: "query",
+      parameters: {
+        type: "params",
+        required: ["uri"],
+        properties: {
+          uri: { type: "string", format: "at-uri" },
+          depth: { type: "integer", default: 6 },
+        },
+      },
+      output: { encoding: "application/json", schema: { type: "ref", ref: "#main" } },
+      errors: [{ name: "NotFound" }],
+    },
+  },
+} as const;
+
+const lexicons = [strongRef, post];
+
+const uri = "at://did:plc:abc/com.example.feed.post/3k2a";
+const cid = "bafyreie5737gdxlw5i64vzichcalba3z2v5n6icifvx5xytvske7mr3hpm";
+
+describe("toModulePath", () => {
+  it("maps an NSID to a nested module path", () => {
+    expect(toModulePath("com.example.feed.post")).toBe("com/example/feed/post.ts");
+  });
+});
+
+describe("generateModules", () => {
+  const modules = generateModules(lexicons);
+  const source = modules["com/example/feed/post.ts"];
+
+  it("emits one module per lexicon", () => {
+    expect(Object.keys(modules).sort()).toEqual(["com/example/feed/post.ts", "com/example/strongRef.ts"]);
+  });
+
+  it("emits a schema and a type alias per def", () => {
+    expect(source).toContain("export type Main = {");
+    expect(source).toContain("export const main: v.GenericSchema<unknown, Main> = v.object({");
+    expect(source).toContain("export type ReplyRef = {");
+    expect(source).toContain('export type Spam = "com.example.feed.post#spam";');
+  });
+
+  it("turns cross-lexicon refs into imports", () => {
+    expect(source).toContain('import * as ComExampleStrongRef from "../strongRef.js";');
+    expect(source).toContain("root: v.lazy(() => ComExampleStrongRef.main),");
+    expect(modules["com/example/strongRef.ts"]).not.toContain("import * as Com");
+  });
+
+  it("imports helpers from the runtime module", () => {
+    expect(source).toContain('from "@bigmistqke/lexicon-to-valibot/runtime";');
+    expect(generateModules(lexicons, { runtimeModule: "./runtime.js" })["com/example/feed/post.ts"]).toContain(
+      'from "./runtime.js";'
+    );
+    // Helpers are passed the output type of their node
+    expect(source).toContain('checksum: v.optional(convertBytes<Uint8Array>({ type: "bytes", maxLength: 4 }, "sdk")),');
+    expect(source).toContain("previous: v.optional(convertCidLink<CID>(");
+  });
+
+  it("escapes def names that are reserved words", () => {
+    expect(source).toContain("export const delete_: v.GenericSchema<unknown, Delete>");
+  });
+
+  it("escapes def names that shadow imports", () => {
+    const shadowing = {
+      lexicon: 1,
+      id: "com.example.shadowing",
+      defs: {
+        blobRef: { type: "object", properties: { blob: { type: "blob" }, cid: { type: "cid-link" } } },
+        cID: { type: "object", properties: {} },
+        createUnion: { type: "object", properties: { embed: { type: "union", refs: ["com.example.strongRef"] } } },
+        comExampleStrongRef: { type: "object", properties: { ref: { type: "ref", ref: "com.example.strongRef" } } },
+      },
+    } as const;
+    const generated = generateModules([strongRef, shadowing])["com/example/shadowing.ts"];
+    expect(generated).toContain("export type BlobRef_ = {\n  $type?: \"com.example.shadowing#blobRef\";\n  blob?: BlobRef");
+    expect(generated).toContain("cid?: CID;");
+    expect(generated).toContain("export type CID_ = {");
+    expect(generated).toContain("export const createUnion_: v.GenericSchema<unknown, CreateUnion> = v.object({");
+    expect(generated).toContain('import * as ComExampleStrongRef_ from "./strongRef.js";');
+    expect(generated).toContain("ref?: ComExampleStrongRef_.Main;");
+  });
+
+  it("emits descriptions as doc comments", () => {
+    expect(source).toContain("/** A post */\nexport const main");
+  });
+
+  it("emits XRPC defs as objects of schemas", () => {
+    expect(source).toContain("export type GetPostParameters = {");
+    expect(source).toContain("export type GetPostOutput = Main;");
+    expect(source).toContain("export const getPost: {");
+    expect(source).toContain('error: v.GenericSchema<unknown, XrpcErrorBody<"NotFound">>;');
+    expect(source).toContain('} = createQueryValidators({ type: "query", parameters: { type: "params", properties: { uri: { type: "string" }, depth: { type: "integer" } } }, output: { encoding: "application/json" }, errors: [{ name: "NotFound" }] }, {');
+  });
+
+  it("emits bodies of non-JSON encodings as binary", () => {
+    const upload = {
+      lexicon: 1,
+      id: "com.example.uploadBlob",
+      defs: { main: { type: "procedure", input: { encoding: "*/*" } } },
+    } as const;
+    const generated = generateModules([upload])["com/example/uploadBlob.ts"];
+    expect(generated).toContain("export type MainInput = Uint8Array | Blob | ReadableStream;");
+    expect(generated).toContain("input: v.union([v.instance(Uint8Array), v.instance(Blob), v.instance(ReadableStream)]),");
+  });
+
+  it("emits enums without unused helpers, and empty enums as never", () => {
+    const enums = {
+      lexicon: 1,
+      id: "com.example.enums",
+      defs: {
+        status: { type: "string", enum: ["open", "closed"], maxGraphemes: 10 },
+        none: { type: "string", enum: [] },
+        level: { type: "integer", enum: [] },
+      },
+    } as const;
+    const generated = generateModules([enums])["com/example/enums.ts"];
+    expect(generated).toContain('export const status: v.GenericSchema<unknown, Status> = v.picklist(["open", "closed"]);');
+    expect(generated).not.toContain("countGraphemes");
+    expect(generated).toContain("export type None = never;");
+    expect(generated).toContain("export type Level = never;");
+  });
+
+  it("rejects duplicate and invalid lexicons", () => {
+    expect(() => generateModules([strongRef, strongRef])).toThrow("Duplicate lexicon: com.example.strongRef");
+    expect(() => generateModules([{ lexicon: 1, id: "invalid", defs: {} }])).toThrow("Invalid lexicon invalid");
+  });
+
+  it("applies the unresolved refs policy", () => {
+    expect(() => generateModules([post], { unresolvedRefs: "error" })).toThrow("com.example.strongRef");
+    const unknownObject = generateModules([post], { unresolvedRefs: "unknown-object" });
+    expect(unknownObject["com/example/feed/post.ts"]).toContain("root: v.looseObject({}),");
+  });
+});
+
+// Write the generated modules to a temporary directory and import them,
+// to check they validate exactly like the schemas built at runtime
+describe("generated modules", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "lexicon-codegen-"));
+    symlinkSync(resolve(__dirname, "../node_modules"), join(dir, "node_modules"), "dir");
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function importGenerated(name: string, options: CodegenOptions) {
+    const runtimeModule = resolve(__dirname, "runtime.ts");
+    for (const [path, source] of Object.entries(generateModules(lexicons, { ...options, runtimeModule }))) {
+      const target = join(dir, name, path);
+      mkdirSync(dirname(target), { recursive: true });
+      writeFileSync(target, source);
+    }
+    return import(join(dir, name, toModulePath(post.id)));
+  }
+
+  function expectSameResult(generated: v.GenericSchema, runtime: v.GenericSchema, value: unknown) {
+    const expected = v.safeParse(runtime, value);
+    const actual = v.safeParse(generated, value);
+    expect(actual.success).toBe(expected.success);
+    expect(actual.issues?.map((issue) => issue.message)).toEqual(expected.issues?.map((issue) => issue.message));
+    if (expected.success) {
+      expect(actual.output).toEqual(expected.output);
+    }
+  }
+
+  const validPost = {
+    $type: "com.example.feed.post",
+    text: "hello",
+    langs: ["en", "nl"],
+    reason: "other",
+    embed: { $type: "com.example.strongRef", uri, cid },
+    kind: { $type: "com.example.feed.post#images", images: [] },
+    reply: { root: { uri, cid }, parent: { uri, cid }, children: [{ root: { uri, cid }, parent: { uri, cid } }] },
+    createdAt: "2024-01-01T00:00:00.000Z",
+    "weird-key": true,
+  };
+
+  const invalidPosts = [
+    { ...validPost, text: "a".repeat(31) },
+    { ...validPost, text: "🙂".repeat(11) },
+    { ...validPost, langs: ["not a language"] },
+    { ...validPost, langs: ["en", "nl", "de", "fr"] },
+    { ...validPost, embed: { $type: "com.example.strongRef", uri: "not a uri", cid } },
+    { ...validPost, embed: { $type: "com.example.other", anything: true } },
+    { ...validPost, kind: { $type: "com.example.other" } },
+    { ...validPost, reply: { root: { uri, cid } } },
+    { ...validPost, limit: 0 },
+    { ...validPost, limit: 1.5 },
+    { ...validPost, createdAt: "yesterday" },
+    { ...validPost, "weird-key": false },
+  ];
+
+  it("validates like the runtime schemas in sdk format", async () => {
+    const generated = await importGenerated("sdk", { knownValues: "strict" });
+    const runtime = new LexiconRegistry({ knownValues: "strict" }).add(strongRef, post);
+    const schemas = runtime.lexiconToValibot(post.id);
+
+    const sdkPost = { ...validPost, checksum: new Uint8Array([1, 2]), previous: CID.parse(cid) };
+    expect(v.safeParse(schemas.main, sdkPost).success).toBe(true);
+    for (const value of [validPost, sdkPost, ...invalidPosts]) {
+      expectSameResult(generated.main, schemas.main, value);
+    }
+    expectSameResult(generated.main, schemas.main, { ...validPost, reason: "unknown" });
+    expectSameResult(generated.main, schemas.main, { ...validPost, checksum: new Uint8Array(5) });
+    expectSameResult(generated.spam, schemas.spam, "com.example.feed.post#spam");
+    expectSameResult(generated.delete_, schemas.delete, {});
+  });
+
+  it("validates like the runtime schemas in wire format", async () => {
+    const generated = await importGenerated("wire", { format: "wire" });
+    const runtime = new LexiconRegistry({ format: "wire" }).add(strongRef, post);
+    const schemas = runtime.lexiconToValibot(post.id);
+
+    const image = { $type: "blob", ref: { $link: cid }, mimeType: "image/png", size: 100 };
+    const wirePost = {
+      ...validPost,
+      kind: { $type: "com.example.feed.post#images", images: [image] },
+      checksum: { $bytes: "AQI" },
+      previous: { $link: cid },
+    };
+    expect(v.safeParse(schemas.main, wirePost).success).toBe(true);
+    for (const value of [wirePost, ...invalidPosts]) {
+      expectSameResult(generated.main, schemas.main, value);
+    }
+    expectSameResult(generated.main, schemas.main, { ...wirePost, $type: undefined });
+    expectSameResult(generated.main, schemas.main, { ...wirePost, checksum: { $bytes: "not base64!" } });
+    expectSameResult(generated.main, schemas.main, { ...wirePost, previous: { $link: "not a cid" } });
+    expectSameResult(generated.main, schemas.main, {
+      ...wirePost,
+      kind: { $type: "com.example.feed.post#images", images: [{ ...image, mimeType: "video/mp4" }] },
+    });
+  });
+
+  it("validates XRPC defs like the runtime schemas", async () => {
+    const generated = await importGenerated("xrpc", {});
+    const schemas = new LexiconRegistry().add(strongRef, post).xrpcToValibot(post.id);
+
+    expectSameResult(generated.getPost.parameters, schemas.getPost.parameters, { uri });
+    expectSameResult(generated.getPost.parameters, schemas.getPost.parameters, { depth: 1 });
+    expectSameResult(generated.getPost.output, schemas.getPost.output, validPost);
+
+    const query = new URLSearchParams({ uri, depth: "2" });
+    expectSameResult(generated.getPost.parseParams, schemas.getPost.parseParams, query);
+    expectSameResult(generated.getPost.parseParams, schemas.getPost.parseParams, new URLSearchParams({ uri, depth: "deep" }));
+    expectSameResult(generated.getPost.parseOutput, schemas.getPost.parseOutput, { contentType: "application/json", body: validPost });
+    expectSameResult(generated.getPost.parseOutput, schemas.getPost.parseOutput, { contentType: "text/plain", body: validPost });
+    expectSameResult(generated.getPost.error, schemas.getPost.error, { error: "NotFound", message: "Gone" });
+    expect(generated.getPost.outputEncoding).toBe("application/json");
+    expect(generated.getPost.errors).toEqual(schemas.getPost.errors);
+  });
+});
@@ -0,0 +1,643 @@
+import { toTypeName } from "./converters/complex.js";
+import { expandKnownValue } from "./converters/primitives.js";
+import type {
+  BlobFormat,
+  KnownValuesPolicy,
+  LexiconInput,
+  LexiconToValibotOptions,
+  LexString,
+  UnresolvedRefPolicy,
+  UntypedBlobPolicy,
+} from "./types.js";
+import { assertValidLexicon } from "./validate-lexicon.js";
+
+// Static code generation: emits valibot TypeScript modules that build the same schemas as convertType
+
+type StringFormat = NonNullable<LexString["format"]>;
+type Node = Record<string, unknown>;
+
+export interface CodegenOptions extends Omit<LexiconToValibotOptions, 'externalRefs'> {
+  /** Module the generated code imports its helpers from. Default: '@bigmistqke/lexicon-to-valibot/runtime' */
+  runtimeModule?: string;
+}
+
+const DEFAULT_RUNTIME_MODULE = "@bigmistqke/lexicon-to-valibot/runtime";
+
+// Runtime helper validating each string format
+const formatValidatorNames: Record<StringFormat, string> = {
+  "datetime": "isValidDatetime",
+  "uri": "isValidUri",
+  "at-uri": "isValidAtUri",
+  "did": "isValidDid",
+  "handle": "isValidHandle",
+  "at-identifier": "isValidAtIdentifier",
+  "nsid": "isValidNsid",
+  "cid": "isValidCid",
+  "language": "isValidLanguage",
+  "tid": "isValidTid",
+  "record-key": "isValidRecordKey",
+};
+
+// Def names that cannot be used as a const name as-is
+const RESERVED_WORDS = new Set([
+  "break", "case", "catch", "class", "const", "continue", "debugger", "default", "delete", "do", "else",
+  "enum", "export", "extends", "false", "finally", "for", "function", "if", "import", "in", "instanceof",
+  "new", "null", "return", "super", "switch", "this", "throw", "true", "try", "typeof", "var", "void",
+  "while", "with", "yield", "let", "static", "implements", "interface", "package", "private", "protected",
+  "public", "await", "v",
+  // Runtime helpers generated modules import
+  "convertBlob", "convertBytes", "convertCidLink", "countGraphemes", "createUnion", "createQueryValidators",
+  "createProcedureValidators", "createSubscriptionValidators", ...Object.values(formatValidatorNames),
+]);
+
+const IDENTIFIER_REGEX = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/;
+
+// Schema const name of a def
+function toIdentifier(defName: string): string {
+  return RESERVED_WORDS.has(defName) ? `${defName}_` : defName;
+}
+
+// Types generated modules import, which type aliases cannot shadow
+const IMPORTED_TYPE_NAMES = new Set(["BlobRef", "CID", "QueryParamsInput", "XrpcBodyInput", "XrpcErrorBody"]);
+
+const capitalize = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+
+// Type alias name of a def, escaped like reserved words when it is the name of an imported type
+function toTypeAlias(defName: string): string {
+  const alias = capitalize(defName);
+  return IMPORTED_TYPE_NAMES.has(alias) ? `${alias}_` : alias;
+}
+
+// Type alias names of the parts of an XRPC def
+const XRPC_PARTS = ["parameters", "input", "output", "message"];
+const toPartAlias = (alias: string, key: string) => toTypeAlias(`${alias}${capitalize(key)}`);
+
+// Namespace import name of a lexicon, e.g. com.atproto.repo.strongRef -> ComAtprotoRepoStrongRef
+function toNamespace(nsid: string): string {
+  return nsid.split(/[.-]/).map(capitalize).join("");
+}
+
+/** Path of the module generated for a lexicon, e.g. com/atproto/repo/strongRef.ts */
+export function toModulePath(nsid: string): string {
+  return `${nsid.split(".").join("/")}.ts`;
+}
+
+// Relative import specifier from one generated module to another
+function toImportPath(from: string, to: string): string {
+  const fromDirs = toModulePath(from).split("/").slice(0, -1);
+  const toParts = toModulePath(to).replace(/\.ts$/, ".js").split("/");
+  let common = 0;
+  while (common < fromDirs.length && fromDirs[common] === toParts[common]) common++;
+  const up = fromDirs.slice(common).map(() => "..");
+  const path = [...up, ...toParts.slice(common)].join("/");
+  return up.length === 0 ? `./${path}` : path;
+}
+
+// Print a JSON value as a JS literal
+function printLiteral(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(printLiteral).join(", ")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value).map(([key, item]) => `${printKey(key)}: ${printLiteral(item)}`);
+    return entries.length === 0 ? "{}" : `{ ${entries.join(", ")} }`;
+  }
+  return JSON.stringify(value);
+}
+
+// Print enum values as a union type - no values leave none, as InferLexType infers
+function printEnum(values: unknown[]): string {
+  return values.length === 0 ? "never" : values.map(printLiteral).join(" | ");
+}
+
+function printKey(key: string): string {
+  return IDENTIFIER_REGEX.test(key) ? key : JSON.stringify(key);
+}
+
+// The fields of a lexicon node a runtime helper reads - descriptions are left out
+function pick(node: Node, keys: string[]): Node {
+  return Object.fromEntries(keys.filter((key) => node[key] !== undefined).map((key) => [key, node[key]]));
+}
+
+// What the validators of an XRPC def read from it besides its schemas: param types to coerce query strings to,
+// body encodings and error names
+function xrpcShape(def: Node): Node {
+  const params = def.parameters as Node | undefined;
+  const properties = Object.entries((params?.properties ?? {}) as Record<string, Node>).map(([key, prop]) => [
+    key,
+    prop.items === undefined ? pick(prop, ["type"]) : { ...pick(prop, ["type"]), items: pick(prop.items as Node, ["type"]) },
+  ]);
+  return {
+    type: def.type,
+    ...(params === undefined ? {} : { parameters: { type: "params", properties: Object.fromEntries(properties) } }),
+    ...Object.fromEntries(
+      ["input", "output"].filter((key) => def[key] !== undefined).map((key) => [key, pick(def[key] as Node, ["encoding"])])
+    ),
+    ...(def.errors === undefined ? {} : { errors: (def.errors as Node[]).map((error) => pick(error, ["name"])) }),
+  };
+}
+
+// Parenthesize union and intersection types used as array items
+function wrapType(type: string): string {
+  let depth = 0;
+  for (const char of type) {
+    if (char === "{" || char === "(" || char === "[") depth++;
+    else if (char === "}" || char === ")" || char === "]") depth--;
+    else if (depth === 0 && (char === "|" || char === "&")) return `(${type})`;
+  }
+  return type;
+}
+
+interface ResolvedCodegenOptions {
+  format: BlobFormat;
+  knownValues: KnownValuesPolicy;
+  untypedBlobs: UntypedBlobPolicy;
+  unresolvedRefs: UnresolvedRefPolicy;
+  runtimeModule: string;
+}
+
+// Emits the module of one lexicon, collecting the imports it needs
+class ModuleEmitter {
+  private readonly runtimeImports = new Set<string>();
+  private readonly runtimeTypeImports = new Set<string>();
+  private readonly namespaceImports = new Map<string, string>();
+  private readonly typeImports = new Set<"BlobRef" | "CID">();
+  // Names the module declares - a namespace import named like one of them is escaped, since it is module-local
+  private readonly localNames: Set<string>;
+
+  constructor(
+    private readonly lexicon: LexiconInput,
+    private readonly lexicons: ReadonlyMap<string, LexiconInput>,
+    private readonly options: ResolvedCodegenOptions
+  ) {
+    this.localNames = new Set(
+      Object.keys(lexicon.defs).flatMap((defName) => [
+        toIdentifier(defName),
+        toTypeAlias(defName),
+        ...XRPC_PARTS.map((key) => toPartAlias(toTypeAlias(defName), key)),
+      ])
+    );
+  }
+
+  emit(): string {
+    const defs = Object.entries(this.lexicon.defs).map(([defName, def]) => this.def(defName, def as Node));
+
+    const imports = ['import * as v from "valibot";'];
+    if (this.typeImports.has("BlobRef")) {
+      imports.push('import type { BlobRef } from "@atproto/lexicon";');
+    }
+    if (this.typeImports.has("CID")) {
+      imports.push('import type { CID } from "multiformats/cid";');
+    }
+    if (this.runtimeImports.size > 0) {
+      const types = [...this.runtimeTypeImports].sort().map((name) => `type ${name}`);
+      const names = [...[...this.runtimeImports].sort(), ...types].join(", ");
+      imports.push(`import { ${names} } from ${JSON.stringify(this.options.runtimeModule)};`);
+    }
+    for (const [nsid, namespace] of [...this.namespaceImports].sort(([a], [b]) => a.localeCompare(b))) {
+      imports.push(`import * as ${namespace} from ${JSON.stringify(toImportPath(this.lexicon.id, nsid))};`);
+    }
+
+    return [
+      `// Generated by lexicon-to-valibot from ${this.lexicon.id} - do not edit`,
+      "",
+      imports.join("\n"),
+      "",
+      defs.join("\n\n"),
+      "",
+    ].join("\n");
+  }
+
+  private def(defName: string, def: Node): string {
+    const name = toIdentifier(defName);
+    const alias = toTypeAlias(defName);
+    const doc = typeof def.description === "string" ? `/** ${def.description.replace(/\*\//g, "*\\/")} */\n` : "";
+
+    if (def.type === "query" || def.type === "procedure" || def.type === "subscription") {
+      return doc + this.xrpcDef(name, alias, def);
+    }
+
+    return [
+      `export type ${alias} = ${this.defType(defName, def)};`,
+      "",
+      `${doc}export const ${name}: v.GenericSchema<unknown, ${alias}> = ${this.defSchema(defName, def)};`,
+    ].join("\n");
+  }
+
+  private xrpcDef(name: string, alias: string, def: Node): string {
+    const parts: [key: string, type: string, schema: string][] = [
+      ["parameters", this.paramsType(def.parameters as Node | undefined), this.paramsSchema(def.parameters as Node | undefined)],
+    ];
+    const bodies = def.type === "query" ? ["output"] : def.type === "procedure" ? ["input", "output"] : ["message"];
+    for (const key of bodies) {
+      const body = def[key] as { encoding?: string; schema?: unknown } | undefined;
+      // Bodies of non-JSON encodings are binary, like in convertBody
+      parts.push(
+        body?.encoding !== undefined && body.encoding.toLowerCase() !== "application/json"
+          ? [key, "Uint8Array | Blob | ReadableStream", "v.union([v.instance(Uint8Array), v.instance(Blob), v.instance(ReadableStream)])"]
+          : body?.schema
+          ? [key, this.type(body.schema as Node, ""), this.schema(body.schema as Node, "  ")]
+          : [key, "unknown", "v.unknown()"]
+      );
+    }
+
+    const typeName = (key: string) => toPartAlias(alias, key);
+    const validatorTypes = parts.flatMap(([key]) => [
+      `  ${key}: v.GenericSchema<unknown, ${typeName(key)}>;`,
+      ...(key === "parameters" ? [`  parseParams: v.GenericSchema<${this.useRuntimeType("QueryParamsInput")}, ${typeName(key)}>;`] : []),
+      ...(key === "input" || key === "output"
+        ? [
+            `  ${key}Encoding: string | undefined;`,
+            `  parse${capitalize(key)}: v.GenericSchema<${this.useRuntimeType("XrpcBodyInput")}, ${typeName(key)}>;`,
+          ]
+        : []),
+    ]);
+    const errorNames = ((def.errors as { name: string }[] | undefined) ?? []).map(({ name }) => JSON.stringify(name));
+    const errorBody = this.useRuntimeType("XrpcErrorBody");
+    const create = this.useRuntime(`create${capitalize(def.type as string)}Validators`);
+
+    return [
+      ...parts.map(([key, type]) => `export type ${typeName(key)} = ${type};\n`),
+      `export const ${name}: {`,
+      ...validatorTypes,
+      "  errors: string[];",
+      `  error: v.GenericSchema<unknown, ${errorNames.length === 0 ? errorBody : `${errorBody}<${errorNames.join(" | ")}>`}>;`,
+      `} = ${create}(${printLiteral(xrpcShape(def))}, {`,
+      ...parts.map(([key, , schema]) => `  ${key}: ${schema},`),
+      "});",
+    ].join("\n");
+  }
+
+  // `$type` of a top-level object or record def, like withTypeField in convert.ts
+  private typeField(defName: string, def: Node): { schema: string; type: string } | undefined {
+    const typeName = defName === "main" ? this.lexicon.id : `${this.lexicon.id}#${defName}`;
+    const literal = JSON.stringify(typeName);
+    if (def.type === "record") {
+      return this.options.format === 'wire'
+        ? { schema: `v.literal(${literal})`, type: `$type: ${literal}` }
+        : { schema: `v.optional(v.literal(${literal}))`, type: `$type?: ${literal}` };
+    }
+    if (def.type === "object") {
+      const mainLiteral = JSON.stringify(`${typeName}#main`);
+      return defName === "main"
+        ? { schema: `v.optional(v.picklist([${literal}, ${mainLiteral}]))`, type: `$type?: ${literal} | ${mainLiteral}` }
+        : { schema: `v.optional(v.literal(${literal}))`, type: `$type?: ${literal}` };
+    }
+    return undefined;
+  }
+
+  private defSchema(defName: string, def: Node): string {
+    if (def.type === "token") {
+      return `v.literal(${JSON.stringify(`${this.lexicon.id}#${defName}`)})`;
+    }
+    const typeField = this.typeField(defName, def);
+    if (def.type === "record") {
+      return this.objectSchema(def.record as Node, "", typeField);
+    }
+    if (def.type === "object") {
+      return this.objectSchema(def, "", typeField);
+    }
+    return this.schema(def, "");
+  }
+
+  private defType(defName: string, def: Node): string {
+    if (def.type === "token") {
+      return JSON.stringify(`${this.lexicon.id}#${defName}`);
+    }
+    const typeField = this.typeField(defName, def);
+    if (def.type === "record") {
+      return this.objectType(def.record as Node, "", typeField);
+    }
+    if (def.type === "object") {
+      return this.objectType(def, "", typeField);
+    }
+    return this.type(def, "");
+  }
+
+  private useRuntime(name: string): string {
+    this.runtimeImports.add(name);
+    return name;
+  }
+
+  private useRuntimeType(name: string): string {
+    this.runtimeTypeImports.add(name);
+    return name;
+  }
+
+  // Schema source of a lexicon node, mirroring convertType
+  private schema(node: Node, indent: string): string {
+    const { format } = this.options;
+    switch (node.type) {
+      case "boolean":
+        return node.const !== undefined ? `v.literal(${printLiteral(node.const)})` : "v.boolean()";
+      case "integer":
+        return this.integerSchema(node);
+      case "string":
+        return this.stringSchema(node);
+      case "unknown":
+        return `${this.useRuntime("convertUnknown")}(${printLiteral(pick(node, ["type"]))})`;
+      case "bytes":
+        return `${this.useRuntime("convertBytes")}<${this.type(node, indent)}>(${printLiteral(pick(node, ["type", "minLength", "maxLength"]))}, "${format}")`;
+      case "cid-link":
+        return `${this.useRuntime("convertCidLink")}<${this.type(node, indent)}>(${printLiteral(pick(node, ["type"]))}, "${format}")`;
+      case "blob":
+        return `${this.useRuntime("convertBlob")}<${this.type(node, indent)}>(${printLiteral(pick(node, ["type", "accept", "maxSize"]))}, "${format}", "${this.options.untypedBlobs}")`;
+      case "array":
+        return this.arraySchema(node, indent);
+      case "object":
+        return this.objectSchema(node, indent);
+      case "ref":
+        return this.refSchema(node.ref as string);
+      case "union":
+        return this.unionSchema(node, indent);
+      default:
+        throw new Error(`Unknown schema type: ${String(node.type)}`);
+    }
+  }
+
+  private integerSchema(node: Node): string {
+    const values = node.enum as number[] | undefined;
+    if (values !== undefined && values.length > 0) {
+      return `v.picklist(${printLiteral(values)})`;
+    }
+    if (node.const !== undefined) {
+      return `v.literal(${printLiteral(node.const)})`;
+    }
+    const checks = ["v.integer()"];
+    if (node.minimum !== undefined) checks.push(`v.minValue(${node.minimum})`);
+    if (node.maximum !== undefined) checks.push(`v.maxValue(${node.maximum})`);
+    return `v.pipe(v.number(), ${checks.join(", ")})`;
+  }
+
+  private stringSchema(node: Node): string {
+    const values = node.enum as string[] | undefined;
+    if (values !== undefined && values.length > 0) {
+      return `v.picklist(${printLiteral(values)})`;
+    }
+    if (node.const !== undefined) {
+      return `v.literal(${printLiteral(node.const)})`;
+    }
+
+    const checks: string[] = [];
+    if (node.minLength !== undefined) {
+      checks.push(`v.minBytes(${node.minLength}, "String must have at least ${node.minLength} UTF-8 byte(s)")`);
+    }
+    if (node.maxLength !== undefined) {
+      checks.push(`v.maxBytes(${node.maxLength}, "String must have at most ${node.maxLength} UTF-8 byte(s)")`);
+    }
+    if (node.minGraphemes !== undefined) {
+      const countGraphemes = this.useRuntime("countGraphemes");
+      checks.push(
+        `v.check((value) => ${countGraphemes}(value) >= ${node.minGraphemes}, "String must have at least ${node.minGraphemes} grapheme(s)")`
+      );
+    }
+    if (node.maxGraphemes !== undefined) {
+      const countGraphemes = this.useRuntime("countGraphemes");
+      checks.push(
+        `v.check((value) => ${countGraphemes}(value) <= ${node.maxGraphemes}, "String must have at most ${node.maxGraphemes} grapheme(s)")`
+      );
+    }
+
+    const knownValues = node.knownValues as string[] | undefined;
+    if (knownValues !== undefined && knownValues.length > 0 && this.options.knownValues === 'strict') {
+      const expanded = knownValues.map((value) => expandKnownValue(value, this.lexicon.id));
+      const message = JSON.stringify(`String must be one of the known values: ${expanded.join(", ")}`);
+      checks.push(`v.check((value) => ${printLiteral(expanded)}.includes(value), ${message})`);
+    }
+
+    if (node.format !== undefined) {
+      const format = node.format as StringFormat;
+      checks.push(`v.check(${this.useRuntime(formatValidatorNames[format])}, "String must be a valid ${format}")`);
+    }
+
+    return checks.length === 0 ? "v.string()" : `v.pipe(v.string(), ${checks.join(", ")})`;
+  }
+
+  private arraySchema(node: Node, indent: string): string {
+    const items = `v.array(${this.schema(node.items as Node, indent)})`;
+    const checks: string[] = [];
+    if (node.minLength !== undefined) checks.push(`v.minLength(${node.minLength})`);
+    if (node.maxLength !== undefined) checks.push(`v.maxLength(${node.maxLength})`);
+    return checks.length === 0 ? items : `v.pipe(${items}, ${checks.join(", ")})`;
+  }
+
+  // Object schema, mirroring convertObject - top-level defs lead with their `$type`
+  private objectSchema(node: Node, indent: string, typeField?: { schema: string }): string {
+    const inner = `${indent}  `;
+    const required = new Set((node.required as string[] | undefined) ?? []);
+    const nullable = new Set((node.nullable as string[] | undefined) ?? []);
+    const entries: string[] = [];
+    if (typeField) {
+      entries.push(`${inner}$type: ${typeField.schema},`);
+    }
+    for (const [key, prop] of Object.entries((node.properties as Record<string, Node> | undefined) ?? {})) {
+      let schema = this.schema(prop, inner);
+      if (nullable.has(key)) {
+        schema = `v.nullable(${schema})`;
+      }
+      if (!required.has(key) || prop.default !== undefined) {
+        schema = prop.default === undefined ? `v.optional(${schema})` : `v.optional(${schema}, ${printLiteral(prop.default)})`;
+      }
+      entries.push(`${inner}${printKey(key)}: ${schema},`);
+    }
+    return entries.length === 0 ? "v.object({})" : `v.object({\n${entries.join("\n")}\n${indent}})`;
+  }
+
+  // Params schema, mirroring convertParams
+  private paramsSchema(params: Node | undefined): string {
+    if (!params?.properties) {
+      return "v.object({})";
+    }
+    return this.objectSchema({ properties: params.properties, required: params.required }, "  ");
+  }
+
+  // Resolve a ref to the lexicon and def it names, if the lexicon is known
+  private resolveRef(ref: string): { nsid: string; defName: string; def: Node } | undefined {
+    const fullRef = ref.startsWith("#") ? `${this.lexicon.id}${ref}` : ref.includes("#") ? ref : `${ref}#main`;
+    const [nsid, defName] = fullRef.split("#");
+    const lexicon = this.lexicons.get(nsid);
+    if (!lexicon) {
+      return undefined;
+    }
+    const def = lexicon.defs[defName] as Node | undefined;
+    if (!def) {
+      throw new Error(`Ref not found: ${ref} (resolved to ${fullRef})`);
+    }
+    return { nsid, defName, def };
+  }
+
+  // Qualified name of a def - defs of other lexicons are reached through a namespace import
+  private qualify(nsid: string, name: string): string {
+    if (nsid === this.lexicon.id) {
+      return name;
+    }
+    let namespace = this.namespaceImports.get(nsid);
+    if (namespace === undefined) {
+      namespace = toNamespace(nsid);
+      while (this.localNames.has(namespace)) {
+        namespace = `${namespace}_`;
+      }
+      this.namespaceImports.set(nsid, namespace);
+    }
+    return `${namespace}.${name}`;
+  }
+
+  private refSchema(ref: string): string {
+    const resolved = this.resolveRef(ref);
+    if (!resolved) {
+      switch (this.options.unresolvedRefs) {
+        case 'error':
+          throw new Error(`External ref not resolved: ${ref} - provide its lexicon to codegen`);
+        case 'warn':
+          console.warn(`External ref not resolved: ${ref} - provide its lexicon to codegen`);
+          return "v.unknown()";
+        case 'unknown-object':
+          return "v.looseObject({})";
+      }
+    }
+    return `v.lazy(() => ${this.qualify(resolved.nsid, toIdentifier(resolved.defName))})`;
+  }
+
+  // Union schema, mirroring convertUnion
+  private unionSchema(node: Node, indent: string): string {
+    const refs = node.refs as string[];
+    if (refs.length === 0) {
+      return "v.never()";
+    }
+    const inner = `${indent}  `;
+    const variants = refs.map(
+      (ref) => `${inner}${JSON.stringify(toTypeName(ref, this.lexicon.id))}: ${this.refSchema(ref)},`
+    );
+    return `${this.useRuntime("createUnion")}<${this.type(node, indent)}>({\n${variants.join("\n")}\n${indent}}, ${node.closed === true})`;
+  }
+
+  // Output type of a lexicon node, mirroring InferLexType
+  private type(node: Node, indent: string): string {
+    const { format } = this.options;
+    switch (node.type) {
+      case "boolean":
+        return node.const !== undefined ? printLiteral(node.const) : "boolean";
+      case "integer":
+        if (node.const !== undefined) return printLiteral(node.const);
+        if (Array.isArray(node.enum)) return printEnum(node.enum);
+        return "number";
+      case "string":
+        if (node.const !== undefined) return printLiteral(node.const);
+        if (Array.isArray(node.enum)) return printEnum(node.enum);
+        if (Array.isArray(node.knownValues)) {
+          const known = node.knownValues.map((value: string) => printLiteral(expandKnownValue(value, this.lexicon.id)));
+          return [...known, "(string & {})"].join(" | ");
+        }
+        return "string";
+      case "unknown":
+        return "unknown";
+      case "bytes":
+        return format === 'sdk' ? "Uint8Array" : "{ $bytes: string }";
+      case "cid-link":
+        if (format === 'wire') return "{ $link: string }";
+        this.typeImports.add("CID");
+        return "CID";
+      case "blob":
+        if (format === 'wire') {
+          return '{ $type: "blob"; ref: { $link: string }; mimeType: string; size: number } | { cid: string; mimeType: string }';
+        }
+        this.typeImports.add("BlobRef");
+        return "BlobRef | { cid: string; mimeType: string }";
+      case "array":
+        return `${wrapType(this.type(node.items as Node, indent))}[]`;
+      case "object":
+        return this.objectType(node, indent);
+      case "ref":
+        return this.refType(node.ref as string);
+      case "union":
+        return this.unionType(node);
+      default:
+        throw new Error(`Unknown schema type: ${String(node.type)}`);
+    }
+  }
+
+  // Object type - required and defaulted properties are present, nullable ones may be null
+  private objectType(node: Node, indent: string, typeField?: { type: string }): string {
+    const inner = `${indent}  `;
+    const required = new Set((node.required as string[] | undefined) ?? []);
+    const nullable = new Set((node.nullable as string[] | undefined) ?? []);
+    const members: string[] = [];
+    if (typeField) {
+      members.push(`${inner}${typeField.type};`);
+    }
+    for (const [key, prop] of Object.entries((node.properties as Record<string, Node> | undefined) ?? {})) {
+      const present = required.has(key) || prop.default !== undefined;
+      const type = this.type(prop, inner) + (nullable.has(key) ? " | null" : "");
+      members.push(`${inner}${printKey(key)}${present ? "" : "?"}: ${type};`);
+    }
+    return members.length === 0 ? "{}" : `{\n${members.join("\n")}\n${indent}}`;
+  }
+
+  private paramsType(params: Node | undefined): string {
+    if (!params?.properties) {
+      return "{}";
+    }
+    return this.objectType({ properties: params.properties, required: params.required }, "");
+  }
+
+  private unresolvedType(): string {
+    return this.options.unresolvedRefs === 'unknown-object' ? "{ [key: string]: unknown }" : "unknown";
+  }
+
+  private refType(ref: string): string {
+    const resolved = this.resolveRef(ref);
+    if (!resolved) {
+      return this.unresolvedType();
+    }
+    return this.qualify(resolved.nsid, toTypeAlias(resolved.defName));
+  }
+
+  // Union type - tokens are their name, objects carry their `$type`
+  private unionType(node: Node): string {
+    const variants = (node.refs as string[]).map((ref) => {
+      const resolved = this.resolveRef(ref);
+      if (resolved?.def.type === "token") {
+        return this.refType(ref);
+      }
+      const typeField = `{ $type: ${JSON.stringify(toTypeName(ref, this.lexicon.id))} }`;
+      const type = this.refType(ref);
+      return type === "unknown" ? typeField : `(${typeField} & ${type})`;
+    });
+    if (node.closed !== true) {
+      variants.push("{ $type: string; [key: string]: unknown }");
+    }
+    return variants.length === 0 ? "never" : variants.join(" | ");
+  }
+}
+
+/**
+ * Generate valibot TypeScript modules for a set of lexicons, keyed by module path (see toModulePath).
+ * Each def becomes a schema export with its type alias, and refs across lexicons become imports.
+ */
+export function generateModules(
+  lexicons: readonly LexiconInput[],
+  options: CodegenOptions = {}
+): Record<string, string> {
+  const resolvedOptions: ResolvedCodegenOptions = {
+    format: options.format ?? 'sdk',
+    knownValues: options.knownValues ?? 'open',
+    untypedBlobs: options.untypedBlobs ?? 'allow',
+    unresolvedRefs: options.unresolvedRefs ?? 'warn',
+    runtimeModule: options.runtimeModule ?? DEFAULT_RUNTIME_MODULE,
+  };
+
+  const lexiconsById = new Map<string, LexiconInput>();
+  for (const lexicon of lexicons) {
+    if (lexiconsById.has(lexicon.id)) {
+      throw new Error(`Duplicate lexicon: ${lexicon.id}`);
+    }
+    assertValidLexicon(lexicon);
+    lexiconsById.set(lexicon.id, lexicon);
+  }
+
+  const modules: Record<string, string> = {};
+  for (const lexicon of lexicons) {
+    modules[toModulePath(lexicon.id)] = new ModuleEmitter(lexicon, lexiconsById, resolvedOptions).emit();
+  }
+  return modules;
+}
@@ -0,0 +1,272 @@
+import { BlobRef, Lexicons as AtprotoLexicons } from "@atproto/lexicon";
+import { CID } from "multiformats/cid";
+import { describe, expect, it } from "vitest";
+import { InvalidLexiconError, LexiconDefNotFoundError, Lexicons, ValidationError } from "./compat.js";
+
+const strongRef = {
+  lexicon: 1,
+  id: "com.example.strongRef",
+  defs: {
+    main: {
+      type: "object",
+      required: ["uri", "cid"],
+      properties: {
+        uri: { type: "string", format: "at-uri" },
+        cid: { type: "string", format: "cid" },
+      },
+    },
+  },
+} as const;
+
+const post = {
+  lexicon: 1,
+  id: "com.example.post",
+  defs: {
+    main: {
+      type: "record",
+      key: "tid",
+      record: {
+        type: "object",
+        required: ["text", "createdAt"],
+        properties: {
+          text: { type: "string", maxLength: 30, maxGraphemes: 5 },
+          createdAt: { type: "string", format: "datetime" },
+          tags: { type: "array", items: { type: "string", minLength: 1 }, maxLength: 2 },
+          priority: { type: "integer", minimum: 1, maximum: 5, default: 3 },
+          visibility: { type: "string", enum: ["public", "private"] },
+          subject: { type: "ref", ref: "com.example.strongRef" },
+          embed: { type: "union", refs: ["#images", "#link"] },
+        },
+      },
+    },
+    images: {
+      type: "object",
+      required: ["images"],
+      properties: {
+        images: { type: "array", items: { type: "blob" }, maxLength: 4 },
+      },
+    },
+    link: {
+      type: "object",
+      required: ["uri"],
+      properties: { uri: { type: "string", format: "uri" } },
+    },
+    search: {
+      type: "query",
+      parameters: {
+        type: "params",
+        required: ["q"],
+        properties: {
+          q: { type: "string", minLength: 1 },
+          limit: { type: "integer", minimum: 1, maximum: 100, default: 50 },
+        },
+      },
+      output: {
+        encoding: "application/json",
+        schema: { type: "object", required: ["posts"], properties: { posts: { type: "array", items: { type: "ref", ref: "#link" } } } },
+      },
+    },
+    create: {
+      type: "procedure",
+      input: {
+        encoding: "application/json",
+        schema: { type: "object", required: ["text"], properties: { text: { type: "string", maxLength: 30 } } },
+      },
+    },
+    upload: {
+      type: "procedure",
+      input: { encoding: "*/*" },
+    },
+  },
+} as const;
+
+const cid = "bafyreie5737gdxlw5i64vzichcalba3z2v5n6icifvx5xytvske7mr3hpm";
+const validPost = { $type: "com.example.post", text: "hello", createdAt: "2024-01-01T00:00:00.000Z" };
+const blob = new BlobRef(CID.parse(cid), "image/png", 1000);
+
+// Both implementations on the same docs - @atproto/lexicon rewrites the refs of the docs it is given
+function createBoth() {
+  return {
+    atproto: new AtprotoLexicons(structuredClone([strongRef, post]) as never),
+    ours: new Lexicons([strongRef, post]),
+  };
+}
+
+// Outcome of a validation or assertion, comparable across implementations
+function outcome(run: () => unknown) {
+  try {
+    const result = run() as { success?: boolean; value?: unknown; error?: Error } | undefined;
+    if (result && typeof result === "object" && "success" in result) {
+      return result.success
+        ? { success: true, value: result.value }
+        : { success: false, error: result.error!.constructor.name, message: result.error!.message };
+    }
+    return { returned: result };
+  } catch (error) {
+    return { thrown: (error as Error).constructor.name, message: (error as Error).message };
+  }
+}
+
+describe("Lexicons", () => {
+  const { atproto, ours } = createBoth();
+
+  describe("validate", () => {
+    const cases: [string, string, unknown][] = [
+      ["a valid record", "com.example.post", validPost],
+      ["a record with unknown keys", "com.example.post", { ...validPost, extra: { nested: true } }],
+      ["a record with a default", "com.example.post", { ...validPost, priority: undefined }],
+      ["a record without $type", "com.example.post", { text: "hello", createdAt: "2024-01-01T00:00:00.000Z" }],
+      ["a string too long", "com.example.post", { ...validPost, text: "a".repeat(31) }],
+      ["too many graphemes", "com.example.post", { ...validPost, text: "abcdef" }],
+      ["an invalid format", "com.example.post", { ...validPost, createdAt: "yesterday" }],
+      ["an invalid type", "com.example.post", { ...validPost, text: 1 }],
+      ["a missing property", "com.example.post", { $type: "com.example.post", text: "hello" }],
+      ["a nested missing property", "com.example.post", { ...validPost, subject: { uri: "at://did:plc:abc" } }],
+      ["a valid nested ref", "com.example.post", { ...validPost, subject: { uri: "at://did:plc:abc", cid } }],
+      ["too many elements", "com.example.post", { ...validPost, tags: ["a", "b", "c"] }],
+      ["an invalid element", "com.example.post", { ...validPost, tags: [""] }],
+      ["an integer too large", "com.example.post", { ...validPost, priority: 6 }],
+      ["a value outside the enum", "com.example.post", { ...validPost, visibility: "secret" }],
+      ["a union without $type", "com.example.post", { ...validPost, embed: { uri: "https://example.com" } }],
+      ["a union member", "com.example.post", { ...validPost, embed: { $type: "com.example.post#link", uri: "https://example.com" } }],
+      ["an invalid union member", "com.example.post", { ...validPost, embed: { $type: "com.example.post#link", uri: "nope" } }],
+      ["blobs", "com.example.post", { ...validPost, embed: { $type: "com.example.post#images", images: [blob] } }],
+      ["an object def", "com.example.post#link", { uri: "https://example.com" }],
+      ["an invalid object def", "com.example.post#link", { uri: 1 }],
+      ["an object in another lexicon", "com.example.strongRef", { uri: "at://did:plc:abc", cid: "nope" }],
+      ["a non-object", "com.example.post", "text"],
+      ["an unknown lexicon", "com.example.missing", {}],
+      ["an unknown def", "com.example.post#missing", {}],
+      ["a def that is not a record or object", "com.example.post#search", {}],
+    ];
+
+    it.each(cases)("validates %s like @atproto/lexicon", (_, uri, value) => {
+      expect(outcome(() => ours.validate(uri, value))).toEqual(outcome(() => atproto.validate(uri, value)));
+    });
+  });
+
+  describe("assertValidRecord", () => {
+    const cases: [string, string, unknown][] = [
+      ["a valid record", "com.example.post", validPost],
+      ["a lex: URI", "lex:com.example.post", validPost],
+      ["an invalid record", "com.example.post", { ...validPost, text: 1 }],
+      ["a record without $type", "com.example.post", { text: "hello" }],
+      ["a mismatched $type", "com.example.post", { ...validPost, $type: "com.example.other" }],
+      ["a non-object", "com.example.post", null],
+      ["a def that is not a record", "com.example.post#link", { $type: "com.example.post#link", uri: "https://example.com" }],
+    ];
+
+    it.each(cases)("asserts %s like @atproto/lexicon", (_, uri, value) => {
+      expect(outcome(() => ours.assertValidRecord(uri, value))).toEqual(outcome(() => atproto.assertValidRecord(uri, value)));
+    });
+  });
+
+  describe("XRPC", () => {
+    const cases: [string, "Params" | "Input" | "Output", string, unknown][] = [
+      ["valid params", "Params", "com.example.post#search", { q: "hello", limit: 10 }],
+      ["params with a default", "Params", "com.example.post#search", { q: "hello" }],
+      ["missing params", "Params", "com.example.post#search", {}],
+      ["no params", "Params", "com.example.post#search", undefined],
+      ["params out of range", "Params", "com.example.post#search", { q: "hello", limit: 101 }],
+      ["invalid params", "Params", "com.example.post#search", { q: "" }],
+      ["params of a def without params", "Params", "com.example.post#create", { q: "hello" }],
+      ["a valid output", "Output", "com.example.post#search", { posts: [{ uri: "https://example.com" }] }],
+      ["an invalid output", "Output", "com.example.post#search", { posts: [{ uri: "nope" }] }],
+      ["an output missing a property", "Output", "com.example.post#search", {}],
+      ["a valid input", "Input", "com.example.post#create", { text: "hello" }],
+      ["an invalid input", "Input", "com.example.post#create", { text: "a".repeat(31) }],
+      ["an input without a schema", "Input", "com.example.post#upload", new Uint8Array([1, 2, 3])],
+      ["the input of a query", "Input", "com.example.post#search", {}],
+    ];
+
+    it.each(cases)("validates %s like @atproto/lexicon", (_, part, uri, value) => {
+      const assert = `assertValidXrpc${part}` as const;
+      const expected = outcome(() => atproto[assert](uri, value));
+      expect(outcome(() => ours[assert](uri, value))).toEqual(expected);
+
+      // validateXrpc* reports the errors assertValidXrpc* throws as results
+      const result = outcome(() => ours[`validateXrpc${part}`](uri, value));
+      if ("returned" in expected) {
+        expect(result).toEqual({ success: true, value: expected.returned });
+      } else if (expected.thrown === "ValidationError") {
+        expect(result).toEqual({ success: false, error: "ValidationError", message: expected.message });
+      } else {
+        expect(result).toEqual(expected);
+      }
+    });
+  });
+
+  it("throws the error classes of @atproto/lexicon", () => {
+    expect(() => ours.validate("com.example.post", "text")).toThrow(ValidationError);
+    expect(() => ours.getDefOrThrow("com.example.missing")).toThrow(LexiconDefNotFoundError);
+    expect(() => ours.getDefOrThrow("com.example.post", ["object"])).toThrow(InvalidLexiconError);
+    const result = ours.validate("com.example.post", { ...validPost, text: 1 });
+    expect(!result.success && result.error).toBeInstanceOf(ValidationError);
+  });
+
+  it("reports missing defs like @atproto/lexicon", () => {
+    const getSubject = {
+      lexicon: 1,
+      id: "com.example.getSubject",
+      defs: {
+        main: {
+          type: "query",
+          output: { encoding: "application/json", schema: { type: "ref", ref: "com.example.strongRef" } },
+        },
+      },
+    } as const;
+    const atproto = new AtprotoLexicons(structuredClone([post, getSubject]) as never);
+    const ours = new Lexicons([post, getSubject]);
+    const record = { ...validPost, subject: { uri: "at://did:plc:abc/com.example.post/1", cid } };
+
+    for (const run of [
+      (lexicons: typeof ours) => lexicons.validate("com.example.post", record),
+      (lexicons: typeof ours) => lexicons.assertValidRecord("com.example.post", record),
+      (lexicons: typeof ours) => lexicons.assertValidXrpcOutput("com.example.getSubject", { uri: "at://did:plc:abc", cid }),
+    ]) {
+      const expected = outcome(() => run(atproto as unknown as typeof ours));
+      expect(expected).toEqual({ thrown: "LexiconDefNotFoundError", message: "Lexicon not found: lex:com.example.strongRef" });
+      expect(outcome(() => run(ours))).toEqual(expected);
+    }
+  });
+
+  it("adds, gets and removes lexicons like @atproto/lexicon", () => {
+    const both = createBoth();
+    for (const lexicons of [both.atproto, both.ours]) {
+      expect(() => lexicons.add(structuredClone(post) as never)).toThrow("lex:com.example.post has already been registered");
+      expect(lexicons.get("lex:com.example.post")?.id).toBe("com.example.post");
+      expect(lexicons.getDef("com.example.post#link")).toEqual(post.defs.link);
+      lexicons.remove("lex:com.example.post");
+      expect(lexicons.get("com.example.post")).toBeUndefined();
+      expect(() => lexicons.remove("com.example.post")).toThrow('Unable to remove "lex:com.example.post": does not exist');
+      expect([...lexicons].map((doc) => doc.id)).toEqual(["com.example.strongRef"]);
+    }
+  });
+
+  it("revalidates after lexicons change", () => {
+    const lexicons = new Lexicons([post, strongRef]);
+    expect(lexicons.validate("com.example.post", validPost).success).toBe(true);
+    lexicons.remove("com.example.post");
+    lexicons.add({ ...post, defs: { ...post.defs, main: { ...post.defs.main, record: { ...post.defs.main.record, required: ["tags"] } } } });
+    expect(outcome(() => lexicons.validate("com.example.post", validPost))).toMatchObject({
+      success: false,
+      message: 'Record must have the property "tags"',
+    });
+  });
+
+  it("accepts docs already registered with @atproto/lexicon", () => {
+    const { atproto } = createBoth();
+    const lexicons = new Lexicons([...atproto] as never);
+    expect(lexicons.getDef("com.example.post#link")).toEqual(post.defs.link);
+    expect(outcome(() => lexicons.validate("com.example.post", { ...validPost, subject: { uri: "at://did:plc:abc" } }))).toEqual(
+      outcome(() => atproto.validate("com.example.post", { ...validPost, subject: { uri: "at://did:plc:abc" } }))
+    );
+  });
+
+  it("resolves lexicon URIs", () => {
+    const { atproto, ours } = createBoth();
+    for (const uri of ["#link", "com.example.strongRef"]) {
+      expect(ours.resolveLexUri("lex:com.example.post", uri)).toBe(atproto.resolveLexUri("lex:com.example.post", uri));
+    }
+  });
+});
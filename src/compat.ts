@@ -0,0 +1,297 @@
+import { InvalidLexiconError, LexiconDefNotFoundError, ValidationError, type ValidationResult } from "@atproto/lexicon";
+import * as v from "valibot";
+import type { XrpcResult } from "./convert.js";
+import type { LexiconsMap } from "./infer.js";
+import { formatXrpcIssue, type XrpcPart } from "./issues.js";
+import { LexiconRegistry } from "./registry.js";
+import type { LexiconInput, LexiconToValibotOptions, LexUserType } from "./types.js";
+
+// A drop-in for the Lexicons class of @atproto/lexicon, validating with the valibot converters.
+// Errors are the error classes of @atproto/lexicon, with the messages it would report.
+// Published as the ./compat subpath rather than from the main entry.
+
+export { InvalidLexiconError, LexiconDefNotFoundError, ValidationError, type ValidationResult };
+
+type Node = Record<string, unknown>;
+
+// Root names @atproto/lexicon reports paths from
+const ROOTS: Record<XrpcPart, string> = {
+  parameters: "Params",
+  input: "Input",
+  output: "Output",
+  message: "Message",
+};
+
+function isPlainObject(value: unknown): value is Node {
+  if (typeof value !== "object" || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+// Split a lexicon URI (lex:nsid#defName, nsid#defName or nsid) into its NSID and def name
+function parseLexUri(uri: string): { nsid: string; def: string } {
+  const [nsid, def = "main", ...rest] = uri.replace(/^lex:/, "").split("#");
+  if (rest.length > 0) {
+    throw new Error("Uri can only have one hash segment");
+  }
+  return { nsid, def };
+}
+
+function toLexUri(uri: string): string {
+  return uri.startsWith("lex:") ? uri : `lex:${uri}`;
+}
+
+// @atproto/lexicon rewrites the refs of the docs it is given to `lex:` URIs - undo that on a copy
+function stripLexScheme(node: unknown): unknown {
+  if (Array.isArray(node)) {
+    return node.map(stripLexScheme);
+  }
+  if (isPlainObject(node)) {
+    const copy: Node = {};
+    for (const [key, value] of Object.entries(node)) {
+      copy[key] = key === "ref" && typeof value === "string"
+        ? value.replace(/^lex:/, "")
+        : key === "refs" && Array.isArray(value)
+          ? value.map((ref) => (typeof ref === "string" ? ref.replace(/^lex:/, "") : ref))
+          : stripLexScheme(value);
+    }
+    return copy;
+  }
+  return node;
+}
+
+// Valibot drops unknown keys, which @atproto/lexicon keeps: merge the parsed output, with its defaults, into the input
+function mergeOutput(input: unknown, output: unknown): unknown {
+  if (Array.isArray(input) && Array.isArray(output)) {
+    return output.map((item, index) => mergeOutput(input[index], item));
+  }
+  if (isPlainObject(input) && isPlainObject(output)) {
+    const merged: Node = { ...input };
+    for (const [key, value] of Object.entries(output)) {
+      merged[key] = mergeOutput(input[key], value);
+    }
+    return merged;
+  }
+  return output;
+}
+
+/**
+ * A collection of lexicons with the validation API of `Lexicons` from `@atproto/lexicon`.
+ * Values are validated in the SDK format, like `@atproto/lexicon` does.
+ */
+export class Lexicons implements Iterable<LexiconInput> {
+  private readonly docs = new Map<string, LexiconInput>();
+  private readonly options: Omit<LexiconToValibotOptions, 'format'>;
+  // Rebuilt when lexicons are added or removed, as the registry only grows
+  private registry: LexiconRegistry | undefined;
+  private readonly xrpcSchemas = new Map<string, Record<string, XrpcResult>>();
+
+  constructor(docs?: Iterable<LexiconInput>, options: Omit<LexiconToValibotOptions, 'format'> = {}) {
+    this.options = { ...options, unresolvedRefs: options.unresolvedRefs ?? 'error' };
+    for (const doc of docs ?? []) {
+      this.add(doc);
+    }
+  }
+
+  [Symbol.iterator](): Iterator<LexiconInput> {
+    return this.docs.values();
+  }
+
+  /** Add a lexicon doc. Unlike `@atproto/lexicon`, the doc is not mutated. */
+  add(doc: LexiconInput): void {
+    if (this.docs.has(doc.id)) {
+      throw new Error(`${toLexUri(doc.id)} has already been registered`);
+    }
+    this.docs.set(doc.id, stripLexScheme(doc) as LexiconInput);
+    this.reset();
+  }
+
+  /** Remove a lexicon doc. */
+  remove(uri: string): void {
+    const { nsid } = parseLexUri(uri);
+    if (!this.docs.delete(nsid)) {
+      throw new Error(`Unable to remove "${toLexUri(nsid)}": does not exist`);
+    }
+    this.reset();
+  }
+
+  /** Get a lexicon doc. */
+  get(uri: string): LexiconInput | undefined {
+    return this.docs.get(parseLexUri(uri).nsid);
+  }
+
+  /** Get a definition. */
+  getDef(uri: string): LexUserType | undefined {
+    const { nsid, def } = parseLexUri(uri);
+    return this.docs.get(nsid)?.defs[def] as LexUserType | undefined;
+  }
+
+  /** Get a definition, throwing if it is not found or not one of the given types. */
+  getDefOrThrow<T extends LexUserType["type"] = LexUserType["type"]>(
+    uri: string,
+    types?: readonly T[]
+  ): Extract<LexUserType, { type: T }> {
+    const def = this.getDef(uri);
+    if (!def) {
+      throw new LexiconDefNotFoundError(`Lexicon not found: ${toLexUri(uri)}`);
+    }
+    if (types && !types.includes(def.type as T)) {
+      throw new InvalidLexiconError(`Not a ${types.join(" or ")} lexicon: ${toLexUri(uri)}`);
+    }
+    return def as Extract<LexUserType, { type: T }>;
+  }
+
+  /** Validate a record or object. */
+  validate(lexUri: string, value: unknown): ValidationResult {
+    if (!isPlainObject(value)) {
+      throw new ValidationError("Value must be an object");
+    }
+    const def = this.getDefOrThrow(lexUri, ["record", "object"]);
+    const { nsid, def: defName } = parseLexUri(lexUri);
+    this.assertRefsFound(nsid, defName);
+    const schema = this.getRegistry().resolve(`${nsid}#${defName}`);
+    return this.check(schema, value, `${nsid}#${defName}`, def.type === "record" ? "Record" : "Object");
+  }
+
+  /** Validate a record and throw on any error. */
+  assertValidRecord(lexUri: string, value: unknown): unknown {
+    if (!isPlainObject(value)) {
+      throw new ValidationError("Record must be an object");
+    }
+    if (typeof value.$type !== "string") {
+      throw new ValidationError("Record/$type must be a string");
+    }
+    const { nsid, def } = parseLexUri(lexUri);
+    const expected = toLexUri(def === "main" ? nsid : `${nsid}#${def}`);
+    const $type = parseLexUri(value.$type);
+    if ($type.nsid !== nsid || $type.def !== def) {
+      throw new ValidationError(`Invalid $type: must be ${expected}, got ${value.$type}`);
+    }
+    this.getDefOrThrow(lexUri, ["record"]);
+    this.assertRefsFound(nsid, def);
+    return this.unwrap(this.check(this.getRegistry().resolve(`${nsid}#${def}`), value, `${nsid}#${def}`, "Record"));
+  }
+
+  /** Validate XRPC query params. */
+  validateXrpcParams(lexUri: string, value: unknown): ValidationResult<Record<string, unknown> | undefined> {
+    // Params are validated from an object, or from nothing
+    const params = typeof value === "object" && value !== null ? value : {};
+    return this.checkXrpc(lexUri, "parameters", ["query", "procedure", "subscription"], params) as ValidationResult<
+      Record<string, unknown> | undefined
+    >;
+  }
+
+  /** Validate an XRPC input body. */
+  validateXrpcInput(lexUri: string, value: unknown): ValidationResult {
+    return this.checkXrpc(lexUri, "input", ["procedure"], value);
+  }
+
+  /** Validate an XRPC output body. */
+  validateXrpcOutput(lexUri: string, value: unknown): ValidationResult {
+    return this.checkXrpc(lexUri, "output", ["query", "procedure"], value);
+  }
+
+  /** Validate an XRPC subscription message. */
+  validateXrpcMessage(lexUri: string, value: unknown): ValidationResult {
+    return this.checkXrpc(lexUri, "message", ["subscription"], value);
+  }
+
+  /** Validate XRPC query params and throw on any error. */
+  assertValidXrpcParams(lexUri: string, value: unknown): Record<string, unknown> | undefined {
+    return this.unwrap(this.validateXrpcParams(lexUri, value));
+  }
+
+  /** Validate an XRPC input body and throw on any error. */
+  assertValidXrpcInput(lexUri: string, value: unknown): unknown {
+    return this.unwrap(this.validateXrpcInput(lexUri, value));
+  }
+
+  /** Validate an XRPC output body and throw on any error. */
+  assertValidXrpcOutput(lexUri: string, value: unknown): unknown {
+    return this.unwrap(this.validateXrpcOutput(lexUri, value));
+  }
+
+  /** Validate an XRPC subscription message and throw on any error. */
+  assertValidXrpcMessage<T = unknown>(lexUri: string, value: unknown): T {
+    return this.unwrap(this.validateXrpcMessage(lexUri, value)) as T;
+  }
+
+  /** Resolve a ref against the lexicon URI it appears in. */
+  resolveLexUri(lexUri: string, ref: string): string {
+    const { nsid } = parseLexUri(lexUri);
+    return toLexUri(ref.startsWith("#") ? `${nsid}${ref}` : ref);
+  }
+
+  private reset(): void {
+    this.registry = undefined;
+    this.xrpcSchemas.clear();
+  }
+
+  private getRegistry(): LexiconRegistry {
+    if (this.registry === undefined) {
+      const registry = new LexiconRegistry({ ...this.options, format: "sdk" });
+      for (const doc of this.docs.values()) {
+        registry.add(doc);
+      }
+      this.registry = registry;
+    }
+    return this.registry;
+  }
+
+  // With the 'error' policy, a missing def is reported before validating, with the error
+  // @atproto/lexicon throws when validation reaches it
+  private assertRefsFound(nsid: string, defName: string): void {
+    if (this.options.unresolvedRefs !== 'error') return;
+    const [missing] = (this.getRegistry() as LexiconRegistry<LexiconsMap>).findUnresolvedRefs(nsid, defName);
+    if (missing !== undefined) {
+      throw new LexiconDefNotFoundError(`Lexicon not found: ${this.resolveLexUri(missing.lexiconId, missing.ref)}`);
+    }
+  }
+
+  private unwrap<V>(result: ValidationResult<V>): V {
+    if (!result.success) {
+      throw result.error;
+    }
+    return result.value;
+  }
+
+  // Parse the value, reporting the first issue like @atproto/lexicon does
+  private check(
+    schema: v.GenericSchema,
+    value: unknown,
+    ref: string,
+    root: string,
+    part?: XrpcPart
+  ): ValidationResult {
+    const result = v.safeParse(schema, value);
+    if (result.success) {
+      return { success: true, value: mergeOutput(value, result.output) };
+    }
+    const [issue] = this.getRegistry().describeIssues(ref, result.issues, part);
+    return { success: false, error: new ValidationError(formatXrpcIssue(issue, root, part)) };
+  }
+
+  // Parts without a schema are not validated, and have no value
+  private checkXrpc(
+    lexUri: string,
+    part: XrpcPart,
+    types: readonly LexUserType["type"][],
+    value: unknown
+  ): ValidationResult {
+    const def = this.getDefOrThrow(lexUri, types) as Node;
+    const body = def[part] as Node | undefined;
+    if (part === "parameters" ? body === undefined : body?.schema === undefined) {
+      return { success: true, value: undefined };
+    }
+
+    const { nsid, def: defName } = parseLexUri(lexUri);
+    this.assertRefsFound(nsid, defName);
+    let schemas = this.xrpcSchemas.get(nsid);
+    if (schemas === undefined) {
+      schemas = (this.getRegistry() as LexiconRegistry<LexiconsMap>).xrpcToValibot(nsid) as unknown as Record<string, XrpcResult>;
+      this.xrpcSchemas.set(nsid, schemas);
+    }
+    const schema = (schemas[defName] as Partial<Record<XrpcPart, v.GenericSchema>>)[part]!;
+    return this.check(schema, value, `${nsid}#${defName}`, ROOTS[part], part);
+  }
+}
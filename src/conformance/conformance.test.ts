@@ -0,0 +1,95 @@
+import { Lexicons, type ValidationError, type ValidationResult } from "@atproto/lexicon";
+import * as v from "valibot";
+import { describe, expect, it } from "vitest";
+import { LexiconRegistry } from "../index.js";
+import type { LexiconInput } from "../types.js";
+import { corpusLexicons, corpusValues } from "./corpus.js";
+import { generateEdgeCases } from "./edge-cases.js";
+
+// Differential conformance: every value is validated by the valibot converters and by
+// @atproto/lexicon, and the two must agree on whether it is valid.
+
+// Deliberate differences from @atproto/lexicon, matched against edge case labels
+const KNOWN_DIFFERENCES: [RegExp, string][] = [
+  [/\bblob: (unaccepted mimeType|above maxSize)$/, "blob accept and maxSize are checked here, @atproto/lexicon leaves them to upload"],
+  [/\bdatetime "2024-01-01T00:00:00"$/, "datetimes need a timezone here, as the atproto spec requires"],
+];
+
+// Options aligning the converters with @atproto/lexicon
+const options = { format: "sdk", untypedBlobs: "reject", unresolvedRefs: "error" } as const;
+
+const lexicons: ReadonlyMap<string, LexiconInput> = new Map(corpusLexicons.map((lexicon) => [lexicon.id, lexicon]));
+const registry = new LexiconRegistry(options).add(...corpusLexicons);
+// @atproto/lexicon rewrites the refs of the docs it is given
+const reference = new Lexicons(structuredClone(corpusLexicons) as never);
+
+function validateBoth(ref: string, value: unknown) {
+  const [nsid, def = "main"] = ref.split("#");
+  const ours = v.safeParse(registry.resolve(`${nsid}#${def}`), value);
+  let atproto: ValidationResult;
+  try {
+    atproto = reference.validate(ref, value);
+  } catch (error) {
+    // Non-objects are thrown at, rather than reported
+    atproto = { success: false, error: error as ValidationError };
+  }
+  return {
+    ours: ours.success,
+    atproto: atproto.success,
+    issue: ours.issues?.[0].message,
+    error: atproto.success ? undefined : atproto.error.message,
+  };
+}
+
+// Every def the edge cases are generated from
+const refs = corpusLexicons.flatMap((lexicon) =>
+  Object.entries(lexicon.defs)
+    .filter(([, def]) => def.type === "record" || def.type === "object")
+    .map(([name]) => (name === "main" ? lexicon.id : `${lexicon.id}#${name}`))
+);
+
+describe("conformance with @atproto/lexicon", () => {
+  describe.each(corpusValues)("$ref", ({ ref, valid, invalid }) => {
+    it.each(valid.map((value, index) => [index, value]))("accepts valid value %i", (_, value) => {
+      expect(validateBoth(ref, value)).toMatchObject({ ours: true, atproto: true });
+    });
+
+    it.each(invalid.map((value, index) => [index, value]))("rejects invalid value %i", (_, value) => {
+      expect(validateBoth(ref, value)).toMatchObject({ ours: false, atproto: false });
+    });
+  });
+
+  it.each(refs)("agrees on generated edge cases of %s", (ref) => {
+    const cases = generateEdgeCases(lexicons, ref);
+    const disagreements = cases
+      .map(({ label }, index) => ({ label, ...validateBoth(ref, cases[index].value) }))
+      .filter(({ label, ours, atproto }) => ours !== atproto && !KNOWN_DIFFERENCES.some(([pattern]) => pattern.test(label)));
+    expect(disagreements).toEqual([]);
+  });
+
+  it("generates edge cases on both sides of each constraint", () => {
+    const cases = generateEdgeCases(lexicons, "com.example.post");
+    const results = cases.map(({ label, value }) => [label, validateBoth("com.example.post", value).atproto]);
+    expect(results).toEqual(
+      expect.arrayContaining([
+        ["sample", true],
+        ["text: 30 ascii (30 graphemes)", true],
+        ["text: 31 ascii (31 graphemes)", false],
+        ["text: 30 zwj (30 graphemes)", false],
+        ["text: 16 zwj (288 bytes)", true],
+        ["text: 17 zwj (306 bytes)", false],
+        ["createdAt: required, missing", false],
+        ["reply: nullable, null", true],
+        ["embed: untyped member", false],
+        ["labels: unknown $type", false],
+      ])
+    );
+  });
+
+  it("covers the known differences", () => {
+    const labels = refs.flatMap((ref) => generateEdgeCases(lexicons, ref).map(({ label }) => label));
+    for (const [pattern] of KNOWN_DIFFERENCES) {
+      expect(labels.some((label) => pattern.test(label))).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,217 @@
+import { BlobRef } from "@atproto/lexicon";
+import { CID } from "multiformats/cid";
+import type { LexiconInput } from "../types.js";
+
+// Lexicons and values both validators are run on, covering every field type and constraint
+
+export interface CorpusEntry {
+  /** Record or object def, nsid#defName */
+  ref: string;
+  valid: unknown[];
+  invalid: unknown[];
+}
+
+const cid = CID.parse("bafyreie5737gdxlw5i64vzichcalba3z2v5n6icifvx5xytvske7mr3hpm");
+
+export const corpusLexicons = [
+  {
+    lexicon: 1,
+    id: "com.example.strongRef",
+    defs: {
+      main: {
+        type: "object",
+        required: ["uri", "cid"],
+        properties: {
+          uri: { type: "string", format: "at-uri" },
+          cid: { type: "string", format: "cid" },
+        },
+      },
+    },
+  },
+  {
+    lexicon: 1,
+    id: "com.example.post",
+    defs: {
+      main: {
+        type: "record",
+        key: "tid",
+        record: {
+          type: "object",
+          required: ["text", "createdAt"],
+          nullable: ["reply"],
+          properties: {
+            text: { type: "string", maxLength: 300, maxGraphemes: 30 },
+            createdAt: { type: "string", format: "datetime" },
+            langs: { type: "array", items: { type: "string", format: "language" }, maxLength: 3 },
+            tags: { type: "array", items: { type: "string", minLength: 1, maxLength: 64, maxGraphemes: 8 }, minLength: 1, maxLength: 8 },
+            reply: { type: "ref", ref: "#replyRef" },
+            embed: { type: "union", refs: ["#images", "#external", "com.example.strongRef"] },
+            labels: { type: "union", refs: ["#selfLabels"], closed: true },
+          },
+        },
+      },
+      replyRef: {
+        type: "object",
+        required: ["root", "parent"],
+        properties: {
+          root: { type: "ref", ref: "com.example.strongRef" },
+          parent: { type: "ref", ref: "com.example.strongRef" },
+        },
+      },
+      images: {
+        type: "object",
+        required: ["images"],
+        properties: {
+          images: { type: "array", items: { type: "ref", ref: "#image" }, maxLength: 4 },
+        },
+      },
+      image: {
+        type: "object",
+        required: ["image", "alt"],
+        properties: {
+          image: { type: "blob", accept: ["image/*"], maxSize: 1000000 },
+          alt: { type: "string" },
+        },
+      },
+      external: {
+        type: "object",
+        required: ["uri", "title"],
+        properties: {
+          uri: { type: "string", format: "uri" },
+          title: { type: "string", minGraphemes: 1, maxGraphemes: 4 },
+          thumb: { type: "blob" },
+        },
+      },
+      selfLabels: {
+        type: "object",
+        required: ["values"],
+        properties: {
+          values: { type: "array", items: { type: "string", knownValues: ["nudity", "spam"] }, maxLength: 2 },
+        },
+      },
+    },
+  },
+  {
+    lexicon: 1,
+    id: "com.example.settings",
+    defs: {
+      main: {
+        type: "record",
+        key: "literal:self",
+        record: {
+          type: "object",
+          required: ["theme", "fontSize"],
+          nullable: ["avatar", "pinned"],
+          properties: {
+            theme: { type: "string", enum: ["light", "dark"] },
+            accent: { type: "string", const: "blue" },
+            fontSize: { type: "integer", minimum: 8, maximum: 32, default: 14 },
+            density: { type: "integer", enum: [1, 2, 3] },
+            version: { type: "integer", const: 2 },
+            beta: { type: "boolean", default: false },
+            locked: { type: "boolean", const: false },
+            signature: { type: "bytes", minLength: 2, maxLength: 4 },
+            checksum: { type: "bytes" },
+            head: { type: "cid-link" },
+            avatar: { type: "blob", accept: ["image/png", "image/jpeg"], maxSize: 5000 },
+            pinned: { type: "ref", ref: "com.example.strongRef" },
+            handle: { type: "string", format: "handle" },
+            did: { type: "string", format: "did" },
+            actor: { type: "string", format: "at-identifier" },
+            collection: { type: "string", format: "nsid" },
+            rev: { type: "string", format: "tid" },
+            rkey: { type: "string", format: "record-key" },
+            extra: { type: "unknown" },
+            nickname: { type: "string", minLength: 3, minGraphemes: 2, default: "anon" },
+            status: { type: "string", knownValues: ["com.example.settings#active", "idle"] },
+          },
+        },
+      },
+      active: { type: "token" },
+    },
+  },
+] as const satisfies readonly LexiconInput[];
+
+const strongRef = { uri: "at://did:plc:abcdefghijklmnop/com.example.post/3jzfcijpj2z2a", cid: cid.toString() };
+const post = { $type: "com.example.post", text: "hello", createdAt: "2024-01-01T00:00:00.000Z" };
+const settings = { $type: "com.example.settings", theme: "dark", fontSize: 12 };
+
+export const corpusValues: CorpusEntry[] = [
+  {
+    ref: "com.example.post",
+    valid: [
+      post,
+      { ...post, $type: undefined },
+      { ...post, text: "👨‍👩‍👧".repeat(16) },
+      { ...post, langs: ["en", "pt-BR"], tags: ["a", "ß"] },
+      { ...post, reply: null },
+      { ...post, reply: { root: strongRef, parent: strongRef } },
+      { ...post, embed: { $type: "com.example.post#images", images: [{ image: new BlobRef(cid, "image/png", 100), alt: "" }] } },
+      { ...post, embed: { $type: "com.example.post#external", uri: "https://example.com", title: "hi" } },
+      { ...post, embed: { $type: "com.example.strongRef", ...strongRef } },
+      { ...post, embed: { $type: "com.example.other", anything: true } },
+      { ...post, labels: { $type: "com.example.post#selfLabels", values: ["spam", "other"] } },
+      { ...post, unknownField: [1, 2, 3] },
+    ],
+    invalid: [
+      { ...post, text: "a".repeat(301) },
+      { ...post, text: "é".repeat(151) },
+      { ...post, text: "a".repeat(31) },
+      { ...post, createdAt: "2024-01-01" },
+      { ...post, tags: [] },
+      { ...post, tags: [""] },
+      { ...post, langs: ["en", "nl", "de", "fr"] },
+      { ...post, reply: { root: strongRef } },
+      { ...post, reply: { root: strongRef, parent: { ...strongRef, cid: "nope" } } },
+      { ...post, embed: { uri: "https://example.com", title: "hi" } },
+      { ...post, embed: { $type: "com.example.post#external", uri: "https://example.com", title: "hello" } },
+      { ...post, embed: { $type: "com.example.post#images", images: [{ image: { cid: cid.toString(), mimeType: "image/png" }, alt: "" }] } },
+      { ...post, labels: { $type: "com.example.other", values: [] } },
+      { $type: "com.example.post", text: "hello" },
+      "hello",
+    ],
+  },
+  {
+    ref: "com.example.post#image",
+    valid: [{ image: new BlobRef(cid, "image/png", 100), alt: "a cat" }],
+    invalid: [{ image: new BlobRef(cid, "image/png", 100).ipld(), alt: "a cat" }, { alt: "a cat" }],
+  },
+  {
+    ref: "com.example.settings",
+    valid: [
+      settings,
+      { ...settings, accent: "blue", density: 2, version: 2, beta: true, locked: false },
+      { ...settings, signature: new Uint8Array([1, 2, 3]), checksum: new Uint8Array(), head: cid },
+      { ...settings, avatar: null, pinned: null },
+      { ...settings, avatar: new BlobRef(cid, "image/png", 100), pinned: strongRef },
+      { ...settings, handle: "alice.example.com", did: "did:web:example.com", actor: "did:plc:abc", collection: "app.bsky.feed.post" },
+      { ...settings, rev: "3jzfcijpj2z2a", rkey: "self", extra: { anything: [1] } },
+      { ...settings, nickname: "abc", status: "com.example.settings#active" },
+      { ...settings, status: "sleeping" },
+    ],
+    invalid: [
+      { ...settings, theme: "blue" },
+      { ...settings, accent: "red" },
+      { ...settings, fontSize: 7 },
+      { ...settings, fontSize: 33 },
+      { ...settings, fontSize: 12.5 },
+      { ...settings, density: 4 },
+      { ...settings, version: 3 },
+      { ...settings, beta: "true" },
+      { ...settings, locked: true },
+      { ...settings, signature: new Uint8Array([1]) },
+      { ...settings, signature: new Uint8Array(5) },
+      { ...settings, checksum: { $bytes: "AQID" } },
+      { ...settings, head: { $link: cid.toString() } },
+      { ...settings, avatar: cid.toString() },
+      { ...settings, pinned: { uri: "nope", cid: cid.toString() } },
+      { ...settings, handle: "alice" },
+      { ...settings, did: "alice" },
+      { ...settings, collection: "app" },
+      { ...settings, rev: "3jzfcijpj2z2" },
+      { ...settings, rkey: ".." },
+      { ...settings, nickname: "ab" },
+      { $type: "com.example.settings", fontSize: 12 },
+    ],
+  },
+];
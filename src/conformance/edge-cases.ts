@@ -0,0 +1,461 @@
+import { BlobRef } from "@atproto/lexicon";
+import { CID } from "multiformats/cid";
+import type {
+  LexArray,
+  LexBlob,
+  LexBytes,
+  LexiconInput,
+  LexInteger,
+  LexObject,
+  LexRef,
+  LexRefUnion,
+  LexString,
+  LexUserType,
+} from "../types.js";
+
+// Edge-case values for the defs of a lexicon corpus, in the SDK format @atproto/lexicon validates.
+// Values are not labelled valid or invalid: the reference validator decides.
+
+export interface EdgeCase {
+  /** Where the value deviates from a plain valid value, e.g. text: 301 bytes */
+  label: string;
+  value: unknown;
+}
+
+type FieldDef = LexUserType | LexRef | LexRefUnion;
+
+const CID_STRING = "bafyreie5737gdxlw5i64vzichcalba3z2v5n6icifvx5xytvske7mr3hpm";
+const cid = CID.parse(CID_STRING);
+
+// Valid and invalid values for each string format, valid first
+const FORMAT_SAMPLES: Record<string, string[]> = {
+  "datetime": [
+    "2024-01-01T00:00:00.000Z",
+    "2024-01-01T00:00:00Z",
+    "2024-01-01T00:00:00+01:00",
+    "2024-01-01T00:00:00.123456789Z",
+    "2024-01-01T00:00:00",
+    "2024-01-01T00:00:00-00:00",
+    "2024-02-30T00:00:00Z",
+    "2024-01-01",
+    "yesterday",
+  ],
+  "uri": ["https://example.com/path?q=1", "at://did:plc:abc/app.bsky.feed.post/3k", "mailto:me@example.com", "example.com", "https://", "not a uri"],
+  "at-uri": [
+    "at://did:plc:abcdefghijklmnop/app.bsky.feed.post/3k2a",
+    "at://alice.example.com",
+    "at://did:plc:abc/app.bsky.feed.post",
+    "at://alice.example.com/app.bsky.feed.post/3k2a/extra",
+    "at://did:plc:abc#fragment",
+    "https://example.com",
+    "at://",
+  ],
+  "did": ["did:plc:abcdefghijklmnop", "did:web:example.com", "did:method:val:two", "did:PLC:abc", "did:plc:", "did:plc:abc#frag", "not a did"],
+  "handle": ["alice.example.com", "xn--ls8h.test", "a.b", "alice", "-alice.example.com", "alice.example.123", "alice.example.com."],
+  "at-identifier": ["alice.example.com", "did:plc:abcdefghijklmnop", "alice", "did:plc:"],
+  "nsid": ["app.bsky.feed.post", "com.example.fooBar", "com.example.foo-bar", "com.example", "com.example.3foo", "com..example.foo"],
+  "cid": [CID_STRING, "bafkqaaa", "Qmabc", "not a cid"],
+  "language": ["en", "pt-BR", "zh-Hant-TW", "i-klingon", "x-private", "e", "en_US", "123"],
+  "tid": ["3jzfcijpj2z2a", "7777777777777", "3jzfcijpj2z2aa", "3jzfcijpj2z2", "zzzzzzzzzzzzz", "3JZFCIJPJ2Z2A"],
+  "record-key": ["self", "3jzfcijpj2z2a", "a:b-c_d~e.f", ".", "..", "with space", "a".repeat(513), "a/b"],
+};
+
+// Units to build strings from: plain, multi-byte, combining, ZWJ sequence, flag
+const STRING_UNITS: [string, string][] = [
+  ["ascii", "a"],
+  ["2-byte", "\u00e9"],
+  ["combining", "e\u0301"],
+  ["emoji", "\u{1F642}"],
+  ["zwj", "\u{1F468}\u200D\u{1F469}\u200D\u{1F467}"],
+  ["flag", "\u{1F1F3}\u{1F1F1}"],
+];
+
+const utf8Length = (value: string) => new TextEncoder().encode(value).length;
+
+export interface EdgeCaseOptions {
+  /** How deep to vary nested values. Default: 2 */
+  depth?: number;
+}
+
+/**
+ * Edge-case values for a record or object def: a plain value, and variants of it that each
+ * sit on or just past one constraint of one field.
+ */
+export function generateEdgeCases(
+  lexicons: ReadonlyMap<string, LexiconInput>,
+  ref: string,
+  options: EdgeCaseOptions = {}
+): EdgeCase[] {
+  const [nsid, defName = "main"] = ref.split("#");
+  const def = resolveDef(lexicons, nsid, `#${defName}`);
+  if (def === undefined || (def.type !== "record" && def.type !== "object")) {
+    throw new Error(`Not a record or object def: ${ref}`);
+  }
+
+  const generator = new Generator(lexicons, options.depth ?? 2);
+  if (def.type === "record") {
+    const $type = defName === "main" ? nsid : `${nsid}#${defName}`;
+    return generator
+      .objectCases(def.record, nsid, 0)
+      .map(({ label, value }) => ({ label, value: isObject(value) ? { $type, ...value } : value }));
+  }
+  return generator.objectCases(def, nsid, 0);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Uint8Array);
+}
+
+// Resolve a (possibly local) ref to its def
+function resolveDef(lexicons: ReadonlyMap<string, LexiconInput>, lexiconId: string, ref: string): LexUserType | undefined {
+  const [nsid, defName = "main"] = ref.startsWith("#") ? [lexiconId, ref.slice(1)] : ref.split("#");
+  return lexicons.get(nsid)?.defs[defName] as LexUserType | undefined;
+}
+
+function fullRef(lexiconId: string, ref: string): string {
+  return ref.startsWith("#") ? `${lexiconId}${ref}` : ref;
+}
+
+class Generator {
+  constructor(
+    private readonly lexicons: ReadonlyMap<string, LexiconInput>,
+    private readonly maxDepth: number
+  ) {}
+
+  /** A value meant to satisfy the def. */
+  sample(def: FieldDef, lexiconId: string, seen = new Set<string>()): unknown {
+    switch (def.type) {
+      case "boolean":
+        return def.const ?? def.default ?? true;
+      case "integer":
+        return this.sampleInteger(def);
+      case "string":
+        return this.sampleString(def);
+      case "bytes":
+        return new Uint8Array(def.minLength ?? 0);
+      case "cid-link":
+        return cid;
+      case "blob":
+        return this.blob(def);
+      case "unknown":
+        return {};
+      case "array":
+        return Array.from({ length: def.minLength ?? 0 }, () => this.sample(def.items as FieldDef, lexiconId, seen));
+      case "object":
+        return this.sampleObject(def, lexiconId, seen);
+      case "ref": {
+        const ref = fullRef(lexiconId, def.ref);
+        const target = resolveDef(this.lexicons, lexiconId, def.ref);
+        // Stop at recursive refs - the value is only as valid as the reference validator decides
+        if (target === undefined || seen.has(ref)) return {};
+        return this.sample(target as FieldDef, ref.split("#")[0], new Set([...seen, ref]));
+      }
+      case "union": {
+        const [first] = def.refs;
+        if (first === undefined) return {};
+        return this.unionMember(first, lexiconId, seen);
+      }
+      default:
+        return {};
+    }
+  }
+
+  /** Edge cases of an object def: a sample, then variants of each of its properties. */
+  objectCases(def: LexObject, lexiconId: string, depth: number): EdgeCase[] {
+    const base = this.sampleObject(def, lexiconId, new Set());
+    const cases: EdgeCase[] = [
+      { label: "sample", value: base },
+      { label: "not an object", value: "text" },
+      { label: "array", value: [base] },
+      { label: "null", value: null },
+    ];
+    const required = new Set(def.required ?? []);
+    const nullable = new Set(def.nullable ?? []);
+
+    for (const [key, property] of Object.entries(def.properties ?? {})) {
+      const without = { ...base };
+      delete without[key];
+      const requirement = required.has(key) ? ((property as { default?: unknown }).default === undefined ? "required, " : "required with default, ") : "";
+      cases.push({ label: `${key}: ${requirement}missing`, value: without });
+      if ((property as FieldDef).type !== "unknown") {
+        cases.push({ label: `${key}: ${nullable.has(key) ? "nullable, " : ""}null`, value: { ...base, [key]: null } });
+      }
+      if (!required.has(key)) {
+        cases.push({ label: `${key}: optional, present`, value: { ...base, [key]: this.sample(property as FieldDef, lexiconId) } });
+      }
+      for (const variant of this.fieldCases(property as FieldDef, lexiconId, depth)) {
+        cases.push({ label: `${key}${variant.label.startsWith("/") ? "" : ": "}${variant.label}`, value: { ...base, [key]: variant.value } });
+      }
+    }
+    return cases;
+  }
+
+  /** Edge cases of a single field. */
+  fieldCases(def: FieldDef, lexiconId: string, depth: number): EdgeCase[] {
+    switch (def.type) {
+      case "boolean":
+        return [
+          { label: "true", value: true },
+          { label: "false", value: false },
+          { label: "string", value: "true" },
+          { label: "number", value: 1 },
+        ];
+      case "integer":
+        return this.integerCases(def);
+      case "string":
+        return this.stringCases(def);
+      case "bytes":
+        return this.bytesCases(def);
+      case "cid-link":
+        return [
+          { label: "CID", value: cid },
+          { label: "CID string", value: CID_STRING },
+          { label: "wire CID", value: { $link: CID_STRING } },
+        ];
+      case "blob":
+        return this.blobCases(def);
+      case "unknown":
+        return [
+          { label: "object", value: { any: "thing" } },
+          { label: "typed object", value: { $type: "com.example.unknown", value: 1 } },
+          { label: "empty object", value: {} },
+          { label: "non-object unknown: string", value: "text" },
+          { label: "non-object unknown: number", value: 1 },
+          { label: "non-object unknown: null", value: null },
+          { label: "array", value: [1] },
+        ];
+      case "array":
+        return this.arrayCases(def, lexiconId, depth);
+      case "object":
+        return this.nestedCases(this.objectCases(def, lexiconId, depth + 1), depth);
+      case "ref": {
+        const target = resolveDef(this.lexicons, lexiconId, def.ref);
+        if (target === undefined) return [];
+        const targetLexicon = fullRef(lexiconId, def.ref).split("#")[0];
+        return this.nestedCases(
+          target.type === "object"
+            ? this.objectCases(target, targetLexicon, depth + 1)
+            : this.fieldCases(target as FieldDef, targetLexicon, depth + 1),
+          depth
+        );
+      }
+      case "union":
+        return this.unionCases(def, lexiconId, depth);
+      default:
+        return [];
+    }
+  }
+
+  // Nested variants are prefixed with a path separator, and cut off past the maximum depth
+  private nestedCases(cases: EdgeCase[], depth: number): EdgeCase[] {
+    if (depth >= this.maxDepth) {
+      return cases.filter(({ label }) => label === "sample" || label === "not an object");
+    }
+    return cases.map(({ label, value }) => ({ label: label === "sample" || label === "not an object" ? label : `/${label}`, value }));
+  }
+
+  private sampleObject(def: LexObject, lexiconId: string, seen: Set<string>): Record<string, unknown> {
+    const value: Record<string, unknown> = {};
+    for (const key of def.required ?? []) {
+      const property = def.properties?.[key];
+      if (property !== undefined) {
+        value[key] = this.sample(property as FieldDef, lexiconId, seen);
+      }
+    }
+    return value;
+  }
+
+  private sampleInteger(def: LexInteger): number {
+    if (def.const !== undefined) return def.const;
+    if (def.enum !== undefined && def.enum.length > 0) return def.enum[0];
+    return Math.min(Math.max(def.default ?? 0, def.minimum ?? -Infinity), def.maximum ?? Infinity);
+  }
+
+  private sampleString(def: LexString): string {
+    if (def.const !== undefined) return def.const;
+    if (def.enum !== undefined && def.enum.length > 0) return def.enum[0];
+    if (def.format !== undefined) return FORMAT_SAMPLES[def.format]?.[0] ?? "";
+    const length = Math.max(def.minLength ?? 0, def.minGraphemes ?? 0, def.default === undefined ? 0 : 1);
+    return def.default ?? "a".repeat(length);
+  }
+
+  private blob(def: LexBlob, mimeType = this.acceptedMimeType(def), size = Math.min(def.maxSize ?? 1000, 1000)): BlobRef {
+    return new BlobRef(cid, mimeType, size);
+  }
+
+  private acceptedMimeType(def: LexBlob): string {
+    const [accept = "*/*"] = def.accept ?? [];
+    return accept.replace("*/*", "application/octet-stream").replace("/*", "/png");
+  }
+
+  private unionMember(ref: string, lexiconId: string, seen: Set<string>): unknown {
+    const target = resolveDef(this.lexicons, lexiconId, ref);
+    const value = target === undefined ? {} : this.sample(target as FieldDef, lexiconId, seen);
+    return { $type: fullRef(lexiconId, ref), ...(isObject(value) ? value : {}) };
+  }
+
+  private integerCases(def: LexInteger): EdgeCase[] {
+    const cases: EdgeCase[] = [
+      { label: "float", value: 1.5 },
+      { label: "numeric string", value: "1" },
+      { label: "NaN", value: Number.NaN },
+      { label: "unsafe integer", value: Number.MAX_SAFE_INTEGER + 2 },
+    ];
+    if (def.minimum !== undefined) {
+      cases.push({ label: "minimum", value: def.minimum }, { label: "below minimum", value: def.minimum - 1 });
+    }
+    if (def.maximum !== undefined) {
+      cases.push({ label: "maximum", value: def.maximum }, { label: "above maximum", value: def.maximum + 1 });
+    }
+    for (const value of def.enum ?? []) {
+      cases.push({ label: `enum ${value}`, value });
+    }
+    if (def.enum !== undefined) {
+      cases.push({ label: "outside enum", value: Math.max(...def.enum) + 1 });
+    }
+    if (def.const !== undefined) {
+      cases.push({ label: "const", value: def.const }, { label: "not const", value: def.const + 1 });
+    }
+    return cases;
+  }
+
+  private stringCases(def: LexString): EdgeCase[] {
+    const cases: EdgeCase[] = [
+      { label: "number", value: 1 },
+      { label: "empty", value: "" },
+    ];
+
+    // Strings of each unit sitting on and just past each length limit
+    const limits: [string, number | undefined, (unit: string, limit: number) => number[]][] = [
+      ["bytes", def.maxLength, (unit, limit) => [Math.floor(limit / utf8Length(unit)), Math.floor(limit / utf8Length(unit)) + 1]],
+      ["bytes", def.minLength, (unit, limit) => [Math.ceil(limit / utf8Length(unit)) - 1, Math.ceil(limit / utf8Length(unit))]],
+      ["graphemes", def.maxGraphemes, (_, limit) => [limit, limit + 1]],
+      ["graphemes", def.minGraphemes, (_, limit) => [limit - 1, limit]],
+    ];
+    for (const [measure, limit, counts] of limits) {
+      if (limit === undefined) continue;
+      for (const [name, unit] of STRING_UNITS) {
+        for (const count of counts(unit, limit)) {
+          if (count < 0) continue;
+          const value = unit.repeat(count);
+          const size = measure === "bytes" ? utf8Length(value) : count;
+          cases.push({ label: `${count} ${name} (${size} ${measure})`, value });
+        }
+      }
+    }
+
+    for (const value of def.enum ?? []) {
+      cases.push({ label: `enum ${value}`, value });
+    }
+    if (def.enum !== undefined) {
+      cases.push({ label: "outside enum", value: "not-in-enum" });
+    }
+    if (def.const !== undefined) {
+      cases.push({ label: "const", value: def.const }, { label: "not const", value: `${def.const}x` });
+    }
+    for (const value of def.knownValues ?? []) {
+      cases.push({ label: `known value ${value}`, value });
+    }
+    if (def.knownValues !== undefined) {
+      cases.push({ label: "unknown value", value: "not-a-known-value" });
+    }
+    if (def.format !== undefined) {
+      for (const value of FORMAT_SAMPLES[def.format] ?? []) {
+        cases.push({ label: `${def.format} ${JSON.stringify(value).slice(0, 40)}`, value });
+      }
+    }
+    return cases;
+  }
+
+  private bytesCases(def: LexBytes): EdgeCase[] {
+    const cases: EdgeCase[] = [
+      { label: "empty", value: new Uint8Array() },
+      { label: "wire bytes", value: { $bytes: "AQID" } },
+      { label: "number array", value: [1, 2, 3] },
+      { label: "buffer", value: new Uint8Array([1, 2, 3]).buffer },
+    ];
+    if (def.minLength !== undefined) {
+      cases.push({ label: `${def.minLength - 1} bytes`, value: new Uint8Array(Math.max(def.minLength - 1, 0)) });
+      cases.push({ label: `${def.minLength} bytes`, value: new Uint8Array(def.minLength) });
+    }
+    if (def.maxLength !== undefined) {
+      cases.push({ label: `${def.maxLength} bytes`, value: new Uint8Array(def.maxLength) });
+      cases.push({ label: `${def.maxLength + 1} bytes`, value: new Uint8Array(def.maxLength + 1) });
+    }
+    return cases;
+  }
+
+  private blobCases(def: LexBlob): EdgeCase[] {
+    const cases: EdgeCase[] = [
+      { label: "BlobRef", value: this.blob(def) },
+      { label: "wire blob", value: this.blob(def).ipld() },
+      { label: "untyped blob", value: { cid: CID_STRING, mimeType: this.acceptedMimeType(def) } },
+      { label: "string", value: CID_STRING },
+    ];
+    if (def.accept !== undefined) {
+      cases.push({ label: "blob: unaccepted mimeType", value: this.blob(def, "application/x-unaccepted") });
+    }
+    if (def.maxSize !== undefined) {
+      cases.push({ label: "blob: maxSize", value: this.blob(def, undefined, def.maxSize) });
+      cases.push({ label: "blob: above maxSize", value: this.blob(def, undefined, def.maxSize + 1) });
+    }
+    return cases;
+  }
+
+  private arrayCases(def: LexArray, lexiconId: string, depth: number): EdgeCase[] {
+    const items = def.items as FieldDef;
+    const item = this.sample(items, lexiconId);
+    const repeat = (length: number) => Array.from({ length }, () => item);
+    const cases: EdgeCase[] = [
+      { label: "empty", value: [] },
+      { label: "not an array", value: item },
+      { label: "null item", value: [null] },
+    ];
+    if (def.minLength !== undefined) {
+      cases.push({ label: `${def.minLength - 1} items`, value: repeat(Math.max(def.minLength - 1, 0)) });
+      cases.push({ label: `${def.minLength} items`, value: repeat(def.minLength) });
+    }
+    if (def.maxLength !== undefined) {
+      cases.push({ label: `${def.maxLength} items`, value: repeat(def.maxLength) });
+      cases.push({ label: `${def.maxLength + 1} items`, value: repeat(def.maxLength + 1) });
+    }
+    // Vary a single item, keeping the array at its minimum length
+    const length = Math.max(def.minLength ?? 1, 1);
+    for (const variant of this.fieldCases(items, lexiconId, depth + 1)) {
+      cases.push({ label: `/0${variant.label.startsWith("/") ? "" : ": "}${variant.label}`, value: [variant.value, ...repeat(length - 1)] });
+    }
+    return cases;
+  }
+
+  private unionCases(def: LexRefUnion, lexiconId: string, depth: number): EdgeCase[] {
+    const [first] = def.refs;
+    const member = first === undefined ? {} : (this.unionMember(first, lexiconId, new Set()) as Record<string, unknown>);
+    const { $type: _, ...untyped } = member;
+    const cases: EdgeCase[] = [
+      { label: "untyped member", value: untyped },
+      { label: "unknown $type", value: { ...untyped, $type: "com.example.unknown#thing" } },
+      { label: "non-string $type", value: { ...untyped, $type: 1 } },
+      { label: "not an object", value: "text" },
+    ];
+    for (const ref of def.refs) {
+      const $type = fullRef(lexiconId, ref);
+      cases.push({ label: `member ${$type}`, value: this.unionMember(ref, lexiconId, new Set()) });
+      // A main def may be typed as nsid or nsid#main
+      if ($type.endsWith("#main")) {
+        cases.push({ label: `member ${$type} without #main`, value: { ...(this.unionMember(ref, lexiconId, new Set()) as object), $type: $type.slice(0, -5) } });
+      } else if (!$type.includes("#")) {
+        cases.push({ label: `member ${$type}#main`, value: { ...(this.unionMember(ref, lexiconId, new Set()) as object), $type: `${$type}#main` } });
+      }
+
+      const target = resolveDef(this.lexicons, lexiconId, ref);
+      if (target?.type === "object" && depth < this.maxDepth) {
+        const targetLexicon = $type.split("#")[0];
+        for (const variant of this.objectCases(target, targetLexicon, depth + 1)) {
+          if (!isObject(variant.value) || variant.label === "sample") continue;
+          cases.push({ label: `/${$type}/${variant.label}`, value: { $type, ...variant.value } });
+        }
+      }
+    }
+    return cases;
+  }
+}
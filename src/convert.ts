@@ -0,0 +1,436 @@
+import * as v from "valibot";
+import { convertBlob, convertCidLink, convertRecordKey, convertToken } from "./converters/atproto.js";
+import { convertArray, convertObject, convertRef, convertUnion } from "./converters/complex.js";
+import {
+  convertBoolean,
+  convertBytes,
+  convertInteger,
+  convertString,
+  convertUnknown,
+} from "./converters/primitives.js";
+import { withTransform } from "./converters/transforms.js";
+import {
+  convertProcedure,
+  convertQuery,
+  convertSubscription,
+  type ProcedureValidators,
+  type QueryValidators,
+  type SubscriptionValidators,
+} from "./converters/xrpc.js";
+import type {
+  BlobFormat,
+  ConverterContext,
+  KnownValuesPolicy,
+  LexArray,
+  LexBlob,
+  LexBoolean,
+  LexBytes,
+  LexCidLink,
+  LexiconInput,
+  LexiconToValibotOptions,
+  LexInteger,
+  LexObject,
+  LexRecord,
+  LexRef,
+  LexRefUnion,
+  LexString,
+  LexToken,
+  LexUnknown,
+  LexXrpcProcedure,
+  LexXrpcQuery,
+  LexXrpcSubscription,
+  UnresolvedRef,
+  UnresolvedRefPolicy,
+  UntypedBlobPolicy,
+  WireTransforms
+} from "./types.js";
+import { assertValidLexicon } from "./validate-lexicon.js";
+
+export type XrpcResult = QueryValidators | ProcedureValidators | SubscriptionValidators;
+
+// State shared by all ref resolvers of a conversion
+export interface ConversionScope {
+  /** Lexicons refs can resolve into, by NSID */
+  lexicons: ReadonlyMap<string, LexiconInput>;
+  /** Converted defs, by fully-qualified ref (nsid#defName) */
+  cache: Map<string, v.GenericSchema>;
+  /** Unresolved refs already warned about - their fallback is not cached, as a lexicon may be added later */
+  warnedRefs: Set<string>;
+  /** External ref schemas (e.g., com.atproto.repo.strongRef) */
+  externalRefs: Record<string, v.GenericSchema>;
+  blobFormat: BlobFormat;
+  unresolvedRefs: UnresolvedRefPolicy;
+  untypedBlobs: UntypedBlobPolicy;
+  knownValues: KnownValuesPolicy;
+  transform?: WireTransforms;
+}
+
+// A transform fixes the input format: SDK values to wire, or wire values to SDK
+export function createScope(
+  lexicons: ReadonlyMap<string, LexiconInput>,
+  options: LexiconToValibotOptions,
+  transform?: WireTransforms
+): ConversionScope {
+  return {
+    lexicons,
+    cache: new Map(),
+    warnedRefs: new Set(),
+    externalRefs: options.externalRefs ?? {},
+    blobFormat: transform?.direction === 'toWire' ? 'sdk' : transform?.direction === 'fromWire' ? 'wire' : options.format ?? 'sdk',
+    unresolvedRefs: options.unresolvedRefs ?? 'warn',
+    untypedBlobs: options.untypedBlobs ?? 'allow',
+    knownValues: options.knownValues ?? 'open',
+    transform,
+  };
+}
+
+export function convertType(schema: unknown, ctx: ConverterContext): v.GenericSchema {
+  if (typeof schema !== "object" || schema === null) {
+    throw new Error(`Invalid schema: expected object, got ${typeof schema}`);
+  }
+
+  const schemaObj = schema as { type?: string };
+
+  switch (schemaObj.type) {
+    // Primitives
+    case "boolean":
+      return convertBoolean(schema as LexBoolean);
+    case "integer":
+      return convertInteger(schema as LexInteger);
+    case "string":
+      return convertString(schema as LexString, ctx);
+    case "unknown":
+      return convertUnknown(schema as LexUnknown);
+
+    // IPLD types
+    case "bytes":
+      return withTransform(convertBytes(schema as LexBytes, ctx.blobFormat), "bytes", ctx.transform);
+    case "cid-link":
+      return withTransform(convertCidLink(schema as LexCidLink, ctx.blobFormat), "cid-link", ctx.transform);
+
+    // AT Protocol types
+    case "blob":
+      return withTransform(convertBlob(schema as LexBlob, ctx.blobFormat, ctx.untypedBlobs), "blob", ctx.transform);
+    case "token":
+      if (ctx.defName === undefined) {
+        throw new Error(`Token must be a top-level def in ${ctx.lexiconId}`);
+      }
+      return convertToken(schema as LexToken, `${ctx.lexiconId}#${ctx.defName}`);
+
+    // Complex types
+    case "array":
+      return convertArray(schema as LexArray, ctx, convertType);
+    case "object":
+      return convertObject(schema as LexObject, ctx, convertType);
+    case "ref":
+      return convertRef(schema as LexRef, ctx);
+    case "union":
+      return convertUnion(schema as LexRefUnion, ctx);
+
+    // Record type
+    case "record":
+      return convertObject((schema as LexRecord).record, ctx, convertType);
+
+    default:
+      throw new Error(`Unknown schema type: ${schemaObj.type}`);
+  }
+}
+
+// Convert XRPC def - returns validators object
+function convertXrpcDef(schema: unknown, ctx: ConverterContext): XrpcResult {
+  if (typeof schema !== "object" || schema === null) {
+    throw new Error(`Invalid schema: expected object, got ${typeof schema}`);
+  }
+
+  const schemaObj = schema as { type?: string };
+
+  switch (schemaObj.type) {
+    case "query":
+      return convertQuery(schema as LexXrpcQuery, ctx, convertType);
+    case "procedure":
+      return convertProcedure(schema as LexXrpcProcedure, ctx, convertType);
+    case "subscription":
+      return convertSubscription(schema as LexXrpcSubscription, ctx, convertType);
+    default:
+      throw new Error(`Not an XRPC type: ${schemaObj.type}`);
+  }
+}
+
+// Check if a def is an XRPC type
+function isXrpcDef(schema: unknown): boolean {
+  if (typeof schema !== "object" || schema === null) return false;
+  const type = (schema as { type?: string }).type;
+  return type === "query" || type === "procedure" || type === "subscription";
+}
+
+// Check if a def is a record type
+function isRecordDef(schema: unknown): boolean {
+  if (typeof schema !== "object" || schema === null) return false;
+  return (schema as { type?: string }).type === "record";
+}
+
+// Check if a def is an object type
+function isObjectDef(schema: unknown): boolean {
+  if (typeof schema !== "object" || schema === null) return false;
+  return (schema as { type?: string }).type === "object";
+}
+
+// Add the `$type` of a top-level object or record def to its schema:
+// - records require it in wire format, and have it injected when transforming to wire
+// - otherwise it is optional, but must name the def (`#main` is implicit for object defs)
+function withTypeField(
+  schema: v.GenericSchema,
+  def: unknown,
+  lexiconId: string,
+  defName: string,
+  scope: ConversionScope
+): v.GenericSchema {
+  if (!isRecordDef(def) && !isObjectDef(def)) {
+    return schema;
+  }
+
+  const typeName = defName === "main" ? lexiconId : `${lexiconId}#${defName}`;
+  let $type: v.GenericSchema;
+  if (isRecordDef(def)) {
+    $type = scope.transform?.direction === 'toWire'
+      ? v.optional(v.literal(typeName), typeName)
+      : scope.blobFormat === 'wire'
+        ? v.literal(typeName)
+        : v.optional(v.literal(typeName));
+  } else {
+    $type = v.optional(defName === "main" ? v.picklist([typeName, `${typeName}#main`]) : v.literal(typeName));
+  }
+
+  return v.object({
+    $type,
+    ...(schema as v.ObjectSchema<v.ObjectEntries, undefined>).entries,
+  });
+}
+
+// Create the converter context for defs of the given lexicon
+export function createContext(lexiconId: string, scope: ConversionScope, defName?: string): ConverterContext {
+  return {
+    lexiconId,
+    defName,
+    defs: scope.lexicons.get(lexiconId)?.defs ?? {},
+    resolveRef: createRefResolver(lexiconId, scope),
+    blobFormat: scope.blobFormat,
+    untypedBlobs: scope.untypedBlobs,
+    knownValues: scope.knownValues,
+    transform: scope.transform,
+  };
+}
+
+// Qualify a ref as nsid#defName:
+// - "#defName" (local ref)
+// - "com.example.lexicon#defName" (external ref)
+// - "com.example.lexicon" (main def of external lexicon)
+function toFullRef(ref: string, lexiconId: string): string {
+  if (ref.startsWith("#")) return `${lexiconId}${ref}`;
+  if (!ref.includes("#")) return `${ref}#main`;
+  return ref;
+}
+
+// Schemas for refs that cannot be resolved, per policy
+const unresolvedRefSchemas = {
+  warn: v.unknown(),
+  'unknown-object': v.looseObject({}),
+};
+
+function createRefResolver(
+  lexiconId: string,
+  scope: ConversionScope
+): (ref: string) => v.GenericSchema {
+  const { lexicons, cache, externalRefs } = scope;
+
+  return (ref: string) => {
+    const resolvedRef = toFullRef(ref, lexiconId);
+
+    // Check cache first
+    if (cache.has(resolvedRef)) {
+      return cache.get(resolvedRef)!;
+    }
+
+    // Check external refs (try both original and resolved)
+    if (externalRefs[ref]) {
+      cache.set(resolvedRef, externalRefs[ref]);
+      return externalRefs[ref];
+    }
+    if (externalRefs[resolvedRef]) {
+      cache.set(resolvedRef, externalRefs[resolvedRef]);
+      return externalRefs[resolvedRef];
+    }
+
+    // Parse the full ref
+    const [nsid, defName] = resolvedRef.split("#");
+
+    // Resolve against the lexicons in scope
+    const lexicon = lexicons.get(nsid);
+    if (!lexicon) {
+      // External ref not found in externalRefs
+      switch (scope.unresolvedRefs) {
+        case 'error':
+          throw new Error(`External ref not resolved: ${ref} - provide it in externalRefs option`);
+        case 'warn':
+          // Refs behind v.lazy resolve on every parse - warn once
+          if (!scope.warnedRefs.has(resolvedRef)) {
+            scope.warnedRefs.add(resolvedRef);
+            console.warn(`External ref not resolved: ${ref} - provide it in externalRefs option`);
+          }
+      }
+      return unresolvedRefSchemas[scope.unresolvedRefs];
+    }
+
+    const def = lexicon.defs[defName];
+    if (!def) {
+      throw new Error(`Ref not found: ${ref} (resolved to ${resolvedRef})`);
+    }
+
+    // Convert in the context of the lexicon that declares the def, so its local refs resolve there
+    const schema = withTypeField(convertType(def, createContext(nsid, scope, defName)), def, nsid, defName, scope);
+    cache.set(resolvedRef, schema);
+    return schema;
+  };
+}
+
+/**
+ * Find the refs that cannot be resolved, without converting anything.
+ * Walks the defs of a lexicon in scope matching `filter`, and every def they reference.
+ */
+export function collectUnresolvedRefs(
+  lexiconId: string,
+  scope: ConversionScope,
+  filter: (def: unknown) => boolean = () => true
+): UnresolvedRef[] {
+  const lexicon = scope.lexicons.get(lexiconId);
+  if (!lexicon) {
+    throw new Error(`Lexicon not found: ${lexiconId}`);
+  }
+
+  const unresolved: UnresolvedRef[] = [];
+  const visited = new Set<string>();
+
+  const checkRef = (ref: string, lexiconId: string, path: string) => {
+    const resolvedRef = toFullRef(ref, lexiconId);
+    if (scope.externalRefs[ref] || scope.externalRefs[resolvedRef]) return;
+
+    const [nsid, defName] = resolvedRef.split("#");
+    const def = scope.lexicons.get(nsid)?.defs[defName];
+    if (!def) {
+      unresolved.push({ ref, lexiconId, path });
+      return;
+    }
+
+    // Follow the ref into the def it resolves to
+    if (visited.has(resolvedRef)) return;
+    visited.add(resolvedRef);
+    visit(def, nsid, `defs.${defName}`);
+  };
+
+  const visit = (node: unknown, lexiconId: string, path: string) => {
+    if (typeof node !== "object" || node === null) return;
+
+    const schema = node as { type?: unknown; ref?: unknown; refs?: unknown };
+    if (schema.type === "ref" && typeof schema.ref === "string") {
+      checkRef(schema.ref, lexiconId, `${path}.ref`);
+    }
+    if (schema.type === "union" && Array.isArray(schema.refs)) {
+      schema.refs.forEach((ref: string, index) => checkRef(ref, lexiconId, `${path}.refs.${index}`));
+    }
+
+    for (const [key, value] of Object.entries(node)) {
+      visit(value, lexiconId, `${path}.${key}`);
+    }
+  };
+
+  for (const [defName, def] of Object.entries(lexicon.defs)) {
+    const resolvedRef = `${lexiconId}#${defName}`;
+    if (!filter(def) || visited.has(resolvedRef)) continue;
+    visited.add(resolvedRef);
+    visit(def, lexiconId, `defs.${defName}`);
+  }
+
+  return unresolved;
+}
+
+// Throw listing every unresolved ref, if the policy is 'error'
+export function assertRefsResolved(lexiconId: string, scope: ConversionScope, filter: (def: unknown) => boolean): void {
+  if (scope.unresolvedRefs !== 'error') return;
+
+  const unresolved = collectUnresolvedRefs(lexiconId, scope, filter);
+  if (unresolved.length > 0) {
+    const list = unresolved.map(({ ref, lexiconId, path }) => `  ${ref} (${lexiconId} ${path})`).join("\n");
+    throw new Error(`Unresolved refs in ${lexiconId}:\n${list}`);
+  }
+}
+
+/**
+ * Convert the record and object defs of a lexicon in scope.
+ * Skips XRPC types (query, procedure, subscription).
+ */
+export function convertLexiconDefs(lexiconId: string, scope: ConversionScope): Record<string, v.GenericSchema> {
+  const lexicon = scope.lexicons.get(lexiconId);
+  if (!lexicon) {
+    throw new Error(`Lexicon not found: ${lexiconId}`);
+  }
+
+  assertValidLexicon(lexicon);
+  assertRefsResolved(lexiconId, scope, (def) => !isXrpcDef(def));
+
+  const { resolveRef } = createContext(lexiconId, scope);
+  const result: Record<string, v.GenericSchema> = {};
+
+  for (const [defName, def] of Object.entries(lexicon.defs)) {
+    // Skip XRPC types
+    if (isXrpcDef(def)) continue;
+
+    result[defName] = resolveRef(`#${defName}`);
+  }
+
+  return result;
+}
+
+/**
+ * Convert the XRPC defs of a lexicon in scope.
+ * Only handles query, procedure, and subscription types.
+ */
+export function convertXrpcDefs(lexiconId: string, scope: ConversionScope): Record<string, XrpcResult> {
+  const lexicon = scope.lexicons.get(lexiconId);
+  if (!lexicon) {
+    throw new Error(`Lexicon not found: ${lexiconId}`);
+  }
+
+  assertValidLexicon(lexicon);
+  assertRefsResolved(lexiconId, scope, isXrpcDef);
+
+  const ctx = createContext(lexiconId, scope);
+  const result: Record<string, XrpcResult> = {};
+
+  for (const [defName, def] of Object.entries(lexicon.defs)) {
+    // Only handle XRPC types
+    if (!isXrpcDef(def)) continue;
+    result[defName] = convertXrpcDef(def, ctx);
+  }
+
+  return result;
+}
+
+/**
+ * Convert the record keys (`key`) of the record defs of a lexicon in scope.
+ */
+export function convertRecordKeyDefs(lexiconId: string, scope: ConversionScope): Record<string, v.GenericSchema> {
+  const lexicon = scope.lexicons.get(lexiconId);
+  if (!lexicon) {
+    throw new Error(`Lexicon not found: ${lexiconId}`);
+  }
+
+  const result: Record<string, v.GenericSchema> = {};
+
+  for (const [defName, def] of Object.entries(lexicon.defs)) {
+    // Only handle record types
+    if (!isRecordDef(def)) continue;
+    result[defName] = convertRecordKey((def as LexRecord).key);
+  }
+
+  return result;
+}
@@ -1,6 +1,7 @@
+import { CID } from "multiformats/cid";
 import * as v from "valibot";
 import { describe, expect, it } from "vitest";
-import { convertBlob, convertCidLink, convertToken } from "./atproto.js";
+import { convertBlob, convertCidLink, convertRecordKey, convertToken } from "./atproto.js";
 
 // Mock BlobRef-like object for testing (duck typing)
 function createMockBlobRef(cid: string, mimeType: string, size: number) {
@@ -89,20 +90,76 @@ describe("convertBlob", () => {
   });
 });
 
+describe("convertBlob constraints", () => {
+  const cid = "bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku";
+
+  function createWireBlobRef(mimeType: string, size: number) {
+    return { $type: "blob", ref: { $link: cid }, mimeType, size };
+  }
+
+  it("enforces maxSize in both formats", () => {
+    const wire = convertBlob({ type: "blob", maxSize: 1000 }, "wire");
+    expect(v.safeParse(wire, createWireBlobRef("image/png", 1000)).success).toBe(true);
+    expect(v.safeParse(wire, createWireBlobRef("image/png", 1001)).success).toBe(false);
+
+    const sdk = convertBlob({ type: "blob", maxSize: 1000 }, "sdk");
+    expect(v.safeParse(sdk, createMockBlobRef(cid, "image/png", 1000)).success).toBe(true);
+    expect(v.safeParse(sdk, createMockBlobRef(cid, "image/png", 1001)).success).toBe(false);
+  });
+
+  it("matches mimeType against accept", () => {
+    const schema = convertBlob({ type: "blob", accept: ["image/png", "video/mp4"] }, "wire");
+    expect(v.safeParse(schema, createWireBlobRef("image/png", 10)).success).toBe(true);
+    expect(v.safeParse(schema, createWireBlobRef("video/mp4", 10)).success).toBe(true);
+    expect(v.safeParse(schema, createWireBlobRef("image/jpeg", 10)).success).toBe(false);
+    expect(v.safeParse(schema, createWireBlobRef("Image/PNG; foo=bar", 10)).success).toBe(true);
+  });
+
+  it("supports MIME wildcards in accept", () => {
+    const images = convertBlob({ type: "blob", accept: ["image/*"] }, "sdk");
+    expect(v.safeParse(images, createMockBlobRef(cid, "image/webp", 10)).success).toBe(true);
+    expect(v.safeParse(images, createMockBlobRef(cid, "video/mp4", 10)).success).toBe(false);
+    expect(v.safeParse(images, createMockBlobRef(cid, "imagex/png", 10)).success).toBe(false);
+
+    const any = convertBlob({ type: "blob", accept: ["*/*"] }, "sdk");
+    expect(v.safeParse(any, createMockBlobRef(cid, "application/octet-stream", 10)).success).toBe(true);
+  });
+
+  it("skips maxSize for untyped blob refs by default", () => {
+    const schema = convertBlob({ type: "blob", accept: ["image/*"], maxSize: 1000 }, "wire");
+    expect(v.safeParse(schema, { cid, mimeType: "image/jpeg" }).success).toBe(true);
+    expect(v.safeParse(schema, { cid, mimeType: "text/plain" }).success).toBe(false);
+  });
+
+  it("rejects untyped blob refs with the 'reject' policy", () => {
+    const schema = convertBlob({ type: "blob" }, "wire", "reject");
+    expect(v.safeParse(schema, createWireBlobRef("image/png", 10)).success).toBe(true);
+    expect(v.safeParse(schema, { cid, mimeType: "image/jpeg" }).success).toBe(false);
+  });
+});
+
 describe("convertCidLink", () => {
-  it("validates CID link structure", () => {
+  const cid = "bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku";
+
+  it("validates CID instances in sdk format", () => {
     const schema = convertCidLink({ type: "cid-link" });
 
-    const cidLink = {
-      $link: "bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku",
-    };
+    expect(v.safeParse(schema, CID.parse(cid)).success).toBe(true);
+    expect(v.safeParse(schema, { $link: cid }).success).toBe(false);
+    expect(v.safeParse(schema, cid).success).toBe(false);
+  });
+
+  it("validates CID link structure in wire format", () => {
+    const schema = convertCidLink({ type: "cid-link" }, "wire");
 
-    expect(v.safeParse(schema, cidLink).success).toBe(true);
+    expect(v.safeParse(schema, { $link: cid }).success).toBe(true);
+    expect(v.safeParse(schema, CID.parse(cid)).success).toBe(false);
   });
 
   it("rejects invalid CID link", () => {
-    const schema = convertCidLink({ type: "cid-link" });
+    const schema = convertCidLink({ type: "cid-link" }, "wire");
 
+    expect(v.safeParse(schema, { $link: "bafkreiexample" }).success).toBe(false);
     expect(v.safeParse(schema, { link: "wrong-key" }).success).toBe(false);
     expect(v.safeParse(schema, "just-a-string").success).toBe(false);
     expect(v.safeParse(schema, null).success).toBe(false);
@@ -110,18 +167,57 @@ describe("convertCidLink", () => {
 });
 
 describe("convertToken", () => {
-  it("validates token as string", () => {
-    const schema = convertToken({ type: "token" });
+  it("validates the fully-qualified token name", () => {
+    const schema = convertToken({ type: "token" }, "app.bsky.feed.post#mention");
 
     expect(v.safeParse(schema, "app.bsky.feed.post#mention").success).toBe(true);
-    expect(v.safeParse(schema, "any-token-value").success).toBe(true);
+    expect(v.safeParse(schema, "app.bsky.feed.post#link").success).toBe(false);
+    expect(v.safeParse(schema, "any-token-value").success).toBe(false);
   });
 
   it("rejects non-string values", () => {
-    const schema = convertToken({ type: "token" });
+    const schema = convertToken({ type: "token" }, "app.bsky.feed.post#mention");
 
     expect(v.safeParse(schema, 123).success).toBe(false);
     expect(v.safeParse(schema, null).success).toBe(false);
     expect(v.safeParse(schema, {}).success).toBe(false);
   });
 });
+
+describe("convertRecordKey", () => {
+  it("validates tid keys", () => {
+    const schema = convertRecordKey("tid");
+
+    expect(v.safeParse(schema, "3jui7kd54zh2y").success).toBe(true);
+    expect(v.safeParse(schema, "self").success).toBe(false);
+    expect(v.safeParse(schema, "3jui7kd54zh2y1").success).toBe(false);
+  });
+
+  it("validates nsid keys", () => {
+    const schema = convertRecordKey("nsid");
+
+    expect(v.safeParse(schema, "app.bsky.feed.post").success).toBe(true);
+    expect(v.safeParse(schema, "3jui7kd54zh2y").success).toBe(false);
+  });
+
+  it("validates literal keys", () => {
+    const schema = convertRecordKey("literal:self");
+
+    expect(v.safeParse(schema, "self").success).toBe(true);
+    expect(v.safeParse(schema, "other").success).toBe(false);
+  });
+
+  it("validates any keys with generic record-key rules", () => {
+    const schema = convertRecordKey("any");
+
+    expect(v.safeParse(schema, "3jui7kd54zh2y").success).toBe(true);
+    expect(v.safeParse(schema, "self").success).toBe(true);
+    expect(v.safeParse(schema, "example.com:a~b_c-d").success).toBe(true);
+    expect(v.safeParse(schema, "with space").success).toBe(false);
+    expect(v.safeParse(schema, "a/b").success).toBe(false);
+  });
+
+  it("rejects unknown key types", () => {
+    expect(() => convertRecordKey("uuid")).toThrow("Unknown record key type: uuid");
+  });
+});
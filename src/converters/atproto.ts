@@ -1,11 +1,14 @@
 import type { BlobRef } from "@atproto/lexicon";
+import { CID } from "multiformats/cid";
 import * as v from "valibot";
-import type { BlobFormat, LexBlob, LexCidLink, LexToken } from "../types.js";
+import type { BlobFormat, LexBlob, LexCidLink, LexToken, UntypedBlobPolicy } from "../types.js";
+import { isValidCid } from "./formats.js";
+import { convertString } from "./primitives.js";
 
 // Blob reference types for AT Protocol
 
 // Wire format: what gets sent to/from PDS
-type WireBlobRef = {
+export type WireBlobRef = {
   $type: "blob";
   ref: { $link: string };
   mimeType: string;
@@ -13,7 +16,7 @@ type WireBlobRef = {
 };
 
 // Untyped/legacy format
-type UntypedBlobRef = {
+export type UntypedBlobRef = {
   cid: string;
   mimeType: string;
 };
@@ -65,23 +68,102 @@ const blobWireSchema = v.custom<WireBlobRef | UntypedBlobRef>(
   "Expected BlobRef (wire format)"
 );
 
-export function convertBlob(schema: LexBlob, format: BlobFormat): v.GenericSchema {
-  // For now, we validate the structure but don't enforce accept/maxSize at runtime
-  // Those would require access to the actual blob data
-  return format === 'sdk' ? blobSdkSchema : blobWireSchema;
+type AnyBlobRef = BlobRef | WireBlobRef | UntypedBlobRef;
+
+// Match a MIME type against accept patterns: exact ("image/png"), wildcard subtype ("image/*") or any ("*/*").
+// Parameters like `charset` are ignored. Shared with XRPC encodings, see matchesEncoding.
+export function matchesAccept(mimeType: string, accept: readonly string[]): boolean {
+  const type = mimeType.split(";")[0].trim().toLowerCase();
+  return accept.some((pattern) => {
+    const normalized = pattern.toLowerCase();
+    if (normalized === "*/*") return true;
+    if (normalized.endsWith("/*")) return type.startsWith(normalized.slice(0, -1));
+    return type === normalized;
+  });
+}
+
+// Untyped (legacy) blob refs carry no size
+function getBlobSize(value: AnyBlobRef): number | undefined {
+  return "size" in value && typeof value.size === "number" ? value.size : undefined;
+}
+
+export function convertBlob(
+  schema: LexBlob,
+  format: BlobFormat,
+  untypedBlobs: UntypedBlobPolicy = 'allow'
+): v.GenericSchema {
+  const checks: v.PipeItem<AnyBlobRef, AnyBlobRef, v.BaseIssue<unknown>>[] = [];
+
+  if (untypedBlobs === 'reject') {
+    checks.push(
+      v.check(
+        (value) => getBlobSize(value) !== undefined,
+        "Expected typed BlobRef, got untyped (legacy) blob reference"
+      )
+    );
+  }
+
+  if (schema.accept !== undefined && schema.accept.length > 0) {
+    const accept = schema.accept;
+    checks.push(
+      v.check(
+        (value) => matchesAccept(value.mimeType, accept),
+        `Blob MIME type must match one of ${accept.join(", ")}`
+      )
+    );
+  }
+
+  if (schema.maxSize !== undefined) {
+    const max = schema.maxSize;
+    checks.push(
+      v.check(
+        (value) => (getBlobSize(value) ?? 0) <= max,
+        `Blob size must be at most ${max} byte(s)`
+      )
+    );
+  }
+
+  const baseSchema: v.GenericSchema<AnyBlobRef> = format === 'sdk' ? blobSdkSchema : blobWireSchema;
+
+  if (checks.length === 0) {
+    return baseSchema;
+  }
+
+  return v.pipe(baseSchema, ...checks);
 }
 
-// CID link is represented as an object with $link property containing the CID string
-const cidLinkSchema = v.object({
-  $link: v.string(),
+// SDK format: a CID instance (from any multiformats version)
+const cidLinkSdkSchema = v.custom<CID>((value) => CID.asCID(value) !== null, "Expected CID instance");
+
+// Wire format: an object with $link property containing the CID string
+const cidLinkWireSchema = v.object({
+  $link: v.pipe(v.string(), v.check(isValidCid, "CID link must be a valid cid")),
 });
 
-export function convertCidLink(_schema: LexCidLink): v.GenericSchema {
-  return cidLinkSchema;
+export function convertCidLink(_schema: LexCidLink, format: BlobFormat = 'sdk'): v.GenericSchema {
+  return format === 'sdk' ? cidLinkSdkSchema : cidLinkWireSchema;
 }
 
-export function convertToken(schema: LexToken): v.GenericSchema {
-  // Token is essentially a string literal representing a constant identifier
-  // The value should be the full NSID#name reference
-  return v.string();
+export function convertToken(_schema: LexToken, tokenName: string): v.GenericSchema {
+  // Token values are the fully-qualified token name: nsid#defName
+  return v.literal(tokenName);
+}
+
+// Record key types: tid, nsid, literal:<value> or any
+export function convertRecordKey(key: string | undefined): v.GenericSchema {
+  switch (key) {
+    case "tid":
+      return convertString({ type: "string", format: "tid" });
+    case "nsid":
+      return convertString({ type: "string", format: "nsid" });
+    case "any":
+    case undefined:
+      return convertString({ type: "string", format: "record-key" });
+  }
+
+  if (key.startsWith("literal:")) {
+    return v.literal(key.slice("literal:".length));
+  }
+
+  throw new Error(`Unknown record key type: ${key}`);
 }
@@ -12,6 +12,8 @@ function createContext(
     defs: {},
     resolveRef,
     blobFormat: "sdk",
+    untypedBlobs: "allow",
+    knownValues: "open",
   };
 }
 
@@ -121,6 +123,44 @@ describe("convertObject", () => {
     expect(v.safeParse(schema, {}).success).toBe(false);
   });
 
+  it("applies defaults to missing optional properties", () => {
+    const lexObject: LexObject = {
+      type: "object",
+      nullable: ["label"],
+      properties: {
+        limit: { type: "integer", default: 50 },
+        label: { type: "string", default: "none" },
+        enabled: { type: "boolean", default: false },
+        name: { type: "string" },
+      },
+    };
+    const schema = convertObject(lexObject, createContext(), convertType);
+
+    expect(v.parse(schema, {})).toEqual({ limit: 50, label: "none", enabled: false });
+    expect(v.parse(schema, { limit: 10, label: null, enabled: true, name: "x" })).toEqual({
+      limit: 10,
+      label: null,
+      enabled: true,
+      name: "x",
+    });
+    expect(v.safeParse(schema, { limit: "10" }).success).toBe(false);
+  });
+
+  it("fills missing required properties with their default", () => {
+    const lexObject: LexObject = {
+      type: "object",
+      required: ["limit", "name"],
+      properties: {
+        limit: { type: "integer", default: 50 },
+        name: { type: "string" },
+      },
+    };
+    const schema = convertObject(lexObject, createContext(), convertType);
+
+    expect(v.parse(schema, { name: "x" })).toEqual({ limit: 50, name: "x" });
+    expect(v.safeParse(schema, { limit: 10 }).success).toBe(false);
+  });
+
   it("handles empty object", () => {
     const lexObject = {
       type: "object",
@@ -159,30 +199,69 @@ describe("convertUnion", () => {
   });
 
   it("handles single ref union", () => {
-    const resolveRef = () => v.string();
+    const resolveRef = () => v.object({ text: v.string() });
     const schema = convertUnion(
       { type: "union", refs: ["#single"] },
       createContext(resolveRef)
     );
 
-    expect(v.safeParse(schema, "valid").success).toBe(true);
-    expect(v.safeParse(schema, 123).success).toBe(false);
+    expect(v.safeParse(schema, { $type: "test.lexicon#single", text: "valid" }).success).toBe(true);
+    expect(v.safeParse(schema, { $type: "test.lexicon#single", text: 123 }).success).toBe(false);
+    expect(v.safeParse(schema, "valid").success).toBe(false);
   });
 
-  it("handles multiple refs union", () => {
+  it("dispatches on $type", () => {
     const resolveRef = (ref: string) => {
-      if (ref === "#string") return v.string();
-      if (ref === "#number") return v.number();
+      if (ref === "#text") return v.object({ text: v.string() });
+      if (ref === "com.example.image") return v.object({ url: v.string() });
       return v.unknown();
     };
 
     const schema = convertUnion(
-      { type: "union", refs: ["#string", "#number"] },
+      { type: "union", refs: ["#text", "com.example.image"] },
       createContext(resolveRef)
     );
 
-    expect(v.safeParse(schema, "text").success).toBe(true);
-    expect(v.safeParse(schema, 42).success).toBe(true);
-    expect(v.safeParse(schema, true).success).toBe(false);
+    expect(v.safeParse(schema, { $type: "test.lexicon#text", text: "hi" }).success).toBe(true);
+    expect(v.safeParse(schema, { $type: "com.example.image", url: "x" }).success).toBe(true);
+    expect(v.safeParse(schema, { $type: "com.example.image#main", url: "x" }).success).toBe(true);
+
+    // Structurally valid for the other variant, but $type names this one
+    expect(v.safeParse(schema, { $type: "test.lexicon#text", url: "x" }).success).toBe(false);
+    // Missing $type
+    expect(v.safeParse(schema, { text: "hi" }).success).toBe(false);
+  });
+
+  it("keeps $type in the output", () => {
+    const schema = convertUnion(
+      { type: "union", refs: ["#text"] },
+      createContext(() => v.object({ text: v.string() }))
+    );
+
+    expect(v.parse(schema, { $type: "test.lexicon#text", text: "hi" })).toEqual({
+      $type: "test.lexicon#text",
+      text: "hi",
+    });
+  });
+
+  it("accepts unknown well-formed $types in open unions", () => {
+    const schema = convertUnion(
+      { type: "union", refs: ["#text"] },
+      createContext(() => v.object({ text: v.string() }))
+    );
+
+    const unknownVariant = { $type: "com.example.other#thing", anything: 1 };
+    expect(v.parse(schema, unknownVariant)).toEqual(unknownVariant);
+    expect(v.safeParse(schema, { $type: "not an nsid" }).success).toBe(false);
+  });
+
+  it("rejects unknown $types in closed unions", () => {
+    const schema = convertUnion(
+      { type: "union", refs: ["#text"], closed: true },
+      createContext(() => v.object({ text: v.string() }))
+    );
+
+    expect(v.safeParse(schema, { $type: "test.lexicon#text", text: "hi" }).success).toBe(true);
+    expect(v.safeParse(schema, { $type: "com.example.other#thing" }).success).toBe(false);
   });
 });
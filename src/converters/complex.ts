@@ -1,4 +1,5 @@
 import * as v from "valibot";
+import { isValidNsid } from "./formats.js";
 import type { LexArray, LexObject, LexRef, LexRefUnion, ConverterContext } from "../types.js";
 
 export function convertArray(
@@ -24,6 +25,17 @@ export function convertArray(
   return v.pipe(v.array(itemsSchema), ...checks);
 }
 
+// Whether a property has a lexicon `default`, which fills it in when absent - even when required
+export function hasDefault(prop: unknown): boolean {
+  return (prop as { default?: unknown }).default !== undefined;
+}
+
+// Wrap a non-required or defaulted property as optional, parsing to its lexicon `default` when absent
+export function convertOptional(schema: v.GenericSchema, prop: unknown): v.GenericSchema {
+  const defaultValue = (prop as { default?: unknown }).default;
+  return defaultValue === undefined ? v.optional(schema) : v.optional(schema, defaultValue);
+}
+
 export function convertObject(
   schema: LexObject,
   ctx: ConverterContext,
@@ -42,9 +54,9 @@ export function convertObject(
         propSchema = v.nullable(propSchema);
       }
 
-      // Handle optional (not in required list)
-      if (!requiredSet.has(key)) {
-        propSchema = v.optional(propSchema);
+      // Handle optional (not in required list, or filled with its default)
+      if (!requiredSet.has(key) || hasDefault(prop)) {
+        propSchema = convertOptional(propSchema, prop);
       }
 
       properties[key] = propSchema;
@@ -58,22 +70,68 @@ export function convertRef(schema: LexRef, ctx: ConverterContext): v.GenericSche
   return v.lazy(() => ctx.resolveRef(schema.ref));
 }
 
+// Normalize a `$type` value: the `#main` fragment is implicit
+function stripMain(type: string): string {
+  return type.endsWith("#main") ? type.slice(0, -"#main".length) : type;
+}
+
+// Canonical `$type` for a union ref - local refs are qualified with the lexicon id
+export function toTypeName(ref: string, lexiconId: string): string {
+  return stripMain(ref.startsWith("#") ? `${lexiconId}${ref}` : ref);
+}
+
+// `$type` of an open union variant: an NSID with an optional `#defName` fragment
+const typeNameSchema = v.pipe(
+  v.string(),
+  v.check((value) => {
+    const [nsid, defName, ...rest] = value.split("#");
+    return isValidNsid(nsid) && rest.length === 0 && (defName === undefined || /^[a-zA-Z][a-zA-Z0-9_]*$/.test(defName));
+  }, "Expected $type to be a valid NSID")
+);
+
 export function convertUnion(
   schema: LexRefUnion,
   ctx: ConverterContext
 ): v.GenericSchema {
-  if (schema.refs.length === 0) {
-    return v.never();
+  const refs: Record<string, v.GenericSchema> = {};
+  for (const ref of schema.refs) {
+    refs[toTypeName(ref, ctx.lexiconId)] = v.lazy(() => ctx.resolveRef(ref));
   }
+  return createUnion(refs, schema.closed ?? false);
+}
 
-  if (schema.refs.length === 1) {
-    return v.lazy(() => ctx.resolveRef(schema.refs[0]));
+/**
+ * Union of the referenced defs, keyed by their canonical `$type`.
+ * Objects dispatch on `$type`, token refs are matched by their name.
+ */
+export function createUnion(refs: Record<string, v.GenericSchema>, closed: boolean): v.GenericSchema {
+  const refSchemas = new Map(Object.entries(refs));
+  const typeNames = [...refSchemas.keys()];
+  if (typeNames.length === 0) {
+    return v.never();
   }
 
-  // Create a union of lazy refs - we know there are at least 2 refs from the check above
-  const [first, second, ...rest] = schema.refs.map((ref) =>
-    v.lazy(() => ctx.resolveRef(ref))
-  );
+  // Each variant keeps its `$type` and is validated against the referenced def
+  const variants = new Map<string, v.GenericSchema>();
+  for (const [typeName, refSchema] of refSchemas) {
+    variants.set(typeName, v.intersect([v.object({ $type: v.string() }), refSchema]));
+  }
 
-  return v.union([first, second, ...rest]);
+  // Closed unions reject unknown `$type`s, open unions accept any well-formed one
+  const fallback = closed
+    ? v.object({
+      $type: v.picklist(typeNames, `Expected $type to be one of ${typeNames.join(", ")}`),
+    })
+    : v.looseObject({ $type: typeNameSchema });
+
+  // Dispatch on `$type` to the matching variant
+  return v.lazy((input) => {
+    if (typeof input === "string") {
+      return refSchemas.get(stripMain(input)) ?? fallback;
+    }
+    const $type = typeof input === "object" && input !== null
+      ? (input as { $type?: unknown }).$type
+      : undefined;
+    return (typeof $type === "string" && variants.get(stripMain($type))) || fallback;
+  });
 }
@@ -0,0 +1,400 @@
+import { describe, expect, it } from "vitest";
+import {
+  isValidAtIdentifier,
+  isValidAtUri,
+  isValidCid,
+  isValidDatetime,
+  isValidDid,
+  isValidHandle,
+  isValidLanguage,
+  isValidNsid,
+  isValidRecordKey,
+  isValidTid,
+  isValidUri,
+} from "./formats.js";
+
+// Test vectors from the atproto syntax interop test files
+// See https://github.com/bluesky-social/atproto/tree/main/interop-test-files/syntax
+
+function describeFormat(
+  name: string,
+  isValid: (value: string) => boolean,
+  valid: string[],
+  invalid: string[]
+) {
+  describe(name, () => {
+    it.each(valid)("accepts %j", (value) => {
+      expect(isValid(value)).toBe(true);
+    });
+
+    it.each(invalid)("rejects %j", (value) => {
+      expect(isValid(value)).toBe(false);
+    });
+  });
+}
+
+describeFormat(
+  "did",
+  isValidDid,
+  [
+    "did:method:val",
+    "did:method:VAL",
+    "did:method:val123",
+    "did:method:123",
+    "did:method:val-two",
+    "did:method:val_two",
+    "did:method:val.two",
+    "did:method:val:two",
+    "did:method:val%BB",
+    "did:m:v",
+    "did:method::::val",
+    "did:method:-",
+    "did:method:-:_:.:%ab",
+    "did:method:.",
+    "did:method:_",
+    "did:method::.",
+    "did:onion:2gzyxa5ihm7nsggfxnu52rck2vv4rvmdlkiu3zzui5du4xyclen53wid",
+    "did:example:123456789abcdefghi",
+    "did:plc:7iza6de2dwap2sbkpav7c6c6",
+    "did:web:example.com",
+    "did:web:localhost%3A1234",
+    "did:key:zQ3shZc2QzApp2oymGvQbzP8eKheVshBHbU4ZYjeXqwSKEn6N",
+    "did:ethr:0xb9c5714089478a327f09197987f16f9e5d936e8a",
+    `did:plc:${"a".repeat(2048 - "did:plc:".length)}`,
+  ],
+  [
+    "did",
+    "didmethodval",
+    "method:did:val",
+    "did:method:",
+    "didmethod:val",
+    "did:methodval",
+    ":did:method:val",
+    "did.method.val",
+    "did:method:val:",
+    "did:method:val%",
+    "DID:method:val",
+    "did:METHOD:val",
+    "did:m123:val",
+    "did:method:val/two",
+    "did:method:val?two",
+    "did:method:val#two",
+    "did:method:val two",
+    `did:plc:${"a".repeat(2049 - "did:plc:".length)}`,
+  ]
+);
+
+describeFormat(
+  "handle",
+  isValidHandle,
+  [
+    "A.ISI.EDU",
+    "XX.LCS.MIT.EDU",
+    "SRI-NIC.ARPA",
+    "john.test",
+    "jan.test",
+    "a234567890123456789.test",
+    "john2.test",
+    "john-john.test",
+    "john.bsky.app",
+    "jo.hn",
+    "a.co",
+    "a.org",
+    "joh.n",
+    "j0.h0",
+    "jaymome-johnber123456.test",
+    "jay.mome-johnber123456.test",
+    "john.test.bsky.app",
+    "xn--ls8h.test",
+    "4chan.org",
+    "4chan.o-g",
+    `${"a".repeat(63)}.test`,
+    `${"a".repeat(63)}.${"b".repeat(63)}.${"c".repeat(63)}.${"d".repeat(61)}`,
+  ],
+  [
+    "did:thing.test",
+    "did:thing",
+    "john-.test",
+    "john.0",
+    "john.-",
+    "xn--bcher-.tld",
+    "john..test",
+    "jo_hn.test",
+    "-john.test",
+    ".john.test",
+    "jo!hn.test",
+    "jo%hn.test",
+    "jo&hn.test",
+    "jo@hn.test",
+    "jo*hn.test",
+    "jo|hn.test",
+    "jo:hn.test",
+    "jo/hn.test",
+    "john💩.test",
+    "bücher.test",
+    "john .test",
+    "john.test.",
+    "john",
+    "john.",
+    ".john",
+    " john.test",
+    "john.test ",
+    "joh-.test",
+    "john.-est",
+    "john.tes-",
+    "org",
+    "cn.8",
+    "thing.0aa",
+    "127.0.0.1",
+    "192.168.0.142",
+    "fe80::7325:8a97:c100:94b",
+    `${"a".repeat(64)}.test`,
+    `${"a".repeat(63)}.${"b".repeat(63)}.${"c".repeat(63)}.${"d".repeat(62)}`,
+  ]
+);
+
+describeFormat(
+  "at-identifier",
+  isValidAtIdentifier,
+  ["john.test", "did:plc:7iza6de2dwap2sbkpav7c6c6"],
+  ["john", "did:thing", "did:plc:", "john.0"]
+);
+
+describeFormat(
+  "nsid",
+  isValidNsid,
+  [
+    "com.ex.foo",
+    "com.example.foo",
+    "com.long-thing1.cool.fooBarBaz",
+    "onion.expyuzz4wqqyqhjn.spec.getThing",
+    "cool.long-thing1.ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz",
+    "a.b.c",
+    "m.xn--masekowski-d0b.pl",
+    "one.two.three",
+    "one.two.three.four-and.FiVe",
+    "one.2.three",
+    "a-0.b-1.c",
+    "a0.b1.cc",
+    "a0.b1.c3",
+    "cn.8.lex.stuff",
+    "test.12345.record",
+    "a01.thing.record",
+    "a.0.c",
+    "com.example.f00",
+    "xn--fiqs8s.xn--fiqa61au8b7zsevnm8ak20mc4a87e.record.two",
+  ],
+  [
+    "com.example.foo.*",
+    "com.example.foo.blah*",
+    "com.example.foo.f00*",
+    "com.exa💩ple.thing",
+    "a-0.b-1.c-3",
+    "a-0.b-1.c-o",
+    "1.0.0.127.record",
+    "0two.example.foo",
+    "example.com",
+    "com.example",
+    "a.",
+    ".one.two.three",
+    "one.two.three ",
+    "one.two..three",
+    "one .two.three",
+    " one.two.three",
+    "com.atproto.feed.p@st",
+    "com.atproto.feed.p_st",
+    "com.atproto.feed.p*st",
+    "com.atproto.feed.po#t",
+    "com.atproto.feed.p!ot",
+    "com.example-.foo",
+  ]
+);
+
+describeFormat(
+  "tid",
+  isValidTid,
+  ["3jzfcijpj2z2a", "7777777777777", "3zzzzzzzzzzzz", "2222222222222"],
+  [
+    "3jzfcijpj2z21",
+    "0000000000000",
+    "3JZFCIJPJ2Z2A",
+    "3jzfcijpj2z2aa",
+    "3jzfcijpj2z2",
+    "zzzzzzzzzzzzz",
+    "kjzfcijpj2z2a",
+    "3jzf-cij-pj2z-2a",
+    "3jzfcijpj2z2a ",
+  ]
+);
+
+describeFormat(
+  "record-key",
+  isValidRecordKey,
+  ["self", "example.com", "~1.2-3_", "dHJ1ZQ", "pre:fix", "_", "...", "a".repeat(512)],
+  [
+    "alpha/beta",
+    ".",
+    "..",
+    "#extra",
+    "@handle",
+    "any space",
+    "any+space",
+    "number[3]",
+    "number(3)",
+    '"quote"',
+    "dHJ1ZQ==",
+    "",
+    "a".repeat(513),
+  ]
+);
+
+describeFormat(
+  "datetime",
+  isValidDatetime,
+  [
+    "1985-04-12T23:20:50.123Z",
+    "1985-04-12T23:20:50.123456Z",
+    "1985-04-12T23:20:50.120Z",
+    "1985-04-12T23:20:50.120000Z",
+    "1985-04-12T23:20:50.1235678912345Z",
+    "1985-04-12T23:20:50.12345678912345Z",
+    "1985-04-12T23:20:50Z",
+    "1985-04-12T23:20:50.0Z",
+    "1985-04-12T23:20:50.123+00:00",
+    "1985-04-12T23:20:50.123-07:00",
+    "0985-04-12T23:20:50.123Z",
+    "1984-02-29T00:00:00Z",
+  ],
+  [
+    "1985-04-12",
+    "1985-04-12T23:20Z",
+    "1985-04-12T23:20:5Z",
+    "1985-04-12T23:20:50.123",
+    "+001985-04-12T23:20:50.123Z",
+    "23:20:50.123Z",
+    "-1985-04-12T23:20:50.123Z",
+    "1985-4-12T23:20:50.123Z",
+    "01985-04-12T23:20:50.123Z",
+    "1985-04-12T23:20:50.123+00",
+    "1985-04-12T23:20:50.123+0000",
+    "1985-04-12t23:20:50.123Z",
+    "1985-04-12T23:20:50.123z",
+    "1985-04-12T23:20:50.123-00:00",
+    "1985-04-12 23:20:50.123Z",
+    "1985-04-12T23:20:50,123Z",
+    "1985-04-12T23:99:50.123Z",
+    "1985-00-12T23:20:50.123Z",
+    "0000-01-01T00:00:00Z",
+    "1985-02-29T00:00:00Z",
+    "1985-04-31T00:00:00Z",
+    "1985-04-12T23:20:50.123Z ",
+  ]
+);
+
+describeFormat(
+  "uri",
+  isValidUri,
+  ["https://example.com", "http://localhost:3000/path", "at://did:plc:abc/app.bsky.feed.post/123", "mailto:user@example.com"],
+  ["not-a-url", "https:// example.com", "https:/", ""]
+);
+
+describeFormat(
+  "at-uri",
+  isValidAtUri,
+  [
+    "at://did:plc:asdf123",
+    "at://user.bsky.social",
+    "at://did:plc:asdf123/com.atproto.feed.post",
+    "at://did:plc:asdf123/com.atproto.feed.post/record",
+    "at://did:plc:asdf123#/frag",
+    "at://user.bsky.social#/frag",
+    "at://did:plc:asdf123/com.atproto.feed.post#/frag",
+    "at://did:plc:asdf123/com.atproto.feed.post/record#/frag",
+    "at://did:plc:asdf123/com.atproto.feed.post/asdf123#/frag/with/slashes",
+    "at://did:plc:asdf123/com.atproto.feed.post/~1.2-3_",
+    "at://did:plc:asdf123/com.atproto.feed.post/self",
+  ],
+  [
+    "a://did:plc:asdf123",
+    "at//did:plc:asdf123",
+    "at:/a/did:plc:asdf123",
+    "at:/did:plc:asdf123",
+    "AT://did:plc:asdf123",
+    "http://did:plc:asdf123",
+    "://did:plc:asdf123",
+    "at:did:plc:asdf123",
+    "at:///did:plc:asdf123",
+    "at://:/did:plc:asdf123",
+    "at:/ /did:plc:asdf123",
+    "at://did:plc:asdf123 ",
+    "at://did:plc:asdf123/ ",
+    " at://did:plc:asdf123",
+    "at://did:plc:asdf123/com.atproto.feed.post ",
+    "at://did:plc:asdf123/com.atproto.feed.post# ",
+    "at://did:plc:asdf123/com.atproto.feed.post#/ ",
+    "at://did:plc:asdf123/com.atproto.feed.post#/frag ",
+    "at://did:plc:asdf123/com.atproto.feed.post#fr ag",
+    "//did:plc:asdf123",
+    "at://name",
+    "at://name.0",
+    "at://diD:plc:asdf123",
+    "at://did:plc:asdf123/com.atproto.feed.p@st",
+    "at://did:plc:asdf123/com.atproto.feed.p$st",
+    "at://did:plc:asdf123/com.atproto.feed.p%st",
+    "at://did:plc:asdf123/com.atproto.feed.p&st",
+    "at://did:plc:asdf123/com.atproto.feed.p()t",
+    "at://did:plc:asdf123/com.atproto.feed_post",
+    "at://did:plc:asdf123/-com.atproto.feed.post",
+    "at://did:plc:asdf@123/com.atproto.feed.post",
+    "at://DID:plc:asdf123",
+    "at://user.bsky.123",
+    "at://bsky",
+    "at://did:plc:",
+    "at://did:plc:",
+    "at://frag",
+    "at://did:plc:asdf123/",
+    "at://did:plc:asdf123/com.atproto.feed.post/",
+    "at://did:plc:asdf123/com.atproto.feed.post/record/",
+    "at://did:plc:asdf123/com.atproto.feed.post/asdf123/more/more",
+    "at://did:plc:asdf123#frag",
+    "at://did:plc:asdf123#/frag#/frag2",
+    "at://did:plc:asdf123?query=1",
+  ]
+);
+
+describeFormat(
+  "cid",
+  isValidCid,
+  [
+    "bafyreidfayvfuwqa7qlnopdjiqrxzs6blmoeu4rujcjtnci5beludirz2a",
+    "bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku",
+    "QmZfSNpHVzTNi9gezLcgq64Wbj1xhwi9wk4AxYyxMZgtCG",
+  ],
+  [
+    "example",
+    "bafkreiexample",
+    "QmZfSNpHVzTNi9gezLcgq64Wbj1xhwi9wk4AxYyxMZgtC",
+    "bafyreidfayvfuwqa7qlnopdjiqrxzs6blmoeu4rujcjtnci5beludirz2a!",
+    "",
+  ]
+);
+
+describeFormat(
+  "language",
+  isValidLanguage,
+  [
+    "ja",
+    "ban",
+    "pt-BR",
+    "hy-Latn-IT-arevela",
+    "en-GB",
+    "zh-Hant",
+    "sgn-BE-NL",
+    "es-419",
+    "en-GB-boont-r-extended-sequence-x-private",
+    "x-private",
+    "i-default",
+    "zh-min-nan",
+  ],
+  ["", "j", "123", "en-", "-en", "en_US", "ja!", "en-GB-", "en--GB"]
+);
@@ -0,0 +1,144 @@
+import { CID } from "multiformats/cid";
+import type { LexString } from "../types.js";
+
+// String format validators following the atproto syntax specs
+// See https://atproto.com/specs/lexicon#string-formats
+
+type StringFormat = NonNullable<LexString["format"]>;
+
+// DID: did:<lowercase method>:<method-specific id>, at most 2KB
+// See https://atproto.com/specs/did
+export function isValidDid(value: string): boolean {
+  return (
+    value.length <= 2 * 1024 &&
+    /^did:[a-z]+:[a-zA-Z0-9._:%-]*[a-zA-Z0-9._-]$/.test(value)
+  );
+}
+
+// Handle: a domain name with at least two labels, at most 253 chars, TLD starting with a letter
+// See https://atproto.com/specs/handle
+export function isValidHandle(value: string): boolean {
+  return (
+    value.length <= 253 &&
+    /^([a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?$/.test(value)
+  );
+}
+
+export function isValidAtIdentifier(value: string): boolean {
+  return value.startsWith("did:") ? isValidDid(value) : isValidHandle(value);
+}
+
+// NSID: a reversed domain authority followed by a name segment of letters and digits
+// See https://atproto.com/specs/nsid
+export function isValidNsid(value: string): boolean {
+  return (
+    value.length <= 253 + 1 + 63 &&
+    /^[a-zA-Z]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)+(\.[a-zA-Z][a-zA-Z0-9]{0,62})$/.test(value)
+  );
+}
+
+// TID: 13 base32-sortable chars, the first one limited so the high bit is zero
+// See https://atproto.com/specs/tid
+export function isValidTid(value: string): boolean {
+  return /^[234567abcdefghij][234567abcdefghijklmnopqrstuvwxyz]{12}$/.test(value);
+}
+
+// Record key: 1-512 chars from a restricted set, except "." and ".."
+// See https://atproto.com/specs/record-key
+export function isValidRecordKey(value: string): boolean {
+  return value !== "." && value !== ".." && /^[a-zA-Z0-9_~.:-]{1,512}$/.test(value);
+}
+
+// Datetime: the intersection of RFC 3339 and ISO 8601, with a required timezone
+// See https://atproto.com/specs/lexicon#datetime
+export function isValidDatetime(value: string): boolean {
+  if (
+    value.length > 64 ||
+    !/^[0-9]{4}-[01][0-9]-[0-3][0-9]T[0-2][0-9]:[0-6][0-9]:[0-6][0-9](\.[0-9]{1,20})?(Z|([+-][0-2][0-9]:[0-5][0-9]))$/.test(value)
+  ) {
+    return false;
+  }
+  // "-00:00" is not allowed for UTC, and neither are years so close to zero
+  if (value.endsWith("-00:00") || value.startsWith("000")) {
+    return false;
+  }
+  // Date rolls days past the end of the month over into the next one
+  const [year, month, day] = value.slice(0, 10).split("-").map(Number);
+  if (day > new Date(Date.UTC(year, month, 0)).getUTCDate()) {
+    return false;
+  }
+  // Must parse, which also checks semantics like month 13
+  const date = new Date(value);
+  return !isNaN(date.getTime()) && !date.toISOString().startsWith("-");
+}
+
+// Generic URI: a scheme followed by a non-empty, whitespace-free remainder
+export function isValidUri(value: string): boolean {
+  return /^\w+:(?:\/\/)?[^\s/][^\s]*$/.test(value);
+}
+
+// AT-URI: at://<did or handle>[/<collection nsid>[/<record key>]][#/<fragment>]
+// See https://atproto.com/specs/at-uri-scheme
+export function isValidAtUri(value: string): boolean {
+  const fragmentIndex = value.indexOf("#");
+  if (fragmentIndex !== -1) {
+    // The fragment must start with a slash, and there can be only one
+    const fragment = value.slice(fragmentIndex + 1);
+    if (!/^\/[a-zA-Z0-9._~:@!$&')(*+,;=%[\]/-]*$/.test(fragment)) {
+      return false;
+    }
+  }
+
+  const uri = fragmentIndex === -1 ? value : value.slice(0, fragmentIndex);
+  if (uri.length > 8 * 1024 || !uri.startsWith("at://") || !/^[a-zA-Z0-9._~:@!$&')(*+,;=%/-]*$/.test(uri)) {
+    return false;
+  }
+
+  const [authority, ...path] = uri.slice("at://".length).split("/");
+  if (!isValidAtIdentifier(authority)) {
+    return false;
+  }
+
+  // At most a collection and a record key, without trailing slash
+  if (path.length > 2) {
+    return false;
+  }
+  const [collection, recordKey] = path;
+  if (collection !== undefined && !isValidNsid(collection)) {
+    return false;
+  }
+  return recordKey === undefined || recordKey.length > 0;
+}
+
+// CID: a string-encoded CID (v0 or v1)
+// See https://atproto.com/specs/data-model#link-and-cid-formats
+export function isValidCid(value: string): boolean {
+  try {
+    CID.parse(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Language: a well-formed BCP 47 language tag
+// See https://www.rfc-editor.org/rfc/rfc5646.html#section-2.1
+const BCP47_REGEX = /^((en-GB-oed|i-ami|i-bnn|i-default|i-enochian|i-hak|i-klingon|i-lux|i-mingo|i-navajo|i-pwn|i-tao|i-tay|i-tsu|sgn-BE-FR|sgn-BE-NL|sgn-CH-DE)|(art-lojban|cel-gaulish|no-bok|no-nyn|zh-guoyu|zh-hakka|zh-min|zh-min-nan|zh-xiang)|(([A-Za-z]{2,3}(-[A-Za-z]{3}(-[A-Za-z]{3}){0,2})?|[A-Za-z]{4}|[A-Za-z]{5,8})(-[A-Za-z]{4})?(-([A-Za-z]{2}|[0-9]{3}))?(-([A-Za-z0-9]{5,8}|[0-9][A-Za-z0-9]{3}))*(-[0-9A-WY-Za-wy-z](-[A-Za-z0-9]{2,8})+)*(-x(-[A-Za-z0-9]{1,8})+)?)|(x(-[A-Za-z0-9]{1,8})+))$/;
+
+export function isValidLanguage(value: string): boolean {
+  return BCP47_REGEX.test(value);
+}
+
+export const formatValidators: Record<StringFormat, (value: string) => boolean> = {
+  "datetime": isValidDatetime,
+  "uri": isValidUri,
+  "at-uri": isValidAtUri,
+  "did": isValidDid,
+  "handle": isValidHandle,
+  "at-identifier": isValidAtIdentifier,
+  "nsid": isValidNsid,
+  "cid": isValidCid,
+  "language": isValidLanguage,
+  "tid": isValidTid,
+  "record-key": isValidRecordKey,
+};
@@ -83,6 +83,27 @@ describe("convertString", () => {
     expect(v.safeParse(schema, "hello!").success).toBe(false);
   });
 
+  it("measures minLength/maxLength in UTF-8 bytes", () => {
+    const schema = convertString({ type: "string", minLength: 4, maxLength: 6 });
+    // "é" is 1 UTF-16 code unit but 2 UTF-8 bytes
+    expect(v.safeParse(schema, "éé").success).toBe(true);
+    expect(v.safeParse(schema, "é").success).toBe(false);
+    // "日本" is 2 UTF-16 code units but 6 UTF-8 bytes
+    expect(v.safeParse(schema, "日本").success).toBe(true);
+    expect(v.safeParse(schema, "日本a").success).toBe(false);
+    // "😀" is 2 UTF-16 code units but 4 UTF-8 bytes
+    expect(v.safeParse(schema, "😀").success).toBe(true);
+    expect(v.safeParse(schema, "😀😀").success).toBe(false);
+  });
+
+  it("names the violated unit in length errors", () => {
+    const bytes = convertString({ type: "string", maxLength: 3 });
+    expect(v.safeParse(bytes, "😀").issues?.[0].message).toBe("String must have at most 3 UTF-8 byte(s)");
+
+    const graphemes = convertString({ type: "string", maxGraphemes: 1 });
+    expect(v.safeParse(graphemes, "ab").issues?.[0].message).toBe("String must have at most 1 grapheme(s)");
+  });
+
   it("handles enum constraint", () => {
     const schema = convertString({ type: "string", enum: ["a", "b", "c"] });
     expect(v.safeParse(schema, "a").success).toBe(true);
@@ -154,13 +175,14 @@ describe("convertString", () => {
 });
 
 describe("convertUnknown", () => {
-  it("accepts any value", () => {
+  it("accepts any object", () => {
     const schema = convertUnknown({ type: "unknown" });
-    expect(v.safeParse(schema, "string").success).toBe(true);
-    expect(v.safeParse(schema, 42).success).toBe(true);
     expect(v.safeParse(schema, { foo: "bar" }).success).toBe(true);
-    expect(v.safeParse(schema, null).success).toBe(true);
-    expect(v.safeParse(schema, undefined).success).toBe(true);
+    expect(v.safeParse(schema, {}).success).toBe(true);
+    expect(v.safeParse(schema, "string").success).toBe(false);
+    expect(v.safeParse(schema, 42).success).toBe(false);
+    expect(v.safeParse(schema, null).success).toBe(false);
+    expect(v.safeParse(schema, undefined).success).toBe(false);
   });
 });
 
@@ -186,4 +208,23 @@ describe("convertBytes", () => {
     expect(v.safeParse(schema, new Uint8Array([1])).success).toBe(true);
     expect(v.safeParse(schema, new Uint8Array([1, 2, 3, 4])).success).toBe(false);
   });
+
+  it("validates $bytes base64 in wire format", () => {
+    const schema = convertBytes({ type: "bytes" }, "wire");
+    expect(v.safeParse(schema, { $bytes: "AQID" }).success).toBe(true);
+    expect(v.safeParse(schema, { $bytes: "AQI" }).success).toBe(true);
+    expect(v.safeParse(schema, { $bytes: "AQI=" }).success).toBe(true);
+    expect(v.safeParse(schema, { $bytes: "" }).success).toBe(true);
+    expect(v.safeParse(schema, { $bytes: "not base64!" }).success).toBe(false);
+    expect(v.safeParse(schema, { $bytes: "A" }).success).toBe(false);
+    expect(v.safeParse(schema, new Uint8Array([1, 2, 3])).success).toBe(false);
+  });
+
+  it("checks the decoded size in wire format", () => {
+    const schema = convertBytes({ type: "bytes", minLength: 2, maxLength: 3 }, "wire");
+    expect(v.safeParse(schema, { $bytes: "AQ" }).success).toBe(false); // 1 byte
+    expect(v.safeParse(schema, { $bytes: "AQI" }).success).toBe(true); // 2 bytes
+    expect(v.safeParse(schema, { $bytes: "AQID" }).success).toBe(true); // 3 bytes
+    expect(v.safeParse(schema, { $bytes: "AQIDBA==" }).success).toBe(false); // 4 bytes
+  });
 });
@@ -1,5 +1,6 @@
 import * as v from "valibot";
-import type { LexBoolean, LexInteger, LexString, LexUnknown, LexBytes } from "../types.js";
+import { formatValidators } from "./formats.js";
+import type { BlobFormat, ConverterContext, LexBoolean, LexInteger, LexString, LexUnknown, LexBytes } from "../types.js";
 
 export function convertBoolean(schema: LexBoolean): v.GenericSchema {
   if (schema.const !== undefined) {
@@ -31,18 +32,28 @@ export function convertInteger(schema: LexInteger): v.GenericSchema {
 
 const graphemeSegmenter = new Intl.Segmenter("en", { granularity: "grapheme" });
 
-function countGraphemes(str: string): number {
+export function countGraphemes(str: string): number {
   return [...graphemeSegmenter.segment(str)].length;
 }
 
-export function convertString(schema: LexString): v.GenericSchema {
+// Expand a local token ref in knownValues (#tokenName) to its full nsid#tokenName form
+export function expandKnownValue(value: string, lexiconId: string): string {
+  return value.startsWith("#") ? `${lexiconId}${value}` : value;
+}
+
+export function convertString(schema: LexString, ctx?: ConverterContext): v.GenericSchema {
   const checks: v.PipeItem<string, string, v.BaseIssue<unknown>>[] = [];
 
+  // Lexicon string lengths are UTF-8 byte lengths, not UTF-16 code units
   if (schema.minLength !== undefined) {
-    checks.push(v.minLength(schema.minLength));
+    checks.push(
+      v.minBytes(schema.minLength, `String must have at least ${schema.minLength} UTF-8 byte(s)`)
+    );
   }
   if (schema.maxLength !== undefined) {
-    checks.push(v.maxLength(schema.maxLength));
+    checks.push(
+      v.maxBytes(schema.maxLength, `String must have at most ${schema.maxLength} UTF-8 byte(s)`)
+    );
   }
 
   if (schema.minGraphemes !== undefined) {
@@ -72,42 +83,23 @@ export function convertString(schema: LexString): v.GenericSchema {
     return v.literal(schema.const);
   }
 
+  // knownValues are open by default - only enforced in strict mode
+  if (schema.knownValues !== undefined && schema.knownValues.length > 0 && ctx?.knownValues === 'strict') {
+    const knownValues = schema.knownValues.map((value) => expandKnownValue(value, ctx.lexiconId));
+    const knownSet = new Set(knownValues);
+    checks.push(
+      v.check(
+        (value) => knownSet.has(value),
+        `String must be one of the known values: ${knownValues.join(", ")}`
+      )
+    );
+  }
+
   if (schema.format !== undefined) {
-    switch (schema.format) {
-      case "datetime":
-        checks.push(v.isoTimestamp());
-        break;
-      case "uri":
-        checks.push(v.url());
-        break;
-      case "at-uri":
-        checks.push(v.regex(/^at:\/\/[a-zA-Z0-9._:%-]+\/[a-zA-Z0-9.]+\/[a-zA-Z0-9._~:@!$&')(*+,;=-]+$/));
-        break;
-      case "did":
-        checks.push(v.regex(/^did:[a-z]+:[a-zA-Z0-9._:%-]*[a-zA-Z0-9._-]$/));
-        break;
-      case "handle":
-        checks.push(v.regex(/^([a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?$/));
-        break;
-      case "nsid":
-        checks.push(v.regex(/^[a-zA-Z]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)+(\.[a-zA-Z]([a-zA-Z]{0,61}[a-zA-Z])?)$/));
-        break;
-      case "cid":
-        checks.push(v.regex(/^[a-zA-Z0-9+/=]+$/));
-        break;
-      case "tid":
-        checks.push(v.regex(/^[234567abcdefghijklmnopqrstuvwxyz]{13}$/));
-        break;
-      case "record-key":
-        checks.push(v.regex(/^[a-zA-Z0-9._:~-]+$/));
-        break;
-      case "language":
-        checks.push(v.regex(/^[a-zA-Z]{2,3}(-[a-zA-Z0-9]+)*$/));
-        break;
-      case "at-identifier":
-        // at-identifier can be a handle or a DID
-        checks.push(v.regex(/^(did:[a-z]+:[a-zA-Z0-9._:%-]*[a-zA-Z0-9._-]|([a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)$/));
-        break;
+    const format = schema.format;
+    const isValid = formatValidators[format];
+    if (isValid) {
+      checks.push(v.check(isValid, `String must be a valid ${format}`));
     }
   }
 
@@ -118,12 +110,28 @@ export function convertString(schema: LexString): v.GenericSchema {
   return v.pipe(v.string(), ...checks);
 }
 
+// Unknown data is not checked further, but must be an object - as @atproto/lexicon requires
+const unknownSchema = v.custom<unknown>((value) => typeof value === "object" && value !== null, "Expected an object");
+
 export function convertUnknown(_schema: LexUnknown): v.GenericSchema {
-  return v.unknown();
+  return unknownSchema;
+}
+
+// Wire format: bytes are encoded as { $bytes: "<base64>" }, padding optional
+// See https://atproto.com/specs/data-model#bytes
+const BASE64_REGEX = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}(?:==)?|[A-Za-z0-9+/]{3}=?)?$/;
+
+// Size of the decoded bytes, without decoding
+export function getBase64Size(value: string): number {
+  const length = value.replace(/=+$/, "").length;
+  return Math.floor((length * 3) / 4);
 }
 
-export function convertBytes(schema: LexBytes): v.GenericSchema {
-  const baseSchema = v.instance(Uint8Array);
+export function convertBytes(schema: LexBytes, format: BlobFormat = 'sdk'): v.GenericSchema {
+  const baseSchema: v.GenericSchema<Uint8Array | { $bytes: string }> =
+    format === 'sdk'
+      ? v.instance(Uint8Array)
+      : v.object({ $bytes: v.pipe(v.string(), v.regex(BASE64_REGEX, "Bytes must be base64 encoded")) });
 
   if (schema.minLength === undefined && schema.maxLength === undefined) {
     return baseSchema;
@@ -132,10 +140,11 @@ export function convertBytes(schema: LexBytes): v.GenericSchema {
   return v.pipe(
     baseSchema,
     v.check((value) => {
-      if (schema.minLength !== undefined && value.length < schema.minLength) {
+      const length = value instanceof Uint8Array ? value.length : getBase64Size(value.$bytes);
+      if (schema.minLength !== undefined && length < schema.minLength) {
         return false;
       }
-      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      if (schema.maxLength !== undefined && length > schema.maxLength) {
         return false;
       }
       return true;
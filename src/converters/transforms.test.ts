@@ -0,0 +1,75 @@
+import { BlobRef } from "@atproto/lexicon";
+import { CID } from "multiformats/cid";
+import * as v from "valibot";
+import { describe, expect, it } from "vitest";
+import { convertBlob, convertCidLink } from "./atproto.js";
+import { convertBytes } from "./primitives.js";
+import { fromWireTransforms } from "../wire.js";
+import { toWireTransforms, withTransform } from "./transforms.js";
+
+const cid = "bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku";
+
+describe("withTransform", () => {
+  it("returns the schema unchanged without a transform", () => {
+    const schema = convertBytes({ type: "bytes" });
+    expect(withTransform(schema, "bytes", undefined)).toBe(schema);
+  });
+
+  it("transforms blobs to wire", () => {
+    const schema = withTransform(convertBlob({ type: "blob" }, "sdk"), "blob", toWireTransforms);
+    const blob = new BlobRef(CID.parse(cid) as never, "image/png", 1000);
+
+    expect(v.parse(schema, blob)).toEqual({
+      $type: "blob",
+      ref: { $link: cid },
+      mimeType: "image/png",
+      size: 1000,
+    });
+  });
+
+  it("passes untyped blob refs through to wire", () => {
+    const toWire = withTransform(convertBlob({ type: "blob" }, "sdk"), "blob", toWireTransforms);
+    expect(v.parse(toWire, { cid, mimeType: "image/png" })).toEqual({ cid, mimeType: "image/png" });
+  });
+
+  it("upgrades untyped blob refs from wire", () => {
+    const fromWire = withTransform(convertBlob({ type: "blob" }, "wire"), "blob", fromWireTransforms);
+    const blob = v.parse(fromWire, { cid, mimeType: "image/png" });
+    expect(blob).toBeInstanceOf(BlobRef);
+    expect(blob).toMatchObject({ mimeType: "image/png", size: -1 });
+  });
+
+  it("transforms blobs from wire", () => {
+    const schema = withTransform(convertBlob({ type: "blob" }, "wire"), "blob", fromWireTransforms);
+    const blob = v.parse(schema, { $type: "blob", ref: { $link: cid }, mimeType: "image/png", size: 1000 });
+
+    expect(blob).toBeInstanceOf(BlobRef);
+    expect(blob).toMatchObject({ mimeType: "image/png", size: 1000 });
+    expect((blob as BlobRef).ref.toString()).toBe(cid);
+  });
+
+  it("transforms bytes in both directions", () => {
+    const toWire = withTransform(convertBytes({ type: "bytes" }, "sdk"), "bytes", toWireTransforms);
+    const fromWire = withTransform(convertBytes({ type: "bytes" }, "wire"), "bytes", fromWireTransforms);
+
+    expect(v.parse(toWire, new Uint8Array([1, 2, 3]))).toEqual({ $bytes: "AQID" });
+    expect(v.parse(toWire, new Uint8Array([1, 2]))).toEqual({ $bytes: "AQI" });
+    expect(v.parse(fromWire, { $bytes: "AQID" })).toEqual(new Uint8Array([1, 2, 3]));
+    expect(v.parse(fromWire, { $bytes: "AQI" })).toEqual(new Uint8Array([1, 2]));
+    expect(v.parse(fromWire, { $bytes: "AQI=" })).toEqual(new Uint8Array([1, 2]));
+  });
+
+  it("transforms cid-links in both directions", () => {
+    const toWire = withTransform(convertCidLink({ type: "cid-link" }, "sdk"), "cid-link", toWireTransforms);
+    const fromWire = withTransform(convertCidLink({ type: "cid-link" }, "wire"), "cid-link", fromWireTransforms);
+
+    expect(v.parse(toWire, CID.parse(cid))).toEqual({ $link: cid });
+    const link = v.parse(fromWire, { $link: cid });
+    expect(CID.asCID(link)?.toString()).toBe(cid);
+  });
+
+  it("validates before transforming", () => {
+    const schema = withTransform(convertBytes({ type: "bytes", maxLength: 2 }, "sdk"), "bytes", toWireTransforms);
+    expect(v.safeParse(schema, new Uint8Array([1, 2, 3])).success).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+import type { BlobRef } from "@atproto/lexicon";
+import { CID } from "multiformats/cid";
+import * as v from "valibot";
+import type { WireTransforms } from "../types.js";
+import type { UntypedBlobRef, WireBlobRef } from "./atproto.js";
+
+// Transformations between the SDK and wire (JSON) representations of blobs, bytes and cid-links
+// See https://atproto.com/specs/data-model#json-representation
+// Wire blobs become BlobRef instances in the ./wire subpath, keeping @atproto/lexicon out of the main entry
+
+function isUntypedBlobRef(value: BlobRef | WireBlobRef | UntypedBlobRef): value is UntypedBlobRef {
+  return "cid" in value;
+}
+
+// SDK BlobRef -> typed wire blob ref - untyped blob refs are valid on the wire and pass through,
+// rather than becoming typed refs with a made-up size
+function blobToWire(value: BlobRef | UntypedBlobRef): WireBlobRef | UntypedBlobRef {
+  if (isUntypedBlobRef(value)) {
+    return value;
+  }
+  return { $type: "blob", ref: { $link: value.ref.toString() }, mimeType: value.mimeType, size: value.size };
+}
+
+// Bytes are encoded as base64 without padding
+function bytesToWire(value: Uint8Array): { $bytes: string } {
+  let binary = "";
+  for (const byte of value) {
+    binary += String.fromCharCode(byte);
+  }
+  return { $bytes: btoa(binary).replace(/=+$/, "") };
+}
+
+export function bytesFromWire(value: { $bytes: string }): Uint8Array {
+  const base64 = value.$bytes.replace(/=+$/, "");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function cidLinkToWire(value: CID): { $link: string } {
+  return { $link: value.toString() };
+}
+
+export function cidLinkFromWire(value: { $link: string }): CID {
+  return CID.parse(value.$link);
+}
+
+export const toWireTransforms: WireTransforms<'toWire'> = {
+  direction: 'toWire',
+  blob: blobToWire,
+  bytes: bytesToWire,
+  "cid-link": cidLinkToWire,
+};
+
+type TransformedType = Exclude<keyof WireTransforms, "direction">;
+
+/**
+ * Pipe a validated blob, bytes or cid-link value into its representation in the other format.
+ * Returns the schema unchanged when no transforms are set.
+ */
+export function withTransform(
+  schema: v.GenericSchema,
+  type: TransformedType,
+  transforms: WireTransforms | undefined
+): v.GenericSchema {
+  if (transforms === undefined) {
+    return schema;
+  }
+  const action = transforms[type] as (value: unknown) => unknown;
+  return v.pipe(schema, v.transform(action));
+}
@@ -1,12 +1,12 @@
 import { describe, it, expect, expectTypeOf } from "vitest";
 import * as v from "valibot";
-import { xrpcToValibot } from "../index.js";
+import { matchesEncoding, serializeParams, xrpcToValibot, type BinaryBody } from "../index.js";
 
 describe("XRPC Query", () => {
   it("converts query with parameters and output", () => {
     const lexicon = {
       lexicon: 1,
-      id: "test.query",
+      id: "com.test.query",
       defs: {
         main: {
           type: "query",
@@ -50,7 +50,7 @@ describe("XRPC Query", () => {
   it("handles query with no parameters", () => {
     const lexicon = {
       lexicon: 1,
-      id: "test.queryNoParams",
+      id: "com.test.queryNoParams",
       defs: {
         main: {
           type: "query",
@@ -75,11 +75,256 @@ describe("XRPC Query", () => {
   });
 });
 
+describe("XRPC parameters defaults", () => {
+  it("applies defaults to missing parameters", () => {
+    const lexicon = {
+      lexicon: 1,
+      id: "com.test.queryDefaults",
+      defs: {
+        main: {
+          type: "query",
+          parameters: {
+            type: "params",
+            properties: {
+              limit: { type: "integer", minimum: 1, maximum: 100, default: 50 },
+              reverse: { type: "boolean", default: false },
+              cursor: { type: "string" },
+            },
+          },
+        },
+      },
+    } as const;
+
+    const { main } = xrpcToValibot(lexicon);
+
+    expect(v.parse(main.parameters, {})).toEqual({ limit: 50, reverse: false });
+    expect(v.parse(main.parameters, { limit: 10, cursor: "abc" })).toEqual({
+      limit: 10,
+      reverse: false,
+      cursor: "abc",
+    });
+
+    type Params = v.InferOutput<typeof main.parameters>;
+
+    expectTypeOf<Params>().toEqualTypeOf<{ limit: number; reverse: boolean; cursor?: string }>();
+  });
+
+  it("fills missing required parameters with their default", () => {
+    const lexicon = {
+      lexicon: 1,
+      id: "com.test.requiredDefaults",
+      defs: {
+        main: {
+          type: "query",
+          parameters: {
+            type: "params",
+            required: ["limit", "actor"],
+            properties: {
+              limit: { type: "integer", default: 50 },
+              actor: { type: "string" },
+            },
+          },
+        },
+      },
+    } as const;
+
+    const { main } = xrpcToValibot(lexicon);
+
+    expect(v.parse(main.parameters, { actor: "alice" })).toEqual({ limit: 50, actor: "alice" });
+    expect(v.safeParse(main.parameters, { limit: 10 }).success).toBe(false);
+  });
+});
+
+describe("XRPC query-string parameters", () => {
+  const lexicon = {
+    lexicon: 1,
+    id: "com.test.queryString",
+    defs: {
+      main: {
+        type: "query",
+        parameters: {
+          type: "params",
+          required: ["actor"],
+          properties: {
+            actor: { type: "string", format: "did" },
+            limit: { type: "integer", minimum: 1, maximum: 100, default: 50 },
+            includePins: { type: "boolean", default: false },
+            ids: { type: "array", items: { type: "integer" } },
+            tags: { type: "array", items: { type: "string" }, maxLength: 2 },
+          },
+        },
+      },
+    },
+  } as const;
+
+  const { main } = xrpcToValibot(lexicon);
+
+  it("coerces URLSearchParams to the param types", () => {
+    const params = new URLSearchParams("actor=did:plc:abc&limit=10&includePins=true&ids=1&ids=2&tags=a&other=x");
+    expect(v.parse(main.parseParams, params)).toEqual({
+      actor: "did:plc:abc",
+      limit: 10,
+      includePins: true,
+      ids: [1, 2],
+      tags: ["a"],
+    });
+  });
+
+  it("coerces records and applies defaults", () => {
+    expect(v.parse(main.parseParams, { actor: "did:plc:abc", ids: "3" })).toEqual({
+      actor: "did:plc:abc",
+      limit: 50,
+      includePins: false,
+      ids: [3],
+    });
+    expect(v.parse(main.parseParams, { actor: "did:plc:abc", tags: ["a", "b"], includePins: "false" })).toMatchObject({
+      tags: ["a", "b"],
+      includePins: false,
+    });
+  });
+
+  it("rejects values that do not coerce", () => {
+    const parse = (query: string) => v.safeParse(main.parseParams, new URLSearchParams(query)).success;
+    expect(parse("actor=did:plc:abc")).toBe(true);
+    expect(parse("")).toBe(false);
+    expect(parse("actor=did:plc:abc&limit=ten")).toBe(false);
+    expect(parse("actor=did:plc:abc&limit=1.5")).toBe(false);
+    expect(parse("actor=did:plc:abc&limit=0")).toBe(false);
+    expect(parse("actor=did:plc:abc&includePins=yes")).toBe(false);
+    expect(parse("actor=did:plc:abc&actor=did:plc:def")).toBe(false);
+    expect(parse("actor=did:plc:abc&tags=a&tags=b&tags=c")).toBe(false);
+    expect(v.safeParse(main.parseParams, { actor: 1 }).success).toBe(false);
+  });
+
+  it("infers the params type", () => {
+    expectTypeOf<v.InferOutput<typeof main.parseParams>>().toEqualTypeOf<v.InferOutput<typeof main.parameters>>();
+  });
+
+  it("serializes typed params to a query string", () => {
+    const params = serializeParams({ actor: "did:plc:abc", limit: 10, includePins: false, ids: [1, 2], cursor: undefined });
+    expect(params.toString()).toBe("actor=did%3Aplc%3Aabc&limit=10&includePins=false&ids=1&ids=2");
+    expect(v.parse(main.parseParams, params)).toEqual({ actor: "did:plc:abc", limit: 10, includePins: false, ids: [1, 2] });
+  });
+});
+
+describe("XRPC errors", () => {
+  const lexicon = {
+    lexicon: 1,
+    id: "com.test.errors",
+    defs: {
+      main: {
+        type: "procedure",
+        errors: [{ name: "InvalidSwap" }, { name: "RecordNotFound", description: "No record at the uri" }],
+      },
+      noErrors: { type: "query" },
+    },
+  } as const;
+
+  const { main, noErrors } = xrpcToValibot(lexicon);
+
+  it("lists the declared error names", () => {
+    expect(main.errors).toEqual(["InvalidSwap", "RecordNotFound"]);
+    expect(noErrors.errors).toEqual([]);
+  });
+
+  it("validates error response bodies", () => {
+    expect(v.parse(main.error, { error: "InvalidSwap", message: "Record was updated" })).toEqual({
+      error: "InvalidSwap",
+      message: "Record was updated",
+    });
+    // Services also report errors the method does not declare
+    expect(v.safeParse(main.error, { error: "AuthRequired" }).success).toBe(true);
+    expect(v.safeParse(main.error, { message: "Missing name" }).success).toBe(false);
+    expect(v.safeParse(main.error, { error: "InvalidSwap", message: 1 }).success).toBe(false);
+  });
+
+  it("infers the declared error names", () => {
+    type ErrorName = (typeof main.errors)[number];
+    expectTypeOf<ErrorName>().toEqualTypeOf<"InvalidSwap" | "RecordNotFound">();
+    expectTypeOf<(typeof noErrors.errors)[number]>().toEqualTypeOf<never>();
+
+    const body = v.parse(main.error, { error: "InvalidSwap" });
+    expectTypeOf(body.error).toMatchTypeOf<string>();
+    expectTypeOf<"InvalidSwap">().toMatchTypeOf<typeof body.error>();
+    expectTypeOf(body.message).toEqualTypeOf<string | undefined>();
+  });
+});
+
+describe("XRPC body encodings", () => {
+  const lexicon = {
+    lexicon: 1,
+    id: "com.test.encodings",
+    defs: {
+      uploadBlob: {
+        type: "procedure",
+        input: { encoding: "*/*" },
+        output: {
+          encoding: "application/json",
+          schema: { type: "object", required: ["size"], properties: { size: { type: "integer" } } },
+        },
+      },
+      getRepo: { type: "query", output: { encoding: "application/vnd.ipld.car" } },
+      setAvatar: { type: "procedure", input: { encoding: "image/*" } },
+      ping: { type: "query" },
+    },
+  } as const;
+
+  const { uploadBlob, getRepo, setAvatar, ping } = xrpcToValibot(lexicon);
+  const bytes = new Uint8Array([1, 2, 3]);
+
+  it("matches content types against encodings", () => {
+    expect(matchesEncoding("*/*", undefined)).toBe(true);
+    expect(matchesEncoding("image/*", "image/png")).toBe(true);
+    expect(matchesEncoding("image/*", "text/plain")).toBe(false);
+    expect(matchesEncoding("application/json", "application/json; charset=utf-8")).toBe(true);
+    expect(matchesEncoding("application/json", "Application/JSON")).toBe(true);
+    expect(matchesEncoding("application/json", "text/json")).toBe(false);
+    expect(matchesEncoding("application/json", null)).toBe(false);
+  });
+
+  it("exposes the declared encodings", () => {
+    expect(uploadBlob.inputEncoding).toBe("*/*");
+    expect(uploadBlob.outputEncoding).toBe("application/json");
+    expect(getRepo.outputEncoding).toBe("application/vnd.ipld.car");
+    expect(ping.outputEncoding).toBeUndefined();
+  });
+
+  it("validates non-JSON bodies as binary", () => {
+    expect(v.is(uploadBlob.input, bytes)).toBe(true);
+    expect(v.is(uploadBlob.input, new Blob([bytes]))).toBe(true);
+    expect(v.is(getRepo.output, new ReadableStream())).toBe(true);
+    expect(v.is(getRepo.output, { blocks: [] })).toBe(false);
+    expect(v.is(getRepo.output, "bytes")).toBe(false);
+  });
+
+  it("validates bodies with their content type", () => {
+    expect(v.parse(uploadBlob.parseOutput, { contentType: "application/json", body: { size: 3 } })).toEqual({ size: 3 });
+    expect(v.parse(uploadBlob.parseInput, { contentType: "video/mp4", body: bytes })).toBe(bytes);
+    expect(v.is(setAvatar.parseInput, { contentType: "image/png", body: bytes })).toBe(true);
+    expect(v.is(getRepo.parseOutput, { contentType: "application/vnd.ipld.car", body: bytes })).toBe(true);
+    expect(v.is(ping.parseOutput, { body: "anything" })).toBe(true);
+
+    const wrongType = v.safeParse(uploadBlob.parseOutput, { contentType: "text/plain", body: { size: 3 } });
+    expect(wrongType.issues?.[0].message).toBe("Invalid Content-Type: expected application/json but received text/plain");
+    expect(v.is(uploadBlob.parseOutput, { body: { size: 3 } })).toBe(false);
+    expect(v.is(setAvatar.parseInput, { contentType: "text/plain", body: bytes })).toBe(false);
+    expect(v.is(uploadBlob.parseOutput, { contentType: "application/json", body: { size: "3" } })).toBe(false);
+  });
+
+  it("infers body types from the encoding", () => {
+    expectTypeOf<v.InferOutput<typeof uploadBlob.input>>().toEqualTypeOf<BinaryBody>();
+    expectTypeOf<v.InferOutput<typeof uploadBlob.parseOutput>>().toEqualTypeOf<{ size: number }>();
+    expectTypeOf<v.InferOutput<typeof getRepo.output>>().toEqualTypeOf<BinaryBody>();
+    expectTypeOf(uploadBlob.inputEncoding).toEqualTypeOf<"*/*">();
+    expectTypeOf(ping.outputEncoding).toEqualTypeOf<undefined>();
+  });
+});
+
 describe("XRPC Procedure", () => {
   it("converts procedure with input and output", () => {
     const lexicon = {
       lexicon: 1,
-      id: "test.procedure",
+      id: "com.test.procedure",
       defs: {
         main: {
           type: "procedure",
@@ -134,7 +379,7 @@ describe("XRPC Procedure", () => {
   it("handles procedure with parameters", () => {
     const lexicon = {
       lexicon: 1,
-      id: "test.procedureWithParams",
+      id: "com.test.procedureWithParams",
       defs: {
         main: {
           type: "procedure",
@@ -181,7 +426,7 @@ describe("XRPC Subscription", () => {
   it("converts subscription with message schema", () => {
     const lexicon = {
       lexicon: 1,
-      id: "test.subscription",
+      id: "com.test.subscription",
       defs: {
         main: {
           type: "subscription",
@@ -218,7 +463,7 @@ describe("XRPC type inference", () => {
   it("infers query types correctly", () => {
     const lexicon = {
       lexicon: 1,
-      id: "test.queryTypes",
+      id: "com.test.queryTypes",
       defs: {
         main: {
           type: "query",
@@ -256,7 +501,7 @@ describe("XRPC type inference", () => {
   it("infers procedure types correctly", () => {
     const lexicon = {
       lexicon: 1,
-      id: "test.procedureTypes",
+      id: "com.test.procedureTypes",
       defs: {
         main: {
           type: "procedure",
@@ -1,25 +1,123 @@
 import * as v from "valibot";
+import { matchesAccept } from "./atproto.js";
+import { convertOptional, hasDefault } from "./complex.js";
 import type { LexXrpcQuery, LexXrpcProcedure, LexXrpcSubscription, ConverterContext } from "../types.js";
 
+/** Query-string parameters, as parsed from a URL or by a framework. */
+export type QueryParamsInput = URLSearchParams | Record<string, string | string[]>;
+
+/** Body of an XRPC error response - declared error names, or any other the service reports. */
+export interface XrpcErrorBody<Name extends string = string> {
+  error: Name | (string & {});
+  message?: string;
+}
+
+/** An XRPC request or response body with its Content-Type header. */
+export interface XrpcBodyInput {
+  contentType?: string | null;
+  body: unknown;
+}
+
+/** Bodies of non-JSON encodings, like blob uploads and CAR files. */
+export type BinaryBody = Uint8Array | Blob | ReadableStream;
+
 export interface QueryValidators {
   parameters: v.GenericSchema;
+  parseParams: v.GenericSchema<QueryParamsInput, unknown>;
   output: v.GenericSchema;
+  outputEncoding: string | undefined;
+  parseOutput: v.GenericSchema<XrpcBodyInput, unknown>;
+  errors: string[];
+  error: v.GenericSchema<unknown, XrpcErrorBody>;
 }
 
 export interface ProcedureValidators {
   parameters: v.GenericSchema;
+  parseParams: v.GenericSchema<QueryParamsInput, unknown>;
   input: v.GenericSchema;
+  inputEncoding: string | undefined;
+  parseInput: v.GenericSchema<XrpcBodyInput, unknown>;
   output: v.GenericSchema;
+  outputEncoding: string | undefined;
+  parseOutput: v.GenericSchema<XrpcBodyInput, unknown>;
+  errors: string[];
+  error: v.GenericSchema<unknown, XrpcErrorBody>;
 }
 
 export interface SubscriptionValidators {
   parameters: v.GenericSchema;
+  parseParams: v.GenericSchema<QueryParamsInput, unknown>;
   message: v.GenericSchema;
+  errors: string[];
+  error: v.GenericSchema<unknown, XrpcErrorBody>;
+}
+
+type LexParams = { type: "params"; required?: string[]; properties?: Record<string, unknown> };
+
+const queryParamsInput = v.union([
+  v.instance(URLSearchParams),
+  v.record(v.string(), v.union([v.string(), v.array(v.string())])),
+]);
+
+// Coerce a query-string value to the param's type - values that do not coerce are left for the params schema to reject
+function coerceParamValue(prop: unknown, value: string): unknown {
+  switch ((prop as { type?: string }).type) {
+    case "integer":
+      return /^-?\d+$/.test(value) ? Number(value) : value;
+    case "boolean":
+      return value === "true" ? true : value === "false" ? false : value;
+    default:
+      return value;
+  }
+}
+
+function coerceParams(params: LexParams | undefined, input: QueryParamsInput): Record<string, unknown> {
+  const entries = new Map<string, string[]>();
+  if (input instanceof URLSearchParams) {
+    for (const [key, value] of input) {
+      entries.set(key, [...(entries.get(key) ?? []), value]);
+    }
+  } else {
+    for (const [key, value] of Object.entries(input)) {
+      entries.set(key, typeof value === "string" ? [value] : value);
+    }
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, values] of entries) {
+    const prop = params?.properties?.[key];
+    if (prop === undefined) {
+      continue;
+    }
+    if ((prop as { type?: string }).type === "array") {
+      const items = (prop as { items?: unknown }).items;
+      result[key] = values.map((value) => coerceParamValue(items, value));
+    } else {
+      // Repeated keys of non-array params stay an array, which the params schema rejects
+      result[key] = values.length === 1 ? coerceParamValue(prop, values[0]) : values;
+    }
+  }
+  return result;
+}
+
+/**
+ * Serialize typed params to a query string - arrays become repeated keys, undefined params are left out.
+ */
+export function serializeParams(params: Record<string, unknown>): URLSearchParams {
+  const searchParams = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== undefined) {
+        searchParams.append(key, String(item));
+      }
+    }
+  }
+  return searchParams;
 }
 
 // Convert params object to valibot schema
 function convertParams(
-  params: { type: "params"; required?: string[]; properties?: Record<string, unknown> } | undefined,
+  params: LexParams | undefined,
   ctx: ConverterContext,
   convertType: (type: unknown, ctx: ConverterContext) => v.GenericSchema
 ): v.GenericSchema {
@@ -33,8 +131,8 @@ function convertParams(
   for (const [key, prop] of Object.entries(params.properties)) {
     let propSchema = convertType(prop, ctx);
 
-    if (!requiredSet.has(key)) {
-      propSchema = v.optional(propSchema);
+    if (!requiredSet.has(key) || hasDefault(prop)) {
+      propSchema = convertOptional(propSchema, prop);
     }
 
     properties[key] = propSchema;
@@ -43,27 +141,138 @@ function convertParams(
   return v.object(properties);
 }
 
-// Convert body (input/output/message) to valibot schema
+// Validate query-string params, coercing them to the param types before the params schema
+function convertParseParams(params: LexParams | undefined, parameters: v.GenericSchema): v.GenericSchema<QueryParamsInput, unknown> {
+  return v.pipe(
+    queryParamsInput,
+    v.transform((input): unknown => coerceParams(params, input)),
+    parameters
+  );
+}
+
+// Any XRPC error response body - the declared names are kept in `errors` for exhaustive handling
+const errorBody: v.GenericSchema<unknown, XrpcErrorBody> = v.object({
+  error: v.string(),
+  message: v.optional(v.string()),
+});
+
+// Names of the errors an XRPC method declares
+function convertErrors(errors: { name: string }[] | undefined): string[] {
+  return (errors ?? []).map(({ name }) => name);
+}
+
+/**
+ * Whether a Content-Type header matches a lexicon encoding - `*\/*` matches any type, `image/*` any image type.
+ * Parameters like `charset` are ignored.
+ */
+export function matchesEncoding(encoding: string, contentType: string | null | undefined): boolean {
+  // `*/*` also accepts a body without a Content-Type
+  if (encoding === "*/*") {
+    return true;
+  }
+  return contentType != null && matchesAccept(contentType, [encoding]);
+}
+
+export const isJsonEncoding = (encoding: string) => encoding.toLowerCase() === "application/json";
+
+const binaryBody: v.GenericSchema<unknown, BinaryBody> = v.union([
+  v.instance(Uint8Array),
+  v.instance(Blob),
+  v.instance(ReadableStream),
+]);
+
+type LexBody = { encoding?: string; schema?: unknown };
+
+// Convert body (input/output/message) to valibot schema - bodies of non-JSON encodings are binary
 function convertBody(
-  body: { schema?: unknown } | undefined,
+  body: LexBody | undefined,
   ctx: ConverterContext,
   convertType: (type: unknown, ctx: ConverterContext) => v.GenericSchema
 ): v.GenericSchema {
+  if (body?.encoding !== undefined && !isJsonEncoding(body.encoding)) {
+    return binaryBody;
+  }
   if (!body?.schema) {
     return v.unknown();
   }
   return convertType(body.schema, ctx);
 }
 
+// Validate a body together with its Content-Type, which must match the declared encoding
+function convertParseBody(body: LexBody | undefined, schema: v.GenericSchema): v.GenericSchema<XrpcBodyInput, unknown> {
+  const encoding = body?.encoding;
+  return v.pipe(
+    v.object({ contentType: v.optional(v.nullable(v.string())), body: v.unknown() }),
+    v.check(
+      ({ contentType }) => encoding === undefined || matchesEncoding(encoding, contentType),
+      (issue) => `Invalid Content-Type: expected ${encoding} but received ${issue.input.contentType ?? "none"}`
+    ),
+    v.transform(({ body }): unknown => body),
+    schema
+  );
+}
+
+/**
+ * Validators of a query from its params and output schemas - shared by convertQuery and generated modules,
+ * so both parse params, bodies and errors the same way.
+ */
+export function createQueryValidators(
+  schema: LexXrpcQuery,
+  { parameters, output }: { parameters: v.GenericSchema; output: v.GenericSchema }
+): QueryValidators {
+  return {
+    parameters,
+    parseParams: convertParseParams(schema.parameters, parameters),
+    output,
+    outputEncoding: schema.output?.encoding,
+    parseOutput: convertParseBody(schema.output, output),
+    errors: convertErrors(schema.errors),
+    error: errorBody,
+  };
+}
+
+/** Validators of a procedure from its params, input and output schemas. */
+export function createProcedureValidators(
+  schema: LexXrpcProcedure,
+  { parameters, input, output }: { parameters: v.GenericSchema; input: v.GenericSchema; output: v.GenericSchema }
+): ProcedureValidators {
+  return {
+    parameters,
+    parseParams: convertParseParams(schema.parameters, parameters),
+    input,
+    inputEncoding: schema.input?.encoding,
+    parseInput: convertParseBody(schema.input, input),
+    output,
+    outputEncoding: schema.output?.encoding,
+    parseOutput: convertParseBody(schema.output, output),
+    errors: convertErrors(schema.errors),
+    error: errorBody,
+  };
+}
+
+/** Validators of a subscription from its params and message schemas. */
+export function createSubscriptionValidators(
+  schema: LexXrpcSubscription,
+  { parameters, message }: { parameters: v.GenericSchema; message: v.GenericSchema }
+): SubscriptionValidators {
+  return {
+    parameters,
+    parseParams: convertParseParams(schema.parameters, parameters),
+    message,
+    errors: convertErrors(schema.errors),
+    error: errorBody,
+  };
+}
+
 export function convertQuery(
   schema: LexXrpcQuery,
   ctx: ConverterContext,
   convertType: (type: unknown, ctx: ConverterContext) => v.GenericSchema
 ): QueryValidators {
-  return {
+  return createQueryValidators(schema, {
     parameters: convertParams(schema.parameters, ctx, convertType),
     output: convertBody(schema.output, ctx, convertType),
-  };
+  });
 }
 
 export function convertProcedure(
@@ -71,11 +280,11 @@ export function convertProcedure(
   ctx: ConverterContext,
   convertType: (type: unknown, ctx: ConverterContext) => v.GenericSchema
 ): ProcedureValidators {
-  return {
+  return createProcedureValidators(schema, {
     parameters: convertParams(schema.parameters, ctx, convertType),
     input: convertBody(schema.input, ctx, convertType),
     output: convertBody(schema.output, ctx, convertType),
-  };
+  });
 }
 
 export function convertSubscription(
@@ -83,8 +292,8 @@ export function convertSubscription(
   ctx: ConverterContext,
   convertType: (type: unknown, ctx: ConverterContext) => v.GenericSchema
 ): SubscriptionValidators {
-  return {
+  return createSubscriptionValidators(schema, {
     parameters: convertParams(schema.parameters, ctx, convertType),
     message: convertBody(schema.message, ctx, convertType),
-  };
+  });
 }
@@ -1,6 +1,13 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, expectTypeOf, vi } from "vitest";
 import * as v from "valibot";
-import { lexiconToValibot, type LexiconInput } from "./index.js";
+import {
+  findUnresolvedRefs,
+  lexiconToValibot,
+  recordKeysToValibot,
+  xrpcToValibot,
+  type LexiconInput,
+} from "./index.js";
+import { toWire } from "./wire.js";
 
 describe("lexiconToValibot", () => {
   it("converts a simple record lexicon", () => {
@@ -195,16 +202,22 @@ describe("lexiconToValibot", () => {
 
     expect(
       v.safeParse(validators.main, {
-        content: { text: "Hello" },
+        content: { $type: "com.example.unionTest#textContent", text: "Hello" },
       }).success
     ).toBe(true);
 
     expect(
       v.safeParse(validators.main, {
-        content: { url: "https://example.com/image.jpg" },
+        content: { $type: "com.example.unionTest#imageContent", url: "https://example.com/image.jpg" },
       }).success
     ).toBe(true);
 
+    expect(
+      v.safeParse(validators.main, {
+        content: { $type: "com.example.unionTest#imageContent", text: "Hello" },
+      }).success
+    ).toBe(false);
+
     expect(
       v.safeParse(validators.main, {
         content: { other: "field" },
@@ -240,6 +253,24 @@ describe("lexiconToValibot", () => {
     ).toBe(true);
 
     expect(v.safeParse(validators.main, {}).success).toBe(true);
+
+    // Wrong MIME type, too large
+    expect(
+      v.safeParse(validators.main, {
+        avatar: { $type: "blob", ref: { $link: "bafkreiexample" }, mimeType: "video/mp4", size: 5000 },
+      }).success
+    ).toBe(false);
+    expect(
+      v.safeParse(validators.main, {
+        avatar: { $type: "blob", ref: { $link: "bafkreiexample" }, mimeType: "image/png", size: 1000001 },
+      }).success
+    ).toBe(false);
+
+    // Untyped blob refs, per policy
+    const legacy = { avatar: { cid: "bafkreiexample", mimeType: "image/png" } };
+    expect(v.safeParse(validators.main, legacy).success).toBe(true);
+    const strict = lexiconToValibot(lexicon, { format: "wire", untypedBlobs: "reject" });
+    expect(v.safeParse(strict.main, legacy).success).toBe(false);
   });
 
   it("handles nullable and optional properties", () => {
@@ -342,3 +373,287 @@ describe("lexiconToValibot", () => {
     ).toBe(false);
   });
 });
+
+describe("unresolved refs", () => {
+  const lexicon: LexiconInput = {
+    lexicon: 1,
+    id: "com.example.unresolved",
+    defs: {
+      main: {
+        type: "record",
+        record: {
+          type: "object",
+          required: ["subject"],
+          properties: {
+            subject: { type: "ref", ref: "com.atproto.repo.strongRef" },
+            embed: { type: "union", refs: ["#images", "app.bsky.embed.external"] },
+          },
+        },
+      },
+      images: {
+        type: "object",
+        properties: {
+          alt: { type: "string" },
+        },
+      },
+      list: {
+        type: "query",
+        output: {
+          encoding: "application/json",
+          schema: { type: "ref", ref: "app.bsky.feed.defs#postView" },
+        },
+      },
+    },
+  };
+
+  it("reports every unresolved ref in a dry-run", () => {
+    expect(findUnresolvedRefs(lexicon)).toEqual([
+      {
+        ref: "com.atproto.repo.strongRef",
+        lexiconId: "com.example.unresolved",
+        path: "defs.main.record.properties.subject.ref",
+      },
+      {
+        ref: "app.bsky.embed.external",
+        lexiconId: "com.example.unresolved",
+        path: "defs.main.record.properties.embed.refs.1",
+      },
+      {
+        ref: "app.bsky.feed.defs#postView",
+        lexiconId: "com.example.unresolved",
+        path: "defs.list.output.schema.ref",
+      },
+    ]);
+  });
+
+  it("does not report refs provided in externalRefs", () => {
+    const unresolved = findUnresolvedRefs(lexicon, {
+      externalRefs: {
+        "com.atproto.repo.strongRef": v.object({ uri: v.string(), cid: v.string() }),
+      },
+    });
+
+    expect(unresolved.map(({ ref }) => ref)).toEqual([
+      "app.bsky.embed.external",
+      "app.bsky.feed.defs#postView",
+    ]);
+  });
+
+  it("throws listing every unresolved ref with the 'error' policy", () => {
+    expect(() => lexiconToValibot(lexicon, { unresolvedRefs: "error" })).toThrow(
+      "Unresolved refs in com.example.unresolved:\n" +
+        "  com.atproto.repo.strongRef (com.example.unresolved defs.main.record.properties.subject.ref)\n" +
+        "  app.bsky.embed.external (com.example.unresolved defs.main.record.properties.embed.refs.1)"
+    );
+    expect(() => xrpcToValibot(lexicon, { unresolvedRefs: "error" })).toThrow("app.bsky.feed.defs#postView");
+  });
+
+  it("warns and accepts any value with the 'warn' policy", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const validators = lexiconToValibot(lexicon);
+
+    expect(v.safeParse(validators.main, { subject: "anything" }).success).toBe(true);
+    expect(v.safeParse(validators.main, { subject: "again" }).success).toBe(true);
+    expect(warn).toHaveBeenCalledWith(
+      "External ref not resolved: com.atproto.repo.strongRef - provide it in externalRefs option"
+    );
+    // Once per ref, not on every parse
+    expect(
+      warn.mock.calls.filter(([message]) => String(message).includes("com.atproto.repo.strongRef"))
+    ).toHaveLength(1);
+    warn.mockRestore();
+  });
+
+  it("accepts objects only with the 'unknown-object' policy", () => {
+    const validators = lexiconToValibot(lexicon, { unresolvedRefs: "unknown-object" });
+
+    expect(v.safeParse(validators.main, { subject: { uri: "at://x", cid: "y" } }).success).toBe(true);
+    expect(v.safeParse(validators.main, { subject: "anything" }).success).toBe(false);
+  });
+});
+
+describe("knownValues", () => {
+  const lexicon: LexiconInput = {
+    lexicon: 1,
+    id: "com.example.list",
+    defs: {
+      main: {
+        type: "object",
+        required: ["purpose"],
+        properties: {
+          purpose: {
+            type: "string",
+            knownValues: ["#modlist", "com.example.other#curatelist", "plain"],
+          },
+        },
+      },
+      modlist: { type: "token" },
+    },
+  };
+
+  it("accepts any string by default", () => {
+    const validators = lexiconToValibot(lexicon);
+
+    expect(v.safeParse(validators.main, { purpose: "com.example.list#modlist" }).success).toBe(true);
+    expect(v.safeParse(validators.main, { purpose: "something-new" }).success).toBe(true);
+  });
+
+  it("rejects unknown values in strict mode, expanding token refs", () => {
+    const validators = lexiconToValibot(lexicon, { knownValues: "strict" });
+
+    expect(v.safeParse(validators.main, { purpose: "com.example.list#modlist" }).success).toBe(true);
+    expect(v.safeParse(validators.main, { purpose: "com.example.other#curatelist" }).success).toBe(true);
+    expect(v.safeParse(validators.main, { purpose: "plain" }).success).toBe(true);
+    expect(v.safeParse(validators.main, { purpose: "#modlist" }).success).toBe(false);
+    expect(v.safeParse(validators.main, { purpose: "something-new" }).success).toBe(false);
+  });
+});
+
+describe("tokens", () => {
+  const lexicon: LexiconInput = {
+    lexicon: 1,
+    id: "com.example.report",
+    defs: {
+      main: {
+        type: "object",
+        required: ["reason"],
+        properties: {
+          reason: { type: "union", refs: ["#spam", "com.example.report#rude"], closed: true },
+        },
+      },
+      spam: { type: "token" },
+      rude: { type: "token" },
+    },
+  };
+
+  it("validates tokens against their fully-qualified name", () => {
+    const validators = lexiconToValibot(lexicon);
+
+    expect(v.safeParse(validators.spam, "com.example.report#spam").success).toBe(true);
+    expect(v.safeParse(validators.spam, "com.example.report#rude").success).toBe(false);
+    expect(v.safeParse(validators.spam, "spam").success).toBe(false);
+  });
+
+  it("resolves token refs in unions", () => {
+    const validators = lexiconToValibot(lexicon);
+
+    expect(v.safeParse(validators.main, { reason: "com.example.report#spam" }).success).toBe(true);
+    expect(v.safeParse(validators.main, { reason: "com.example.report#rude" }).success).toBe(true);
+    expect(v.safeParse(validators.main, { reason: "com.example.report#other" }).success).toBe(false);
+  });
+});
+
+describe("recordKeysToValibot", () => {
+  const lexicon = {
+    lexicon: 1,
+    id: "com.example.profile",
+    defs: {
+      main: {
+        type: "record",
+        key: "literal:self",
+        record: { type: "object", properties: {} },
+      },
+      entry: {
+        type: "record",
+        key: "tid",
+        record: { type: "object", properties: {} },
+      },
+      view: {
+        type: "object",
+        properties: {},
+      },
+    },
+  } as const;
+
+  it("produces a record key validator per record def", () => {
+    const rkeys = recordKeysToValibot(lexicon);
+
+    expect(Object.keys(rkeys)).toEqual(["main", "entry"]);
+    expect(v.safeParse(rkeys.main, "self").success).toBe(true);
+    expect(v.safeParse(rkeys.main, "3jui7kd54zh2y").success).toBe(false);
+    expect(v.safeParse(rkeys.entry, "3jui7kd54zh2y").success).toBe(true);
+    expect(v.safeParse(rkeys.entry, "self").success).toBe(false);
+  });
+
+  it("infers literal record keys", () => {
+    const rkeys = recordKeysToValibot(lexicon);
+
+    expectTypeOf<v.InferOutput<typeof rkeys.main>>().toEqualTypeOf<"self">();
+    expectTypeOf<v.InferOutput<typeof rkeys.entry>>().toEqualTypeOf<string>();
+    expectTypeOf(rkeys).not.toHaveProperty("view");
+  });
+});
+
+describe("$type fields", () => {
+  const lexicon = {
+    lexicon: 1,
+    id: "com.example.feed",
+    defs: {
+      main: {
+        type: "record",
+        key: "tid",
+        record: {
+          type: "object",
+          required: ["embed"],
+          properties: {
+            embed: { type: "union", refs: ["#images"] },
+          },
+        },
+      },
+      images: {
+        type: "object",
+        required: ["count"],
+        properties: { count: { type: "integer" } },
+      },
+    },
+  } as const;
+
+  it("requires the record $type in wire format", () => {
+    const validators = lexiconToValibot(lexicon, { format: "wire" });
+    const embed = { $type: "com.example.feed#images", count: 1 };
+
+    expect(v.safeParse(validators.main, { $type: "com.example.feed", embed }).success).toBe(true);
+    expect(v.safeParse(validators.main, { embed }).success).toBe(false);
+    expect(v.safeParse(validators.main, { $type: "com.example.other", embed }).success).toBe(false);
+  });
+
+  it("accepts and keeps the $type of object defs in sdk format", () => {
+    const validators = lexiconToValibot(lexicon);
+
+    expect(v.parse(validators.images, { $type: "com.example.feed#images", count: 1 })).toEqual({
+      $type: "com.example.feed#images",
+      count: 1,
+    });
+    expect(v.parse(validators.images, { count: 1 })).toEqual({ count: 1 });
+    expect(v.safeParse(validators.images, { $type: "com.example.feed#other", count: 1 }).success).toBe(false);
+    expect(v.parse(validators.main, { $type: "com.example.feed", embed: { $type: "com.example.feed#images", count: 1 } }))
+      .toEqual({ $type: "com.example.feed", embed: { $type: "com.example.feed#images", count: 1 } });
+  });
+
+  it("requires the $type of union variants", () => {
+    const validators = lexiconToValibot(lexicon, { format: "wire" });
+
+    expect(v.safeParse(validators.main, { $type: "com.example.feed", embed: { count: 1 } }).success).toBe(false);
+  });
+
+  it("injects the record $type when transforming to wire", () => {
+    const { main } = toWire(lexicon);
+
+    expect(v.parse(main, { embed: { $type: "com.example.feed#images", count: 1 } })).toEqual({
+      $type: "com.example.feed",
+      embed: { $type: "com.example.feed#images", count: 1 },
+    });
+  });
+
+  it("infers the $type of records and object defs", () => {
+    const sdk = lexiconToValibot(lexicon);
+    const wire = lexiconToValibot(lexicon, { format: "wire" });
+
+    expectTypeOf<v.InferOutput<typeof sdk.main>["$type"]>().toEqualTypeOf<"com.example.feed" | undefined>();
+    expectTypeOf<v.InferOutput<typeof wire.main>["$type"]>().toEqualTypeOf<"com.example.feed">();
+    expectTypeOf<v.InferOutput<typeof sdk.images>["$type"]>().toEqualTypeOf<"com.example.feed#images" | undefined>();
+    expectTypeOf<v.InferOutput<ReturnType<typeof toWire<typeof lexicon>>["main"]>["$type"]>().toEqualTypeOf<
+      "com.example.feed"
+    >();
+  });
+});
@@ -1,220 +1,59 @@
-import * as v from "valibot";
-import { convertBlob, convertCidLink, convertToken } from "./converters/atproto.js";
-import { convertArray, convertObject, convertRef, convertUnion } from "./converters/complex.js";
-import {
-  convertBoolean,
-  convertBytes,
-  convertInteger,
-  convertString,
-  convertUnknown,
-} from "./converters/primitives.js";
-import {
-  convertProcedure,
-  convertQuery,
-  convertSubscription,
-  type ProcedureValidators,
-  type QueryValidators,
-  type SubscriptionValidators,
+import type * as v from "valibot";
+import { collectUnresolvedRefs, convertLexiconDefs, convertRecordKeyDefs, convertXrpcDefs, createScope } from "./convert.js";
+import type {
+  BinaryBody,
+  ProcedureValidators,
+  QueryParamsInput,
+  QueryValidators,
+  SubscriptionValidators,
+  XrpcBodyInput,
+  XrpcErrorBody,
 } from "./converters/xrpc.js";
-import type { BlobFormat, InferLexiconValidators, InferXrpcValidators } from "./infer.js";
 import type {
-  ConverterContext,
-  LexArray,
-  LexBlob,
-  LexBoolean,
-  LexBytes,
-  LexCidLink,
-  LexInteger,
-  LexObject,
-  LexRecord,
-  LexRef,
-  LexRefUnion,
-  LexString,
-  LexToken,
-  LexUnknown,
-  LexUserType,
-  LexXrpcProcedure,
-  LexXrpcQuery,
-  LexXrpcSubscription
+  BlobFormat,
+  InferLexiconValidators,
+  InferRecordKeyValidators,
+  InferSchemaOutputs,
+  InferXrpcValidators,
+} from "./infer.js";
+import { traceIssues, type DescribeIssuesOptions } from "./issues.js";
+import type {
+  KnownValuesPolicy,
+  LexiconInput,
+  LexiconIssue,
+  LexiconToValibotOptions,
+  LexiconValidationIssue,
+  UnresolvedRef,
+  UnresolvedRefPolicy,
+  UntypedBlobPolicy,
+  ValidationIssueCode,
+  WireTransform,
+  WireTransforms,
 } from "./types.js";
 import { Mutable } from "./types.js";
 
-// Flexible input type that accepts both LexiconDoc and const objects
-export interface LexiconInput {
-  lexicon: 1;
-  id: string;
-  defs: Record<string, unknown>;
-  description?: string;
-  revision?: number;
-}
-
-// Options for lexiconToValibot
-export interface LexiconToValibotOptions {
-  /** External ref schemas (e.g., com.atproto.repo.strongRef) */
-  externalRefs?: Record<string, v.GenericSchema>;
-  /** Format for blob validation: 'sdk' for parsing fetched records, 'wire' for outgoing. Default: 'sdk' */
-  format?: 'sdk' | 'wire';
-}
-
-export type { ProcedureValidators, QueryValidators, SubscriptionValidators };
-
-type XrpcResult = QueryValidators | ProcedureValidators | SubscriptionValidators;
-
-function convertType(schema: unknown, ctx: ConverterContext): v.GenericSchema {
-  if (typeof schema !== "object" || schema === null) {
-    throw new Error(`Invalid schema: expected object, got ${typeof schema}`);
-  }
-
-  const schemaObj = schema as { type?: string };
-
-  switch (schemaObj.type) {
-    // Primitives
-    case "boolean":
-      return convertBoolean(schema as LexBoolean);
-    case "integer":
-      return convertInteger(schema as LexInteger);
-    case "string":
-      return convertString(schema as LexString);
-    case "unknown":
-      return convertUnknown(schema as LexUnknown);
-
-    // IPLD types
-    case "bytes":
-      return convertBytes(schema as LexBytes);
-    case "cid-link":
-      return convertCidLink(schema as LexCidLink);
-
-    // AT Protocol types
-    case "blob":
-      return convertBlob(schema as LexBlob, ctx.blobFormat);
-    case "token":
-      return convertToken(schema as LexToken);
-
-    // Complex types
-    case "array":
-      return convertArray(schema as LexArray, ctx, convertType);
-    case "object":
-      return convertObject(schema as LexObject, ctx, convertType);
-    case "ref":
-      return convertRef(schema as LexRef, ctx);
-    case "union":
-      return convertUnion(schema as LexRefUnion, ctx);
-
-    // Record type
-    case "record":
-      return convertObject((schema as LexRecord).record, ctx, convertType);
-
-    default:
-      throw new Error(`Unknown schema type: ${schemaObj.type}`);
-  }
-}
-
-// Convert XRPC def - returns validators object
-function convertXrpcDef(schema: unknown, ctx: ConverterContext): XrpcResult {
-  if (typeof schema !== "object" || schema === null) {
-    throw new Error(`Invalid schema: expected object, got ${typeof schema}`);
-  }
-
-  const schemaObj = schema as { type?: string };
-
-  switch (schemaObj.type) {
-    case "query":
-      return convertQuery(schema as LexXrpcQuery, ctx, convertType);
-    case "procedure":
-      return convertProcedure(schema as LexXrpcProcedure, ctx, convertType);
-    case "subscription":
-      return convertSubscription(schema as LexXrpcSubscription, ctx, convertType);
-    default:
-      throw new Error(`Not an XRPC type: ${schemaObj.type}`);
-  }
-}
-
-// Check if a def is an XRPC type
-function isXrpcDef(schema: unknown): boolean {
-  if (typeof schema !== "object" || schema === null) return false;
-  const type = (schema as { type?: string }).type;
-  return type === "query" || type === "procedure" || type === "subscription";
-}
-
-// Check if a def is a record type
-function isRecordDef(schema: unknown): boolean {
-  if (typeof schema !== "object" || schema === null) return false;
-  return (schema as { type?: string }).type === "record";
-}
-
-function createRefResolver(
-  lexiconId: string,
-  defs: Record<string, LexUserType>,
-  cache: Map<string, v.GenericSchema>,
-  externalRefs: Record<string, v.GenericSchema> = {},
-  blobFormat: 'sdk' | 'wire' = 'sdk'
-): (ref: string) => v.GenericSchema {
-  return (ref: string) => {
-    // Parse the ref - could be:
-    // - "#defName" (local ref)
-    // - "com.example.lexicon#defName" (external ref)
-    // - "com.example.lexicon" (main def of external lexicon)
-
-    let resolvedRef = ref;
-
-    if (ref.startsWith("#")) {
-      // Local ref
-      resolvedRef = `${lexiconId}${ref}`;
-    } else if (!ref.includes("#")) {
-      // External ref to main def
-      resolvedRef = `${ref}#main`;
-    }
-
-    // Check cache first
-    if (cache.has(resolvedRef)) {
-      return cache.get(resolvedRef)!;
-    }
-
-    // Check external refs (try both original and resolved)
-    if (externalRefs[ref]) {
-      cache.set(resolvedRef, externalRefs[ref]);
-      return externalRefs[ref];
-    }
-    if (externalRefs[resolvedRef]) {
-      cache.set(resolvedRef, externalRefs[resolvedRef]);
-      return externalRefs[resolvedRef];
-    }
-
-    // Parse the full ref
-    const [nsid, defName] = resolvedRef.includes("#")
-      ? resolvedRef.split("#")
-      : [resolvedRef, "main"];
-
-    // Only handle local refs
-    if (nsid !== lexiconId) {
-      // External ref not found in externalRefs
-      console.warn(`External ref not resolved: ${ref} - provide it in externalRefs option`);
-      return v.unknown();
-    }
-
-    const def = defs[defName];
-    if (!def) {
-      throw new Error(`Ref not found: ${ref} (resolved to ${resolvedRef})`);
-    }
-
-    // Create context for conversion
-    const ctx: ConverterContext = {
-      lexiconId,
-      defs,
-      resolveRef: createRefResolver(lexiconId, defs, cache, externalRefs, blobFormat),
-      blobFormat,
-    };
-
-    // Convert and cache
-    const schema = convertType(def, ctx);
-    cache.set(resolvedRef, schema);
-    return schema;
-  };
-}
+export type {
+  KnownValuesPolicy,
+  LexiconInput,
+  LexiconIssue,
+  LexiconToValibotOptions,
+  LexiconValidationIssue,
+  UnresolvedRef,
+  UnresolvedRefPolicy,
+  UntypedBlobPolicy,
+  ValidationIssueCode,
+  WireTransform,
+  WireTransforms,
+};
 
-// Helper type to convert schema map to output type map
-type InferSchemaOutputs<T extends Record<string, v.GenericSchema>> = {
-  [K in keyof T]: v.InferOutput<T[K]>;
+export type {
+  BinaryBody,
+  ProcedureValidators,
+  QueryParamsInput,
+  QueryValidators,
+  SubscriptionValidators,
+  XrpcBodyInput,
+  XrpcErrorBody,
 };
 
 /**
@@ -227,44 +66,10 @@ export function lexiconToValibot<
   Format extends BlobFormat = 'sdk'
 >(
   lexicon: T,
-  options: { externalRefs?: ExtRefs; format?: Format } = {}
+  options: LexiconToValibotOptions & { externalRefs?: ExtRefs; format?: Format } = {}
 ): InferLexiconValidators<Mutable<T>, InferSchemaOutputs<ExtRefs>, Format> {
-  const blobFormat = options.format ?? 'sdk';
-  const cache = new Map<string, v.GenericSchema>();
-  const resolveRef = createRefResolver(
-    lexicon.id,
-    lexicon.defs as Record<string, LexUserType>,
-    cache,
-    options.externalRefs ?? {},
-    blobFormat
-  );
-
-  const ctx: ConverterContext = {
-    lexiconId: lexicon.id,
-    defs: lexicon.defs,
-    resolveRef,
-    blobFormat,
-  };
-
-  const result: Record<string, v.GenericSchema> = {};
-
-  for (const [defName, def] of Object.entries(lexicon.defs)) {
-    // Skip XRPC types
-    if (isXrpcDef(def)) continue;
-
-    let schema = convertType(def, ctx);
-
-    // For wire format, wrap record types with $type
-    if (blobFormat === 'wire' && isRecordDef(def)) {
-      const $type = defName === 'main' ? lexicon.id : `${lexicon.id}#${defName}`;
-      schema = v.object({
-        $type: v.literal($type),
-        ...('entries' in schema ? (schema as v.ObjectSchema<v.ObjectEntries, undefined>).entries : {}),
-      });
-    }
-
-    result[defName] = schema;
-  }
+  const scope = createScope(new Map([[lexicon.id, lexicon]]), options);
+  const result = convertLexiconDefs(lexicon.id, scope);
 
   return result as InferLexiconValidators<Mutable<T>, InferSchemaOutputs<ExtRefs>, Format>;
 }
@@ -279,43 +84,98 @@ export function xrpcToValibot<
   Format extends BlobFormat = 'sdk'
 >(
   lexicon: T,
-  options: { externalRefs?: ExtRefs; format?: Format } = {}
+  options: LexiconToValibotOptions & { externalRefs?: ExtRefs; format?: Format } = {}
 ): InferXrpcValidators<Mutable<T>, InferSchemaOutputs<ExtRefs>, Format> {
-  const blobFormat = options.format ?? 'sdk';
-  const cache = new Map<string, v.GenericSchema>();
-  const resolveRef = createRefResolver(
-    lexicon.id,
-    lexicon.defs as Record<string, LexUserType>,
-    cache,
-    options.externalRefs ?? {},
-    blobFormat
-  );
+  const scope = createScope(new Map([[lexicon.id, lexicon]]), options);
+  const result = convertXrpcDefs(lexicon.id, scope);
 
-  const ctx: ConverterContext = {
-    lexiconId: lexicon.id,
-    defs: lexicon.defs,
-    resolveRef,
-    blobFormat,
-  };
+  return result as InferXrpcValidators<Mutable<T>, InferSchemaOutputs<ExtRefs>, Format>;
+}
 
-  const result: Record<string, XrpcResult> = {};
+/**
+ * Convert the record keys of a lexicon's record defs to valibot validators.
+ * Validates the rkey of a record (e.g. in putRecord or an AT-URI) per the def's `key`.
+ */
+export function recordKeysToValibot<T extends LexiconInput>(lexicon: T): InferRecordKeyValidators<Mutable<T>> {
+  const scope = createScope(new Map([[lexicon.id, lexicon]]), {});
+  return convertRecordKeyDefs(lexicon.id, scope) as InferRecordKeyValidators<Mutable<T>>;
+}
 
-  for (const [defName, def] of Object.entries(lexicon.defs)) {
-    // Only handle XRPC types
-    if (!isXrpcDef(def)) continue;
-    result[defName] = convertXrpcDef(def, ctx);
-  }
+/**
+ * Dry-run: report every ref in the lexicon's defs that cannot be resolved, without converting.
+ */
+export function findUnresolvedRefs(
+  lexicon: LexiconInput,
+  options: Pick<LexiconToValibotOptions, 'externalRefs'> = {}
+): UnresolvedRef[] {
+  const scope = createScope(new Map([[lexicon.id, lexicon]]), options);
+  return collectUnresolvedRefs(lexicon.id, scope);
+}
 
-  return result as InferXrpcValidators<Mutable<T>, InferSchemaOutputs<ExtRefs>, Format>;
+/**
+ * Trace the issues of a value validated against a def of the lexicon back to the lexicon constraints they violate.
+ * Refs into other lexicons are not followed - use LexiconRegistry#describeIssues for those.
+ */
+export function describeIssues(
+  lexicon: LexiconInput,
+  issues: readonly v.BaseIssue<unknown>[],
+  options: DescribeIssuesOptions & { def?: string } = {}
+): LexiconValidationIssue[] {
+  const { def = "main", ...traceOptions } = options;
+  return traceIssues(new Map([[lexicon.id, lexicon]]), `${lexicon.id}#${def}`, issues, traceOptions);
 }
 
+// Re-export query-string serialization of XRPC params and content-type matching of XRPC bodies
+export { matchesEncoding, serializeParams } from "./converters/xrpc.js";
+
+// Re-export the typed XRPC client
+export {
+  createXrpcClient,
+  type XrpcCallOptions,
+  type XrpcClient,
+  type XrpcClientOptions,
+  type XrpcResponse,
+} from "./client.js";
+export type { XrpcMethods } from "./methods.js";
+
+// Re-export the XRPC router for Fetch API servers
+export {
+  createXrpcRouter,
+  XrpcError,
+  type XrpcHandler,
+  type XrpcHandlerContext,
+  type XrpcHandlerErrorName,
+  type XrpcRouter,
+  type XrpcRouterOptions,
+} from "./router.js";
+
+// Re-export issue formatting
+export { formatIssue, type DescribeIssuesOptions, type XrpcPart } from "./issues.js";
+
+// Re-export lexicon document validation
+export { validateLexicon } from "./validate-lexicon.js";
+
+// Re-export static code generation
+export { generateModules, toModulePath, type CodegenOptions } from "./codegen.js";
+
 // Re-export valibot's InferOutput for convenience
 export type { InferOutput } from "valibot";
+// Re-export the multi-lexicon registry
+export { LexiconRegistry } from "./registry.js";
 // Re-export built-in AT Protocol refs
 export { atprotoRefs, type AtprotoRefs } from "./atproto-refs.js";
 
 // Re-export inference types
-export type { BlobFormat, InferLexiconOutput, InferLexiconValidators, InferLexType } from "./infer.js";
+export type {
+  BlobFormat,
+  InferLexiconOutput,
+  InferLexiconRef,
+  InferLexiconTransformers,
+  InferLexiconValidators,
+  InferLexType,
+  InferRecordKeyValidators,
+  LexiconsMap,
+} from "./infer.js";
 // Re-export types
 export type { LexiconDoc, LexUserType } from "./types.js";
 
@@ -1,3 +1,4 @@
+import type { CID } from "multiformats/cid";
 import * as v from "valibot";
 import { describe, expectTypeOf, it } from "vitest";
 import { type InferLexiconOutput, lexiconToValibot } from "./index.js";
@@ -6,7 +7,7 @@ describe("Type inference", () => {
   it("infers primitive types correctly", () => {
     const lexicon = {
       lexicon: 1,
-      id: "test.primitives",
+      id: "com.test.primitives",
       defs: {
         main: {
           type: "object",
@@ -34,7 +35,7 @@ describe("Type inference", () => {
   it("infers optional properties", () => {
     const lexicon = {
       lexicon: 1,
-      id: "test.optional",
+      id: "com.test.optional",
       defs: {
         main: {
           type: "object",
@@ -57,10 +58,39 @@ describe("Type inference", () => {
     }>();
   });
 
+  it("infers defaulted optional properties as present", () => {
+    const lexicon = {
+      lexicon: 1,
+      id: "com.test.defaults",
+      defs: {
+        main: {
+          type: "object",
+          nullable: ["label"],
+          properties: {
+            limit: { type: "integer", default: 50 },
+            label: { type: "string", default: "none" },
+            cursor: { type: "string" },
+          },
+        },
+      },
+    } as const;
+
+    const validators = lexiconToValibot(lexicon);
+
+    type MainOutput = v.InferOutput<typeof validators.main>;
+
+    expectTypeOf<MainOutput>().toEqualTypeOf<{
+      $type?: "com.test.defaults" | "com.test.defaults#main";
+      limit: number;
+      label: string | null;
+      cursor?: string;
+    }>();
+  });
+
   it("infers nullable properties", () => {
     const lexicon = {
       lexicon: 1,
-      id: "test.nullable",
+      id: "com.test.nullable",
       defs: {
         main: {
           type: "object",
@@ -85,7 +115,7 @@ describe("Type inference", () => {
   it("infers array types", () => {
     const lexicon = {
       lexicon: 1,
-      id: "test.array",
+      id: "com.test.array",
       defs: {
         main: {
           type: "object",
@@ -112,7 +142,7 @@ describe("Type inference", () => {
   it("infers const/enum types", () => {
     const lexicon = {
       lexicon: 1,
-      id: "test.literals",
+      id: "com.test.literals",
       defs: {
         main: {
           type: "object",
@@ -135,10 +165,66 @@ describe("Type inference", () => {
     }>();
   });
 
+  it("infers knownValues as open string enums", () => {
+    const lexicon = {
+      lexicon: 1,
+      id: "com.test.knownValues",
+      defs: {
+        main: {
+          type: "object",
+          required: ["purpose"],
+          properties: {
+            purpose: { type: "string", knownValues: ["#modlist", "com.test.other#curatelist", "plain"] },
+          },
+        },
+        modlist: { type: "token" },
+      },
+    } as const;
+
+    const validators = lexiconToValibot(lexicon);
+
+    type Purpose = v.InferOutput<typeof validators.main>["purpose"];
+
+    expectTypeOf<Purpose>().toEqualTypeOf<
+      "com.test.knownValues#modlist" | "com.test.other#curatelist" | "plain" | (string & {})
+    >();
+  });
+
+  it("infers tokens as their fully-qualified name", () => {
+    const lexicon = {
+      lexicon: 1,
+      id: "com.test.tokens",
+      defs: {
+        main: {
+          type: "object",
+          required: ["reason"],
+          properties: {
+            reason: { type: "union", refs: ["#spam", "#image"], closed: true },
+          },
+        },
+        spam: { type: "token" },
+        image: {
+          type: "object",
+          required: ["url"],
+          properties: {
+            url: { type: "string" },
+          },
+        },
+      },
+    } as const;
+
+    const validators = lexiconToValibot(lexicon);
+
+    expectTypeOf<v.InferOutput<typeof validators.spam>>().toEqualTypeOf<"com.test.tokens#spam">();
+    expectTypeOf<v.InferOutput<typeof validators.main>["reason"]>().toEqualTypeOf<
+      "com.test.tokens#spam" | { $type: "com.test.tokens#image"; url: string }
+    >();
+  });
+
   it("infers local refs", () => {
     const lexicon = {
       lexicon: 1,
-      id: "test.refs",
+      id: "com.test.refs",
       defs: {
         main: {
           type: "object",
@@ -169,7 +255,7 @@ describe("Type inference", () => {
   it("infers union types", () => {
     const lexicon = {
       lexicon: 1,
-      id: "test.union",
+      id: "com.test.union",
       defs: {
         main: {
           type: "object",
@@ -200,14 +286,77 @@ describe("Type inference", () => {
     type MainOutput = v.InferOutput<typeof validators.main>;
 
     expectTypeOf<MainOutput>().toMatchTypeOf<{
-      content: { value: string } | { url: string };
+      content:
+        | { $type: "com.test.union#text"; value: string }
+        | { $type: "com.test.union#image"; url: string }
+        | { $type: string; [key: string]: unknown };
     }>();
   });
 
+  it("infers closed union types without unknown variants", () => {
+    const lexicon = {
+      lexicon: 1,
+      id: "com.test.closedUnion",
+      defs: {
+        main: {
+          type: "object",
+          required: ["content"],
+          properties: {
+            content: { type: "union", refs: ["#text", "com.test.other"], closed: true },
+          },
+        },
+        text: {
+          type: "object",
+          required: ["value"],
+          properties: {
+            value: { type: "string" },
+          },
+        },
+      },
+    } as const;
+
+    const validators = lexiconToValibot(lexicon);
+
+    type Content = v.InferOutput<typeof validators.main>["content"];
+
+    expectTypeOf<Content>().toEqualTypeOf<
+      { $type: "com.test.closedUnion#text"; value: string } | { $type: "com.test.other" }
+    >();
+  });
+
+  it("infers union refs to main defs by their NSID", () => {
+    const lexicon = {
+      lexicon: 1,
+      id: "com.test.mainUnion",
+      defs: {
+        main: {
+          type: "object",
+          required: ["value"],
+          properties: {
+            value: { type: "string" },
+          },
+        },
+        wrapper: {
+          type: "object",
+          required: ["content"],
+          properties: {
+            content: { type: "union", refs: ["#main", "com.test.other#main"], closed: true },
+          },
+        },
+      },
+    } as const;
+
+    const validators = lexiconToValibot(lexicon);
+
+    type Content = v.InferOutput<typeof validators.wrapper>["content"];
+
+    expectTypeOf<Content["$type"]>().toEqualTypeOf<"com.test.mainUnion" | "com.test.other">();
+  });
+
   it("infers record types", () => {
     const lexicon = {
       lexicon: 1,
-      id: "test.record",
+      id: "com.test.record",
       defs: {
         main: {
           type: "record",
@@ -234,7 +383,7 @@ describe("Type inference", () => {
   it("provides InferLexiconOutput helper", () => {
     const lexicon = {
       lexicon: 1,
-      id: "test.helper",
+      id: "com.test.helper",
       defs: {
         main: {
           type: "object",
@@ -250,4 +399,35 @@ describe("Type inference", () => {
 
     expectTypeOf<MainType>().toMatchTypeOf<{ id: string }>();
   });
+
+  it("infers bytes and cid-link types per format", () => {
+    const lexicon = {
+      lexicon: 1,
+      id: "com.test.ipld",
+      defs: {
+        main: {
+          type: "object",
+          required: ["data", "link"],
+          properties: {
+            data: { type: "bytes" },
+            link: { type: "cid-link" },
+          },
+        },
+      },
+    } as const;
+
+    const sdk = lexiconToValibot(lexicon);
+    expectTypeOf<v.InferOutput<typeof sdk.main>>().toEqualTypeOf<{
+      $type?: "com.test.ipld" | "com.test.ipld#main";
+      data: Uint8Array;
+      link: CID;
+    }>();
+
+    const wire = lexiconToValibot(lexicon, { format: "wire" });
+    expectTypeOf<v.InferOutput<typeof wire.main>>().toEqualTypeOf<{
+      $type?: "com.test.ipld" | "com.test.ipld#main";
+      data: { $bytes: string };
+      link: { $link: string };
+    }>();
+  });
 });
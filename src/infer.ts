@@ -1,11 +1,14 @@
 import type { BlobRef as AtprotoBlobRef } from "@atproto/lexicon";
+import type { CID } from "multiformats/cid";
 import type * as v from "valibot";
+import type { BinaryBody, QueryParamsInput, XrpcBodyInput, XrpcErrorBody } from "./converters/xrpc.js";
+import type { WireTransform } from "./types.js";
 
 // Type-level Lexicon to Valibot type inference
 // This maps Lexicon schema definitions to their inferred output types
 
 // Utility to flatten intersection types into a clean object
-type Prettify<T> = { [K in keyof T]: T[K] } & {};
+export type Prettify<T> = { [K in keyof T]: T[K] } & {};
 
 // Blob format type for inference
 export type BlobFormat = 'sdk' | 'wire';
@@ -32,16 +35,29 @@ type WireBlobRefUnion = WireBlobRef | UntypedBlobRef;
 // Format-aware blob ref type
 type InferBlobRef<Format extends BlobFormat> = Format extends 'sdk' ? SdkBlobRef : WireBlobRefUnion;
 
-type CidLink = { $link: string };
+// Format-aware bytes and cid-link types: SDK values, or their JSON representation on the wire
+type InferBytes<Format extends BlobFormat> = Format extends 'sdk' ? Uint8Array : { $bytes: string };
+
+type InferCidLink<Format extends BlobFormat> = Format extends 'sdk' ? CID : { $link: string };
 
 // External refs map type - maps ref strings to their inferred output types
 type ExternalRefsMap = Record<string, unknown>;
 
+// Lexicons map type - maps NSIDs to lexicon docs that refs can resolve into
+export type LexiconsMap = Record<string, { defs: Record<string, unknown> }>;
+
+// Helper type to convert schema map to output type map
+export type InferSchemaOutputs<T extends Record<string, v.GenericSchema>> = {
+  [K in keyof T]: v.InferOutput<T[K]>;
+};
+
 // Infer the output type from a Lexicon type definition
 // Defs = local defs from this lexicon
 // ExtRefs = external refs map (string -> inferred type)
 // Format = 'sdk' | 'wire' for blob type inference
-export type InferLexType<T, Defs = {}, ExtRefs extends ExternalRefsMap = {}, Format extends BlobFormat = 'sdk'> = T extends { type: "boolean" }
+// Id = lexicon id, used to qualify local refs (e.g. union `$type`s)
+// Lexicons = other lexicon docs (NSID -> doc) for cross-document refs
+export type InferLexType<T, Defs = {}, ExtRefs extends ExternalRefsMap = {}, Format extends BlobFormat = 'sdk', Id extends string = string, Lexicons extends LexiconsMap = {}> = T extends { type: "boolean" }
   ? T extends { const: infer C extends boolean }
   ? C
   : boolean
@@ -56,70 +72,87 @@ export type InferLexType<T, Defs = {}, ExtRefs extends ExternalRefsMap = {}, For
   ? C
   : T extends { enum: infer E extends readonly string[] }
   ? E[number]
+  : T extends { knownValues: infer K extends readonly string[] }
+  ? InferKnownValue<K[number], Id> | (string & {})
   : string
   : T extends { type: "unknown" }
   ? unknown
   : T extends { type: "bytes" }
-  ? Uint8Array
+  ? InferBytes<Format>
   : T extends { type: "blob" }
   ? InferBlobRef<Format>
   : T extends { type: "cid-link" }
-  ? CidLink
+  ? InferCidLink<Format>
   : T extends { type: "token" }
   ? string
   : T extends { type: "array"; items: infer Items }
-  ? InferLexType<Items, Defs, ExtRefs, Format>[]
+  ? InferLexType<Items, Defs, ExtRefs, Format, Id, Lexicons>[]
   : T extends { type: "object"; properties?: infer Props }
-  ? InferLexObject<Props, T, Defs, ExtRefs, Format>
+  ? InferLexObject<Props, T, Defs, ExtRefs, Format, Id, Lexicons>
   : T extends { type: "ref"; ref: infer R extends string }
-  ? InferLexRef<R, Defs, ExtRefs, Format>
+  ? InferLexRef<R, Defs, ExtRefs, Format, Id, Lexicons>
   : T extends { type: "union"; refs: infer Refs extends readonly string[] }
-  ? InferLexUnion<Refs, Defs, ExtRefs, Format>
+  ? InferLexUnion<Refs, Defs, ExtRefs, Format, Id, Lexicons> | (T extends { closed: true } ? never : OpenUnionVariant)
   : T extends { type: "record"; record: infer Rec }
-  ? InferLexType<Rec, Defs, ExtRefs, Format>
+  ? InferLexType<Rec, Defs, ExtRefs, Format, Id, Lexicons>
   : unknown;
 
-// Infer object properties with required/nullable handling
+// Expand local token refs in knownValues (#tokenName) to nsid#tokenName
+type InferKnownValue<V extends string, Id extends string> = V extends `#${infer TokenName}`
+  ? `${Id}#${TokenName}`
+  : V;
+
+// Infer object properties with required/nullable/default handling
 type InferLexObject<
   Props,
   Schema,
   Defs,
   ExtRefs extends ExternalRefsMap = {},
-  Format extends BlobFormat = 'sdk'
+  Format extends BlobFormat = 'sdk',
+  Id extends string = string,
+  Lexicons extends LexiconsMap = {}
 > = Props extends Record<string, unknown>
   ? Prettify<
     {
-      // Required non-nullable properties
-      [K in keyof Props as K extends RequiredKeys<Schema>
+      // Required (or defaulted) non-nullable properties
+      [K in keyof Props as K extends OutputKeys<Props, Schema>
       ? K extends NullableKeys<Schema>
       ? never
       : K
-      : never]: InferLexType<Props[K], Defs, ExtRefs, Format>;
+      : never]: InferLexType<Props[K], Defs, ExtRefs, Format, Id, Lexicons>;
     } & {
-      // Required nullable properties
-      [K in keyof Props as K extends RequiredKeys<Schema>
+      // Required (or defaulted) nullable properties
+      [K in keyof Props as K extends OutputKeys<Props, Schema>
       ? K extends NullableKeys<Schema>
       ? K
       : never
-      : never]: InferLexType<Props[K], Defs, ExtRefs, Format> | null;
+      : never]: InferLexType<Props[K], Defs, ExtRefs, Format, Id, Lexicons> | null;
     } & {
       // Optional non-nullable properties
-      [K in keyof Props as K extends RequiredKeys<Schema>
+      [K in keyof Props as K extends OutputKeys<Props, Schema>
       ? never
       : K extends NullableKeys<Schema>
       ? never
-      : K]?: InferLexType<Props[K], Defs, ExtRefs, Format>;
+      : K]?: InferLexType<Props[K], Defs, ExtRefs, Format, Id, Lexicons>;
     } & {
       // Optional nullable properties
-      [K in keyof Props as K extends RequiredKeys<Schema>
+      [K in keyof Props as K extends OutputKeys<Props, Schema>
       ? never
       : K extends NullableKeys<Schema>
       ? K
-      : never]?: InferLexType<Props[K], Defs, ExtRefs, Format> | null;
+      : never]?: InferLexType<Props[K], Defs, ExtRefs, Format, Id, Lexicons> | null;
     }
   >
   : {};
 
+// Keys always present in the output: required, or optional with a default
+type OutputKeys<Props, Schema> = RequiredKeys<Schema> | DefaultedKeys<Props>;
+
+// Extract keys of properties with a default value
+export type DefaultedKeys<Props> = {
+  [K in keyof Props]: Props[K] extends { default: unknown } ? K : never;
+}[keyof Props];
+
 // Extract required keys from schema
 type RequiredKeys<T> = T extends { required: infer R extends readonly string[] }
   ? R[number]
@@ -130,72 +163,165 @@ type NullableKeys<T> = T extends { nullable: infer N extends readonly string[] }
   ? N[number]
   : never;
 
-// Resolve a ref - local (#name) or external (com.example.type)
-type InferLexRef<R extends string, Defs, ExtRefs extends ExternalRefsMap = {}, Format extends BlobFormat = 'sdk'> =
+// Resolve a ref - local (#name), external (com.example.type) or from another lexicon
+type InferLexRef<R extends string, Defs, ExtRefs extends ExternalRefsMap = {}, Format extends BlobFormat = 'sdk', Id extends string = string, Lexicons extends LexiconsMap = {}> =
   // Local ref: #defName
   R extends `#${infer DefName}`
-  ? DefName extends keyof Defs
-  ? InferLexType<Defs[DefName], Defs, ExtRefs, Format>
-  : unknown
+  ? InferLexDef<DefName, Defs, ExtRefs, Format, Id, Lexicons>
   // External ref: check ExtRefs with both original and #main variants
   : R extends keyof ExtRefs
   ? ExtRefs[R]
   : `${R}#main` extends keyof ExtRefs
   ? ExtRefs[`${R}#main`]
+  // Fully-qualified ref: nsid#defName or nsid (main def)
+  : R extends `${infer Nsid}#${infer DefName}`
+  ? InferLexiconDef<Nsid, DefName, Defs, ExtRefs, Format, Id, Lexicons>
+  : InferLexiconDef<R, "main", Defs, ExtRefs, Format, Id, Lexicons>;
+
+// Resolve a def by name within a lexicon's defs
+type InferLexDef<DefName extends string, Defs, ExtRefs extends ExternalRefsMap, Format extends BlobFormat, Id extends string, Lexicons extends LexiconsMap> =
+  DefName extends keyof Defs
+  ? InferLexDefType<Defs[DefName], DefName, Defs, ExtRefs, Format, Id, Lexicons>
   : unknown;
 
-// Resolve union of refs
-type InferLexUnion<Refs extends readonly string[], Defs, ExtRefs extends ExternalRefsMap = {}, Format extends BlobFormat = 'sdk'> = Refs extends readonly [
+// Infer the output type of a top-level def - tokens are their fully-qualified name,
+// objects and records carry their `$type`
+type InferLexDefType<T, DefName extends string, Defs, ExtRefs extends ExternalRefsMap, Format extends BlobFormat, Id extends string, Lexicons extends LexiconsMap> =
+  T extends { type: "token" }
+  ? `${Id}#${DefName}`
+  : T extends { type: "object" | "record" }
+  ? Prettify<InferDefTypeField<T, DefName, Format, Id> & InferLexType<T, Defs, ExtRefs, Format, Id, Lexicons>>
+  : InferLexType<T, Defs, ExtRefs, Format, Id, Lexicons>;
+
+// `$type` of a top-level object or record def - required on records in wire format,
+// `#main` is implicit for object defs
+type InferDefTypeField<T, DefName extends string, Format extends BlobFormat, Id extends string> =
+  T extends { type: "record" }
+  ? Format extends 'wire'
+    ? { $type: DefName extends "main" ? Id : `${Id}#${DefName}` }
+    : { $type?: DefName extends "main" ? Id : `${Id}#${DefName}` }
+  : { $type?: DefName extends "main" ? Id | `${Id}#main` : `${Id}#${DefName}` };
+
+// Resolve a def of this lexicon (by its full NSID) or of another lexicon in Lexicons
+type InferLexiconDef<Nsid extends string, DefName extends string, Defs, ExtRefs extends ExternalRefsMap, Format extends BlobFormat, Id extends string, Lexicons extends LexiconsMap> =
+  string extends Id
+  ? InferRegistryDef<Nsid, DefName, ExtRefs, Format, Lexicons>
+  : Nsid extends Id
+  ? InferLexDef<DefName, Defs, ExtRefs, Format, Id, Lexicons>
+  : InferRegistryDef<Nsid, DefName, ExtRefs, Format, Lexicons>;
+
+type InferRegistryDef<Nsid extends string, DefName extends string, ExtRefs extends ExternalRefsMap, Format extends BlobFormat, Lexicons extends LexiconsMap> =
+  Nsid extends keyof Lexicons
+  ? InferLexDef<DefName, Lexicons[Nsid]["defs"], ExtRefs, Format, Nsid, Lexicons>
+  : unknown;
+
+// Infer the output type of a fully-qualified ref (nsid#defName or nsid) across lexicons
+export type InferLexiconRef<
+  R extends string,
+  Lexicons extends LexiconsMap,
+  ExtRefs extends ExternalRefsMap = {},
+  Format extends BlobFormat = 'sdk'
+> = InferLexRef<R, {}, ExtRefs, Format, string, Lexicons>;
+
+// Canonical `$type` of a union ref - local refs are qualified with the lexicon id, `#main` is dropped like stripMain
+type StripMain<T extends string> = T extends `${infer Nsid}#main` ? Nsid : T;
+type InferTypeName<R extends string, Id extends string> = StripMain<R extends `#${infer DefName}` ? `${Id}#${DefName}` : R>;
+
+// Resolve union of refs - each variant carries its `$type`
+type InferLexUnion<Refs extends readonly string[], Defs, ExtRefs extends ExternalRefsMap = {}, Format extends BlobFormat = 'sdk', Id extends string = string, Lexicons extends LexiconsMap = {}> = Refs extends readonly [
   infer First extends string,
   ...infer Rest extends readonly string[]
 ]
-  ? InferLexRef<First, Defs, ExtRefs, Format> | InferLexUnion<Rest, Defs, ExtRefs, Format>
+  ? InferLexUnionVariant<First, InferLexRef<First, Defs, ExtRefs, Format, Id, Lexicons>, Id> | InferLexUnion<Rest, Defs, ExtRefs, Format, Id, Lexicons>
   : never;
 
+// A union variant - tokens are their name, objects carry their `$type`
+type InferLexUnionVariant<R extends string, Variant, Id extends string> = Variant extends string
+  ? Variant
+  : Prettify<{ $type: InferTypeName<R, Id> } & Variant>;
+
+// Open unions also accept unknown variants with any `$type`
+type OpenUnionVariant = { $type: string; [key: string]: unknown };
+
 // XRPC params inference
-type InferLexParams<T, Defs, ExtRefs extends ExternalRefsMap = {}, Format extends BlobFormat = 'sdk'> = T extends {
+type InferLexParams<T, Defs, ExtRefs extends ExternalRefsMap = {}, Format extends BlobFormat = 'sdk', Id extends string = string, Lexicons extends LexiconsMap = {}> = T extends {
   type: "params";
   properties?: infer Props;
-  required?: infer R extends readonly string[];
 }
   ? Props extends Record<string, unknown>
   ? Prettify<
     {
-      [K in keyof Props as K extends R[number] ? K : never]: InferLexType<Props[K], Defs, ExtRefs, Format>;
+      [K in keyof Props as K extends OutputKeys<Props, T> ? K : never]: InferLexType<Props[K], Defs, ExtRefs, Format, Id, Lexicons>;
     } & {
-      [K in keyof Props as K extends R[number] ? never : K]?: InferLexType<Props[K], Defs, ExtRefs, Format>;
+      [K in keyof Props as K extends OutputKeys<Props, T> ? never : K]?: InferLexType<Props[K], Defs, ExtRefs, Format, Id, Lexicons>;
     }
   >
   : {}
   : {};
 
-// XRPC body (input/output/message) inference
-type InferLexBody<T, Defs, ExtRefs extends ExternalRefsMap = {}, Format extends BlobFormat = 'sdk'> = T extends { schema: infer S }
-  ? InferLexType<S, Defs, ExtRefs, Format>
+// XRPC body (input/output/message) inference - bodies of non-JSON encodings are binary
+type InferLexBody<T, Defs, ExtRefs extends ExternalRefsMap = {}, Format extends BlobFormat = 'sdk', Id extends string = string, Lexicons extends LexiconsMap = {}> = IsBinaryEncoding<T> extends true
+  ? BinaryBody
+  : T extends { schema: infer S }
+  ? InferLexType<S, Defs, ExtRefs, Format, Id, Lexicons>
   : unknown;
 
+// Whether a body declares a non-JSON encoding - encodings widened to string are not known to be binary
+type IsBinaryEncoding<T> = [T] extends [never]
+  ? false
+  : T extends { encoding: infer E extends string }
+  ? string extends E
+  ? false
+  : E extends "application/json"
+  ? false
+  : true
+  : false;
+
+// Declared encoding of a body
+type InferLexEncoding<T> = [T] extends [never] ? undefined : T extends { encoding: infer E extends string } ? E : undefined;
+
+// Names of the errors an XRPC method declares
+type InferXrpcErrorName<T> = T extends { errors: readonly (infer E)[] }
+  ? E extends { name: infer N extends string } ? N : never
+  : never;
+
 // XRPC Query validators type
-type InferQueryValidators<T, Defs, ExtRefs extends ExternalRefsMap = {}, Format extends BlobFormat = 'sdk'> = T extends { type: "query" }
+type InferQueryValidators<T, Defs, ExtRefs extends ExternalRefsMap = {}, Format extends BlobFormat = 'sdk', Id extends string = string, Lexicons extends LexiconsMap = {}> = T extends { type: "query" }
   ? {
-    parameters: v.GenericSchema<InferLexParams<T extends { parameters: infer P } ? P : never, Defs, ExtRefs, Format>>;
-    output: v.GenericSchema<InferLexBody<T extends { output: infer O } ? O : never, Defs, ExtRefs, Format>>;
+    parameters: v.GenericSchema<InferLexParams<T extends { parameters: infer P } ? P : never, Defs, ExtRefs, Format, Id, Lexicons>>;
+    parseParams: v.GenericSchema<QueryParamsInput, InferLexParams<T extends { parameters: infer P } ? P : never, Defs, ExtRefs, Format, Id, Lexicons>>;
+    output: v.GenericSchema<InferLexBody<T extends { output: infer O } ? O : never, Defs, ExtRefs, Format, Id, Lexicons>>;
+    outputEncoding: InferLexEncoding<T extends { output: infer O } ? O : never>;
+    parseOutput: v.GenericSchema<XrpcBodyInput, InferLexBody<T extends { output: infer O } ? O : never, Defs, ExtRefs, Format, Id, Lexicons>>;
+    errors: InferXrpcErrorName<T>[];
+    error: v.GenericSchema<unknown, XrpcErrorBody<InferXrpcErrorName<T>>>;
   }
   : never;
 
 // XRPC Procedure validators type
-type InferProcedureValidators<T, Defs, ExtRefs extends ExternalRefsMap = {}, Format extends BlobFormat = 'sdk'> = T extends { type: "procedure" }
+type InferProcedureValidators<T, Defs, ExtRefs extends ExternalRefsMap = {}, Format extends BlobFormat = 'sdk', Id extends string = string, Lexicons extends LexiconsMap = {}> = T extends { type: "procedure" }
   ? {
-    parameters: v.GenericSchema<InferLexParams<T extends { parameters: infer P } ? P : never, Defs, ExtRefs, Format>>;
-    input: v.GenericSchema<InferLexBody<T extends { input: infer I } ? I : never, Defs, ExtRefs, Format>>;
-    output: v.GenericSchema<InferLexBody<T extends { output: infer O } ? O : never, Defs, ExtRefs, Format>>;
+    parameters: v.GenericSchema<InferLexParams<T extends { parameters: infer P } ? P : never, Defs, ExtRefs, Format, Id, Lexicons>>;
+    parseParams: v.GenericSchema<QueryParamsInput, InferLexParams<T extends { parameters: infer P } ? P : never, Defs, ExtRefs, Format, Id, Lexicons>>;
+    input: v.GenericSchema<InferLexBody<T extends { input: infer I } ? I : never, Defs, ExtRefs, Format, Id, Lexicons>>;
+    inputEncoding: InferLexEncoding<T extends { input: infer I } ? I : never>;
+    parseInput: v.GenericSchema<XrpcBodyInput, InferLexBody<T extends { input: infer I } ? I : never, Defs, ExtRefs, Format, Id, Lexicons>>;
+    output: v.GenericSchema<InferLexBody<T extends { output: infer O } ? O : never, Defs, ExtRefs, Format, Id, Lexicons>>;
+    outputEncoding: InferLexEncoding<T extends { output: infer O } ? O : never>;
+    parseOutput: v.GenericSchema<XrpcBodyInput, InferLexBody<T extends { output: infer O } ? O : never, Defs, ExtRefs, Format, Id, Lexicons>>;
+    errors: InferXrpcErrorName<T>[];
+    error: v.GenericSchema<unknown, XrpcErrorBody<InferXrpcErrorName<T>>>;
   }
   : never;
 
 // XRPC Subscription validators type
-type InferSubscriptionValidators<T, Defs, ExtRefs extends ExternalRefsMap = {}, Format extends BlobFormat = 'sdk'> = T extends { type: "subscription" }
+type InferSubscriptionValidators<T, Defs, ExtRefs extends ExternalRefsMap = {}, Format extends BlobFormat = 'sdk', Id extends string = string, Lexicons extends LexiconsMap = {}> = T extends { type: "subscription" }
   ? {
-    parameters: v.GenericSchema<InferLexParams<T extends { parameters: infer P } ? P : never, Defs, ExtRefs, Format>>;
-    message: v.GenericSchema<InferLexBody<T extends { message: infer M } ? M : never, Defs, ExtRefs, Format>>;
+    parameters: v.GenericSchema<InferLexParams<T extends { parameters: infer P } ? P : never, Defs, ExtRefs, Format, Id, Lexicons>>;
+    parseParams: v.GenericSchema<QueryParamsInput, InferLexParams<T extends { parameters: infer P } ? P : never, Defs, ExtRefs, Format, Id, Lexicons>>;
+    message: v.GenericSchema<InferLexBody<T extends { message: infer M } ? M : never, Defs, ExtRefs, Format, Id, Lexicons>>;
+    errors: InferXrpcErrorName<T>[];
+    error: v.GenericSchema<unknown, XrpcErrorBody<InferXrpcErrorName<T>>>;
   }
   : never;
 
@@ -203,40 +329,72 @@ type InferSubscriptionValidators<T, Defs, ExtRefs extends ExternalRefsMap = {},
 type IsXrpcType<T> = T extends { type: "query" | "procedure" | "subscription" } ? true : false;
 
 // Infer schema for non-XRPC def
-type InferSchemaValidator<T, Defs, ExtRefs extends ExternalRefsMap = {}, Format extends BlobFormat = 'sdk'> =
-  v.GenericSchema<InferLexType<T, Defs, ExtRefs, Format>>;
+type InferSchemaValidator<T, DefName extends string, Defs, ExtRefs extends ExternalRefsMap = {}, Format extends BlobFormat = 'sdk', Id extends string = string, Lexicons extends LexiconsMap = {}> =
+  v.GenericSchema<InferLexDefType<T, DefName, Defs, ExtRefs, Format, Id, Lexicons>>;
 
 // Infer validators for XRPC def
-type InferXrpcValidator<T, Defs, ExtRefs extends ExternalRefsMap = {}, Format extends BlobFormat = 'sdk'> = T extends { type: "query" }
-  ? InferQueryValidators<T, Defs, ExtRefs, Format>
+type InferXrpcValidator<T, Defs, ExtRefs extends ExternalRefsMap = {}, Format extends BlobFormat = 'sdk', Id extends string = string, Lexicons extends LexiconsMap = {}> = T extends { type: "query" }
+  ? InferQueryValidators<T, Defs, ExtRefs, Format, Id, Lexicons>
   : T extends { type: "procedure" }
-  ? InferProcedureValidators<T, Defs, ExtRefs, Format>
+  ? InferProcedureValidators<T, Defs, ExtRefs, Format, Id, Lexicons>
   : T extends { type: "subscription" }
-  ? InferSubscriptionValidators<T, Defs, ExtRefs, Format>
+  ? InferSubscriptionValidators<T, Defs, ExtRefs, Format, Id, Lexicons>
   : never;
 
 // Main type for inferring schema validators from a LexiconDoc (excludes XRPC)
 export type InferLexiconValidators<
-  T extends { defs: Record<string, unknown> },
+  T extends { id: string; defs: Record<string, unknown> },
   ExtRefs extends ExternalRefsMap = {},
-  Format extends BlobFormat = 'sdk'
+  Format extends BlobFormat = 'sdk',
+  Lexicons extends LexiconsMap = {}
 > = {
-    [K in keyof T["defs"]as IsXrpcType<T["defs"][K]> extends true ? never : K]: InferSchemaValidator<T["defs"][K], T["defs"], ExtRefs, Format>;
+    [K in keyof T["defs"]as IsXrpcType<T["defs"][K]> extends true ? never : K]: InferSchemaValidator<T["defs"][K], K & string, T["defs"], ExtRefs, Format, T["id"], Lexicons>;
   };
 
 // Type for inferring XRPC validators from a LexiconDoc (only XRPC types)
 export type InferXrpcValidators<
-  T extends { defs: Record<string, unknown> },
+  T extends { id: string; defs: Record<string, unknown> },
   ExtRefs extends ExternalRefsMap = {},
-  Format extends BlobFormat = 'sdk'
+  Format extends BlobFormat = 'sdk',
+  Lexicons extends LexiconsMap = {}
+> = {
+    [K in keyof T["defs"]as IsXrpcType<T["defs"][K]> extends true ? K : never]: InferXrpcValidator<T["defs"][K], T["defs"], ExtRefs, Format, T["id"], Lexicons>;
+  };
+
+// Formats on either side of a transform
+type TransformInputFormat<T extends WireTransform> = T extends 'toWire' ? 'sdk' : 'wire';
+type TransformOutputFormat<T extends WireTransform> = T extends 'toWire' ? 'wire' : 'sdk';
+
+// Infer transforming schema for non-XRPC def: parses one format, outputs the other
+type InferSchemaTransformer<T, DefName extends string, Defs, ExtRefs extends ExternalRefsMap, Transform extends WireTransform, Id extends string, Lexicons extends LexiconsMap> =
+  v.GenericSchema<
+    InferLexDefType<T, DefName, Defs, ExtRefs, TransformInputFormat<Transform>, Id, Lexicons>,
+    InferLexDefType<T, DefName, Defs, ExtRefs, TransformOutputFormat<Transform>, Id, Lexicons>
+  >;
+
+// Type for inferring wire <-> SDK transformers from a LexiconDoc (excludes XRPC)
+export type InferLexiconTransformers<
+  T extends { id: string; defs: Record<string, unknown> },
+  ExtRefs extends ExternalRefsMap = {},
+  Transform extends WireTransform = 'toWire',
+  Lexicons extends LexiconsMap = {}
 > = {
-    [K in keyof T["defs"]as IsXrpcType<T["defs"][K]> extends true ? K : never]: InferXrpcValidator<T["defs"][K], T["defs"], ExtRefs, Format>;
+    [K in keyof T["defs"]as IsXrpcType<T["defs"][K]> extends true ? never : K]: InferSchemaTransformer<T["defs"][K], K & string, T["defs"], ExtRefs, Transform, T["id"], Lexicons>;
   };
 
 // Helper to get the output type from a lexicon's def
 export type InferLexiconOutput<
-  T extends { defs: Record<string, unknown> },
+  T extends { id: string; defs: Record<string, unknown> },
   K extends keyof T["defs"],
   ExtRefs extends ExternalRefsMap = {},
-  Format extends BlobFormat = 'sdk'
-> = InferLexType<T["defs"][K], T["defs"], ExtRefs, Format>;
+  Format extends BlobFormat = 'sdk',
+  Lexicons extends LexiconsMap = {}
+> = InferLexDefType<T["defs"][K], K & string, T["defs"], ExtRefs, Format, T["id"], Lexicons>;
+
+// Infer the record key type - literal keys are their value
+type InferRecordKey<T> = T extends { key: `literal:${infer L}` } ? L : string;
+
+// Type for inferring record key validators from a LexiconDoc (only record types)
+export type InferRecordKeyValidators<T extends { defs: Record<string, unknown> }> = {
+  [K in keyof T["defs"]as T["defs"][K] extends { type: "record" } ? K : never]: v.GenericSchema<InferRecordKey<T["defs"][K]>>;
+};
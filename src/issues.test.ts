@@ -0,0 +1,293 @@
+import { Lexicons } from "@atproto/lexicon";
+import * as v from "valibot";
+import { describe, expect, it } from "vitest";
+import { describeIssues, formatIssue, LexiconRegistry, lexiconToValibot, xrpcToValibot } from "./index.js";
+
+const strongRef = {
+  lexicon: 1,
+  id: "com.example.strongRef",
+  defs: {
+    main: {
+      type: "object",
+      required: ["uri", "cid"],
+      properties: {
+        uri: { type: "string", format: "at-uri" },
+        cid: { type: "string", format: "cid" },
+      },
+    },
+  },
+} as const;
+
+const post = {
+  lexicon: 1,
+  id: "com.example.post",
+  defs: {
+    main: {
+      type: "record",
+      key: "tid",
+      record: {
+        type: "object",
+        required: ["text", "createdAt"],
+        properties: {
+          text: { type: "string", maxLength: 30, maxGraphemes: 5 },
+          createdAt: { type: "string", format: "datetime" },
+          lang: { type: "string", knownValues: ["en", "nl"] },
+          tags: { type: "array", items: { type: "string", minLength: 1 }, maxLength: 2 },
+          priority: { type: "integer", minimum: 1, maximum: 5 },
+          visibility: { type: "string", enum: ["public", "private"] },
+          subject: { type: "ref", ref: "com.example.strongRef" },
+          embed: { type: "union", refs: ["#images", "#link"] },
+          kind: { type: "union", refs: ["#images", "#link"], closed: true },
+          checksum: { type: "bytes", maxLength: 4 },
+        },
+      },
+    },
+    images: {
+      type: "object",
+      required: ["images"],
+      properties: {
+        images: {
+          type: "array",
+          items: { type: "blob", accept: ["image/*"], maxSize: 1000 },
+        },
+      },
+    },
+    link: {
+      type: "object",
+      required: ["uri"],
+      properties: { uri: { type: "string", format: "uri" } },
+    },
+    search: {
+      type: "query",
+      parameters: {
+        type: "params",
+        required: ["q"],
+        properties: { q: { type: "string" }, limit: { type: "integer", maximum: 100 } },
+      },
+      output: {
+        encoding: "application/json",
+        schema: { type: "object", required: ["posts"], properties: { posts: { type: "array", items: { type: "ref", ref: "#link" } } } },
+      },
+    },
+  },
+} as const;
+
+const cid = "bafyreie5737gdxlw5i64vzichcalba3z2v5n6icifvx5xytvske7mr3hpm";
+const validPost = { $type: "com.example.post", text: "hello", createdAt: "2024-01-01T00:00:00.000Z" };
+
+function describeRecord(value: unknown, registry = new LexiconRegistry({ format: "wire" }).add(strongRef, post)) {
+  const result = v.safeParse(registry.lexiconToValibot("com.example.post").main, value);
+  return registry.describeIssues("com.example.post", result.issues ?? []);
+}
+
+describe("describeIssues", () => {
+  it("reports no issues for valid values", () => {
+    expect(describeRecord(validPost)).toEqual([]);
+  });
+
+  it("traces string constraints", () => {
+    const issues = describeRecord({ ...validPost, text: "a".repeat(31), createdAt: "yesterday" });
+    expect(issues).toEqual([
+      {
+        code: "max_length",
+        nsid: "com.example.post",
+        def: "main",
+        path: ["text"],
+        constraint: "maxLength",
+        expected: 30,
+        received: "a".repeat(31),
+        message: "String must have at most 30 UTF-8 byte(s)",
+      },
+      {
+        code: "max_graphemes",
+        nsid: "com.example.post",
+        def: "main",
+        path: ["text"],
+        constraint: "maxGraphemes",
+        expected: 5,
+        received: "a".repeat(31),
+        message: "String must have at most 5 grapheme(s)",
+      },
+      {
+        code: "format",
+        nsid: "com.example.post",
+        def: "main",
+        path: ["createdAt"],
+        constraint: "format",
+        expected: "datetime",
+        received: "yesterday",
+        message: "String must be a valid datetime",
+      },
+    ]);
+  });
+
+  it("tells apart the checks of a single value", () => {
+    const registry = new LexiconRegistry({ format: "wire", knownValues: "strict" }).add(strongRef, post);
+    const issues = describeRecord({ ...validPost, text: "🙂".repeat(6), lang: "de" }, registry);
+    expect(issues.map(({ code, path }) => [code, path])).toEqual([
+      ["max_graphemes", ["text"]],
+      ["known_values", ["lang"]],
+    ]);
+    expect(issues[1].expected).toEqual(["en", "nl"]);
+  });
+
+  it("traces missing required properties to the object requiring them", () => {
+    const issues = describeRecord({ $type: "com.example.post", text: "hello", subject: { uri: "at://did:plc:abc" } });
+    expect(issues.map(({ code, nsid, def, path, expected }) => ({ code, nsid, def, path, expected }))).toEqual([
+      { code: "required", nsid: "com.example.post", def: "main", path: ["createdAt"], expected: "createdAt" },
+      { code: "required", nsid: "com.example.strongRef", def: "main", path: ["subject", "cid"], expected: "cid" },
+    ]);
+  });
+
+  it("traces constraints of referenced defs to the def declaring them", () => {
+    const issues = describeRecord({
+      ...validPost,
+      subject: { uri: "not a uri", cid },
+      embed: { $type: "com.example.post#link", uri: "not a uri" },
+    });
+    expect(issues.map(({ code, nsid, def, path }) => ({ code, nsid, def, path }))).toEqual([
+      { code: "format", nsid: "com.example.strongRef", def: "main", path: ["subject", "uri"] },
+      { code: "format", nsid: "com.example.post", def: "link", path: ["embed", "uri"] },
+    ]);
+  });
+
+  it("traces array, integer and enum constraints", () => {
+    const issues = describeRecord({ ...validPost, tags: ["a", "", "c"], priority: 6, visibility: "secret" });
+    expect(issues.map(({ code, path, expected }) => ({ code, path, expected }))).toEqual([
+      { code: "min_length", path: ["tags", 1], expected: 1 },
+      { code: "max_length", path: ["tags"], expected: 2 },
+      { code: "maximum", path: ["priority"], expected: 5 },
+      { code: "enum", path: ["visibility"], expected: ["public", "private"] },
+    ]);
+  });
+
+  it("traces union issues", () => {
+    const issues = describeRecord({
+      ...validPost,
+      embed: { uri: "https://example.com" },
+      kind: { $type: "com.example.other" },
+    });
+    expect(issues.map(({ code, path, constraint }) => ({ code, path, constraint }))).toEqual([
+      { code: "missing_type", path: ["embed", "$type"], constraint: "refs" },
+      { code: "closed_union", path: ["kind", "$type"], constraint: "closed" },
+    ]);
+  });
+
+  it("traces blob and bytes constraints", () => {
+    const image = { $type: "blob", ref: { $link: cid }, mimeType: "video/mp4", size: 2000 };
+    const issues = describeRecord({
+      ...validPost,
+      embed: { $type: "com.example.post#images", images: [image, { cid }] },
+      checksum: { $bytes: "AQIDBAU" },
+    });
+    expect(issues.map(({ code, path, expected }) => ({ code, path, expected }))).toEqual([
+      { code: "blob_accept", path: ["embed", "images", 0], expected: ["image/*"] },
+      { code: "blob_max_size", path: ["embed", "images", 0], expected: 1000 },
+      { code: "invalid_type", path: ["embed", "images", 1], expected: "blob" },
+      { code: "max_length", path: ["checksum"], expected: 4 },
+    ]);
+  });
+
+  it("traces invalid types and $type mismatches", () => {
+    const issues = describeRecord({ ...validPost, $type: "com.example.other", text: 1, priority: 1.5 });
+    expect(issues.map(({ code, path, expected }) => ({ code, path, expected }))).toEqual([
+      { code: "type_mismatch", path: ["$type"], expected: "com.example.post" },
+      { code: "invalid_type", path: ["text"], expected: "string" },
+      { code: "invalid_type", path: ["priority"], expected: "integer" },
+    ]);
+  });
+
+  it("traces issues of XRPC parameters and bodies", () => {
+    const registry = new LexiconRegistry().add(strongRef, post);
+    const { search } = registry.xrpcToValibot("com.example.post");
+
+    const params = v.safeParse(search.parameters, { limit: 101 });
+    expect(registry.describeIssues("com.example.post#search", params.issues ?? [], "parameters").map(({ code, path }) => [code, path]))
+      .toEqual([["required", ["q"]], ["maximum", ["limit"]]]);
+
+    const output = v.safeParse(search.output, { posts: [{ uri: "not a uri" }] });
+    expect(registry.describeIssues("com.example.post#search", output.issues ?? [], "output")).toMatchObject([
+      { code: "format", nsid: "com.example.post", def: "link", path: ["posts", 0, "uri"] },
+    ]);
+  });
+
+  it("describes issues of a single lexicon", () => {
+    const { link } = lexiconToValibot(post);
+    const result = v.safeParse(link, { uri: "not a uri" });
+    expect(describeIssues(post, result.issues ?? [], { def: "link" })).toMatchObject([
+      { code: "format", nsid: "com.example.post", def: "link", path: ["uri"], expected: "uri" },
+    ]);
+
+    const { search } = xrpcToValibot(post);
+    const params = v.safeParse(search.parameters, {});
+    expect(describeIssues(post, params.issues ?? [], { def: "search", part: "parameters" })).toMatchObject([
+      { code: "required", path: ["q"] },
+    ]);
+  });
+
+  it("reports issues outside the lexicons as invalid", () => {
+    const { main } = lexiconToValibot(post, { unresolvedRefs: "unknown-object" });
+    const result = v.safeParse(main, { ...validPost, subject: "not an object" });
+    expect(describeIssues(post, result.issues ?? [])).toMatchObject([
+      { code: "invalid", nsid: "com.example.post", def: "main", path: ["subject"] },
+    ]);
+  });
+
+  it("throws for unknown refs", () => {
+    expect(() => describeIssues(post, [], { def: "missing" })).toThrow("Ref not found: com.example.post#missing");
+  });
+});
+
+describe("formatIssue", () => {
+  // Messages of @atproto/lexicon for the same values
+  // Lexicons rewrites the refs of the documents it is given
+  const lexicons = new Lexicons(structuredClone([strongRef, post]) as never);
+  function atprotoMessage(value: unknown): string {
+    const result = lexicons.validate("com.example.post", value);
+    return result.success ? "" : result.error.message;
+  }
+
+  const cases: [string, unknown][] = [
+    ["string too long", { ...validPost, text: "a".repeat(31) }],
+    ["too many graphemes", { ...validPost, text: "abcdef" }],
+    ["invalid format", { ...validPost, createdAt: "yesterday" }],
+    ["invalid type", { ...validPost, text: 1 }],
+    ["missing property", { $type: "com.example.post", text: "hello" }],
+    ["nested missing property", { ...validPost, subject: { uri: "at://did:plc:abc" } }],
+    ["too many elements", { ...validPost, tags: ["a", "b", "c"] }],
+    ["integer too large", { ...validPost, priority: 6 }],
+    ["integer too small", { ...validPost, priority: 0 }],
+    ["enum", { ...validPost, visibility: "secret" }],
+    ["union without $type", { ...validPost, embed: { uri: "https://example.com" } }],
+  ];
+
+  it.each(cases)("formats %s like @atproto/lexicon", (_, value) => {
+    const [issue] = describeRecord(value);
+    expect(formatIssue(issue, "Record")).toBe(atprotoMessage(value));
+  });
+
+  it("formats issues atproto does not check", () => {
+    const registry = new LexiconRegistry({ format: "wire", knownValues: "strict", untypedBlobs: "reject" }).add(strongRef, post);
+    const image = { cid, mimeType: "video/mp4" };
+    const issues = describeRecord({
+      ...validPost,
+      $type: "com.example.other",
+      lang: "de",
+      kind: { $type: "com.example.other" },
+      embed: { $type: "com.example.post#images", images: [image, { ...image, $type: "blob", ref: { $link: cid }, mimeType: "image/png", size: 2000 }] },
+    }, registry);
+    expect(issues.map((issue) => formatIssue(issue, "Record"))).toEqual([
+      "Record/$type must be com.example.post",
+      "Record/lang must be one of the known values (en|nl)",
+      "Record/embed/images/0 should be a typed blob ref",
+      "Record/embed/images/0 mimeType must match one of image/*",
+      "Record/embed/images/1 must not be larger than 1000 bytes",
+      "Record/kind $type must be one of com.example.post#images, com.example.post#link",
+    ]);
+  });
+
+  it("defaults the root to Object", () => {
+    const [issue] = describeRecord({ ...validPost, text: 1 });
+    expect(formatIssue(issue)).toBe("Object/text must be a string");
+  });
+});
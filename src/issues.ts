@@ -0,0 +1,412 @@
+import type * as v from "valibot";
+import { matchesAccept } from "./converters/atproto.js";
+import { toTypeName } from "./converters/complex.js";
+import { formatValidators } from "./converters/formats.js";
+import { countGraphemes, expandKnownValue, getBase64Size } from "./converters/primitives.js";
+import type {
+  KnownValuesPolicy,
+  LexiconInput,
+  LexiconValidationIssue,
+  UntypedBlobPolicy,
+  ValidationIssueCode,
+} from "./types.js";
+
+// Trace valibot issues back to the lexicon constraints they violate,
+// by walking the lexicons alongside the path of each issue
+
+type Node = Record<string, unknown>;
+
+/** Part of an XRPC def a value was validated against */
+export type XrpcPart = 'parameters' | 'input' | 'output' | 'message';
+
+export interface DescribeIssuesOptions {
+  /** Part of the XRPC def the value was validated against, if the ref names an XRPC def */
+  part?: XrpcPart;
+  /** Policy for strings with knownValues the value was validated with. Default: 'open' */
+  knownValues?: KnownValuesPolicy;
+  /** Policy for untyped (legacy) blob refs the value was validated with. Default: 'allow' */
+  untypedBlobs?: UntypedBlobPolicy;
+}
+
+// A schema node within the lexicons, and the def declaring it.
+// The node is undefined outside the lexicons, e.g. behind unresolved or external refs.
+interface Location {
+  nsid: string;
+  def: string;
+  node: Node | undefined;
+}
+
+// A violated constraint, before it is tied to an issue
+interface Violation {
+  code: ValidationIssueCode;
+  constraint: string;
+  expected?: unknown;
+}
+
+function isNode(value: unknown): value is Node {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Locate a def by ref - records are located at their object schema
+function locateRef(lexicons: ReadonlyMap<string, LexiconInput>, ref: string, lexiconId: string): Location | undefined {
+  const [nsid, def = "main"] = (ref.startsWith("#") ? `${lexiconId}${ref}` : ref).split("#");
+  const node = lexicons.get(nsid)?.defs[def];
+  if (!isNode(node)) {
+    return undefined;
+  }
+  return { nsid, def, node: node.type === "record" && isNode(node.record) ? node.record : node };
+}
+
+// `$type` of an object, or the name of a token
+function getTypeName(value: unknown): string | undefined {
+  if (typeof value === "string") return value;
+  return isNode(value) && typeof value.$type === "string" ? value.$type : undefined;
+}
+
+// Follow refs, and unions into the variant named by the value's `$type`
+function dereference(lexicons: ReadonlyMap<string, LexiconInput>, location: Location, value: unknown): Location {
+  const visited = new Set<Node>();
+  let current = location;
+  while (current.node !== undefined && !visited.has(current.node)) {
+    const node = current.node;
+    visited.add(node);
+
+    let ref: string | undefined;
+    if (node.type === "ref" && typeof node.ref === "string") {
+      ref = node.ref;
+    } else if (node.type === "union" && Array.isArray(node.refs)) {
+      const typeName = getTypeName(value);
+      ref = typeName === undefined
+        ? undefined
+        : (node.refs as string[]).find((ref) => toTypeName(ref, current.nsid) === toTypeName(typeName, current.nsid));
+    }
+    if (ref === undefined) {
+      return current;
+    }
+    current = locateRef(lexicons, ref, current.nsid) ?? { ...current, node: undefined };
+  }
+  return current;
+}
+
+// Locate a property of an object or params, or the items of an array
+function locateChild(location: Location, key: unknown): Location | undefined {
+  const node = location.node;
+  if (node === undefined) return undefined;
+  if ((node.type === "object" || node.type === "params") && typeof key === "string" && isNode(node.properties)) {
+    const property = node.properties[key];
+    return isNode(property) && Object.hasOwn(node.properties, key) ? { ...location, node: property } : undefined;
+  }
+  if (node.type === "array" && typeof key === "number" && isNode(node.items)) {
+    return { ...location, node: node.items };
+  }
+  return undefined;
+}
+
+// Valibot reports a missing key with the key in the path and an undefined value
+function isMissingKey(issue: v.BaseIssue<unknown>): boolean {
+  const last = issue.path?.[issue.path.length - 1];
+  return issue.kind === "schema" && last !== undefined && last.value === undefined && issue.expected === `"${String(last.key)}"`;
+}
+
+/**
+ * Constraints checked with `v.check` that the value violates, in the order the converters check them.
+ * The n-th check issue of a value is the n-th violation.
+ */
+function violatedChecks(location: Location, value: unknown, options: DescribeIssuesOptions): Violation[] {
+  const node = location.node ?? {};
+  const violations: Violation[] = [];
+
+  if (node.type === "string" && typeof value === "string") {
+    if (typeof node.minGraphemes === "number" && countGraphemes(value) < node.minGraphemes) {
+      violations.push({ code: "min_graphemes", constraint: "minGraphemes", expected: node.minGraphemes });
+    }
+    if (typeof node.maxGraphemes === "number" && countGraphemes(value) > node.maxGraphemes) {
+      violations.push({ code: "max_graphemes", constraint: "maxGraphemes", expected: node.maxGraphemes });
+    }
+    if (Array.isArray(node.knownValues) && options.knownValues === "strict") {
+      const knownValues = (node.knownValues as string[]).map((knownValue) => expandKnownValue(knownValue, location.nsid));
+      if (!knownValues.includes(value)) {
+        violations.push({ code: "known_values", constraint: "knownValues", expected: knownValues });
+      }
+    }
+    const isValid = formatValidators[node.format as keyof typeof formatValidators];
+    if (isValid !== undefined && !isValid(value)) {
+      violations.push({ code: "format", constraint: "format", expected: node.format });
+    }
+  }
+
+  if (node.type === "blob" && isNode(value)) {
+    const size = typeof value.size === "number" ? value.size : undefined;
+    if (size === undefined && options.untypedBlobs === "reject") {
+      violations.push({ code: "untyped_blob", constraint: "untypedBlobs", expected: "reject" });
+    }
+    if (Array.isArray(node.accept) && node.accept.length > 0) {
+      const accept = node.accept as string[];
+      if (!matchesAccept(String(value.mimeType), accept)) {
+        violations.push({ code: "blob_accept", constraint: "accept", expected: accept });
+      }
+    }
+    if (typeof node.maxSize === "number" && (size ?? 0) > node.maxSize) {
+      violations.push({ code: "blob_max_size", constraint: "maxSize", expected: node.maxSize });
+    }
+  }
+
+  if (node.type === "bytes") {
+    const length = value instanceof Uint8Array
+      ? value.length
+      : isNode(value) && typeof value.$bytes === "string" ? getBase64Size(value.$bytes) : undefined;
+    if (length !== undefined && typeof node.minLength === "number" && length < node.minLength) {
+      violations.push({ code: "min_length", constraint: "minLength", expected: node.minLength });
+    } else if (length !== undefined && typeof node.maxLength === "number" && length > node.maxLength) {
+      violations.push({ code: "max_length", constraint: "maxLength", expected: node.maxLength });
+    }
+  }
+
+  return violations;
+}
+
+// The constraint a valibot issue violates at the given location
+function classify(
+  location: Location,
+  issue: v.BaseIssue<unknown>,
+  stoppedAt: unknown,
+  value: unknown,
+  check: Violation | undefined
+): Violation {
+  const node = location.node;
+  const invalid: Violation = { code: "invalid", constraint: issue.type };
+  if (node === undefined) {
+    return invalid;
+  }
+  const invalidType: Violation = { code: "invalid_type", constraint: "type", expected: node.type };
+
+  // Unions report values without a `$type`, or with one they do not accept
+  if (node.type === "union") {
+    const typeNames = (node.refs as string[]).map((ref) => toTypeName(ref, location.nsid));
+    if (node.closed === true && getTypeName(value) !== undefined) {
+      return { code: "closed_union", constraint: "closed", expected: typeNames };
+    }
+    return { code: "missing_type", constraint: "refs", expected: typeNames };
+  }
+
+  // Objects of top-level defs check their `$type`, which is not a declared property
+  if (stoppedAt === "$type" && node.type === "object") {
+    return {
+      code: "type_mismatch",
+      constraint: "$type",
+      expected: location.def === "main" ? location.nsid : `${location.nsid}#${location.def}`,
+    };
+  }
+
+  // Wire encodings of bytes and cid-links are validated as objects
+  if (stoppedAt !== undefined) {
+    return node.type === "bytes" || node.type === "cid-link" || node.type === "blob" ? invalidType : invalid;
+  }
+
+  switch (issue.type) {
+    case "check":
+      return check ?? invalid;
+    case "literal":
+      return node.type === "token"
+        ? { code: "const", constraint: "type", expected: `${location.nsid}#${location.def}` }
+        : { code: "const", constraint: "const", expected: node.const };
+    case "picklist":
+      return { code: "enum", constraint: "enum", expected: node.enum };
+    case "min_bytes":
+    case "min_length":
+      return { code: "min_length", constraint: "minLength", expected: node.minLength };
+    case "max_bytes":
+    case "max_length":
+      return { code: "max_length", constraint: "maxLength", expected: node.maxLength };
+    case "min_value":
+      return { code: "minimum", constraint: "minimum", expected: node.minimum };
+    case "max_value":
+      return { code: "maximum", constraint: "maximum", expected: node.maximum };
+    case "unknown":
+      return invalid;
+    default:
+      return invalidType;
+  }
+}
+
+// Locate the def a value was validated against.
+// XRPC parameters are a params schema, the other parts hold their schema in a body.
+function locateRoot(lexicons: ReadonlyMap<string, LexiconInput>, ref: string, part: XrpcPart | undefined): Location {
+  const root = locateRef(lexicons, ref, "");
+  if (root === undefined) {
+    throw new Error(`Ref not found: ${ref}`);
+  }
+  if (part === undefined) {
+    return root;
+  }
+  const body = root.node?.[part];
+  const schema = part === "parameters" ? body : isNode(body) ? body.schema : undefined;
+  return { ...root, node: isNode(schema) ? schema : undefined };
+}
+
+/**
+ * Trace valibot issues of a value validated against a def back to the lexicon constraints they violate.
+ * Each issue is tied to the NSID and def declaring the constraint, with a stable code.
+ */
+export function traceIssues(
+  lexicons: ReadonlyMap<string, LexiconInput>,
+  ref: string,
+  issues: readonly v.BaseIssue<unknown>[],
+  options: DescribeIssuesOptions = {}
+): LexiconValidationIssue[] {
+  const root = locateRoot(lexicons, ref, options.part);
+
+  // Check issues per value path, to match them with the checks the value violates
+  const checkCounts = new Map<string, number>();
+
+  return issues.map((issue) => {
+    const path = issue.path ?? [];
+    const keys = path.map((item) => item.key as string | number);
+    const missingKey = isMissingKey(issue);
+
+    // Walk the path, keeping the location of the value holding the last key
+    let location = root;
+    let parent: Location | undefined;
+    let value: unknown = issue.path ? issue.path[0].input : issue.input;
+    let stoppedAt: unknown;
+    for (const item of path) {
+      parent = dereference(lexicons, location, value);
+      const child = locateChild(parent, item.key);
+      if (child === undefined) {
+        location = parent;
+        stoppedAt = item.key;
+        break;
+      }
+      location = child;
+      value = item.value;
+    }
+
+    const base = { path: keys, received: issue.input, message: issue.message };
+
+    // Missing required properties are violations of the object holding them
+    const lastKey = keys[keys.length - 1];
+    if (missingKey && parent !== undefined && (stoppedAt === undefined || stoppedAt === lastKey) &&
+      (parent.node?.type === "object" || parent.node?.type === "params")) {
+      return { ...base, code: "required", nsid: parent.nsid, def: parent.def, constraint: "required", expected: lastKey };
+    }
+
+    if (stoppedAt === undefined) {
+      location = dereference(lexicons, location, value);
+    }
+
+    let check: Violation | undefined;
+    if (issue.type === "check" && stoppedAt === undefined) {
+      const pathKey = JSON.stringify(keys);
+      const index = checkCounts.get(pathKey) ?? 0;
+      checkCounts.set(pathKey, index + 1);
+      check = violatedChecks(location, value, options)[index];
+    }
+
+    const violation = classify(location, issue, stoppedAt, value, check);
+    return { ...base, ...violation, nsid: location.nsid, def: location.def };
+  });
+}
+
+const TYPE_MESSAGES: Record<string, string> = {
+  boolean: "must be a boolean",
+  integer: "must be an integer",
+  string: "must be a string",
+  bytes: "must be a byte array",
+  "cid-link": "must be a CID",
+  blob: "should be a blob ref",
+  array: "must be an array",
+  object: "must be an object",
+  params: "must be an object",
+  unknown: "must be an object",
+};
+
+const FORMAT_MESSAGES: Record<string, string> = {
+  "at-identifier": "must be a valid did or a handle",
+  "at-uri": "must be a valid at-uri",
+  cid: "must be a cid string",
+  datetime: "must be an valid atproto datetime (both RFC-3339 and ISO-8601)",
+  did: "must be a valid did",
+  handle: "must be a valid handle",
+  language: "must be a well-formed BCP 47 language tag",
+  nsid: "must be a valid nsid",
+  "record-key": "must be a valid Record Key",
+  tid: "must be a valid TID",
+  uri: "must be a uri",
+};
+
+// Length limits are in characters for strings, elements for arrays and bytes for bytes
+const LENGTH_MESSAGES: Record<string, { min: string; max: string; unit: string }> = {
+  string: { min: "must not be shorter than", max: "must not be longer than", unit: "characters" },
+  array: { min: "must not have fewer than", max: "must not have more than", unit: "elements" },
+  bytes: { min: "must not be smaller than", max: "must not be larger than", unit: "bytes" },
+};
+
+/**
+ * Format an issue found by describeIssues like `@atproto/lexicon` does, e.g.
+ * `Record/text must not be longer than 300 graphemes`.
+ * The root names the validated value: Record, Object, Params, Input, Output or Message.
+ */
+export function formatIssue(issue: LexiconValidationIssue, root = "Object"): string {
+  const at = (path: (string | number)[]) => [root, ...path].join("/");
+  const subject = at(issue.path);
+  // Union issues are reported at the union, not its `$type`
+  const union = at(issue.path[issue.path.length - 1] === "$type" ? issue.path.slice(0, -1) : issue.path);
+  const expected = issue.expected;
+  const list = (separator: string) => (Array.isArray(expected) ? expected.join(separator) : String(expected));
+
+  switch (issue.code) {
+    case "required":
+      return `${at(issue.path.slice(0, -1))} must have the property "${String(expected)}"`;
+    case "invalid_type":
+      return `${subject} ${TYPE_MESSAGES[String(expected)] ?? `must be ${String(expected)}`}`;
+    case "const":
+    case "type_mismatch":
+      return `${subject} must be ${String(expected)}`;
+    case "enum":
+      return `${subject} must be one of (${list("|")})`;
+    case "known_values":
+      return `${subject} must be one of the known values (${list("|")})`;
+    case "format":
+      return `${subject} ${FORMAT_MESSAGES[String(expected)] ?? `must be a valid ${String(expected)}`}`;
+    case "min_length":
+    case "max_length": {
+      const { min, max, unit } = LENGTH_MESSAGES[lengthTypeOf(issue.received)];
+      return `${subject} ${issue.code === "min_length" ? min : max} ${String(expected)} ${unit}`;
+    }
+    case "min_graphemes":
+      return `${subject} must not be shorter than ${String(expected)} graphemes`;
+    case "max_graphemes":
+      return `${subject} must not be longer than ${String(expected)} graphemes`;
+    case "minimum":
+      return `${subject} can not be less than ${String(expected)}`;
+    case "maximum":
+      return `${subject} can not be greater than ${String(expected)}`;
+    case "missing_type":
+      return `${union} must be an object which includes the "$type" property`;
+    case "closed_union":
+      return `${union} $type must be one of ${list(", ")}`;
+    case "untyped_blob":
+      return `${subject} should be a typed blob ref`;
+    case "blob_accept":
+      return `${subject} mimeType must match one of ${list(", ")}`;
+    case "blob_max_size":
+      return `${subject} must not be larger than ${String(expected)} bytes`;
+    case "invalid":
+      return `${subject} is invalid: ${issue.message}`;
+  }
+}
+
+/** Format an issue like `formatIssue` for a value validated against a part of an XRPC def */
+export function formatXrpcIssue(issue: LexiconValidationIssue, root: string, part?: XrpcPart): string {
+  // Params are reported by their name, without a root - unless one is missing
+  return part === "parameters" && issue.code !== "required" && issue.path.length > 0
+    ? formatIssue({ ...issue, path: issue.path.slice(1) }, String(issue.path[0]))
+    : formatIssue(issue, root);
+}
+
+// Length issues are reported for strings, arrays and bytes - tell them apart by the offending value
+function lengthTypeOf(value: unknown): string {
+  if (typeof value === "string") return "string";
+  if (Array.isArray(value)) return "array";
+  return "bytes";
+}
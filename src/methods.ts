@@ -0,0 +1,49 @@
+import type * as v from "valibot";
+import type { ProcedureValidators, QueryValidators } from "./converters/xrpc.js";
+import type { InferXrpcValidators, LexiconsMap } from "./infer.js";
+import { LexiconRegistry } from "./registry.js";
+import type { LexiconInput } from "./types.js";
+
+// XRPC methods - the query and procedure main defs - shared by the client and the router.
+// Values are validated in wire format, as that is what travels over JSON.
+
+// Validators of the query and procedure main defs, by NSID
+export type XrpcMethods<Lexicons extends LexiconsMap> = {
+  [Id in keyof Lexicons & string as Lexicons[Id]["defs"] extends { main: { type: "query" | "procedure" } }
+    ? Id
+    : never]: InferXrpcValidators<Lexicons[Id] & { id: Id }, {}, 'wire', Lexicons> extends { main: infer M } ? M : never;
+};
+
+// Methods without params infer them as never
+export type MethodParams<M> = M extends { parameters: v.GenericSchema<unknown, infer P> } ? ([P] extends [never] ? {} : P) : never;
+export type MethodInput<M> = M extends { input: v.GenericSchema<unknown, infer I> } ? I : undefined;
+export type MethodOutput<M> = M extends { output: v.GenericSchema<unknown, infer O> } ? O : never;
+export type MethodErrorName<M> = M extends { errors: (infer N extends string)[] } ? N : never;
+
+export type MainDef<Lexicons extends LexiconsMap, Id extends keyof Lexicons> = Lexicons[Id]["defs"] extends { main: infer M } ? M : never;
+
+export type MethodValidators = QueryValidators | ProcedureValidators;
+
+/** Look up the validators of XRPC methods by NSID - undefined for NSIDs that are not queries or procedures. */
+export function createMethodResolver(lexicons: readonly LexiconInput[]): (nsid: string) => MethodValidators | undefined {
+  const registry = new LexiconRegistry({ format: 'wire' }) as LexiconRegistry<LexiconsMap, {}, 'wire'>;
+  for (const lexicon of lexicons) {
+    registry.add(lexicon);
+  }
+  const cache = new Map<string, MethodValidators>();
+
+  return (nsid) => {
+    let validators = cache.get(nsid);
+    if (validators === undefined) {
+      const type = (registry.get(nsid)?.defs.main as { type?: string } | undefined)?.type;
+      if (type !== "query" && type !== "procedure") {
+        return undefined;
+      }
+      validators = (registry.xrpcToValibot(nsid) as Record<string, MethodValidators>).main;
+      cache.set(nsid, validators);
+    }
+    return validators;
+  };
+}
+
+export const isProcedure = (validators: MethodValidators): validators is ProcedureValidators => "input" in validators;
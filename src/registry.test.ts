@@ -0,0 +1,218 @@
+import * as v from "valibot";
+import { describe, expect, expectTypeOf, it } from "vitest";
+import { LexiconRegistry } from "./index.js";
+import { fromWireTransforms, toWireTransforms } from "./wire.js";
+
+const strongRef = {
+  lexicon: 1,
+  id: "com.example.strongRef",
+  defs: {
+    main: {
+      type: "object",
+      required: ["uri", "cid"],
+      properties: {
+        uri: { type: "string", format: "at-uri" },
+        cid: { type: "string" },
+      },
+    },
+  },
+} as const;
+
+const defs = {
+  lexicon: 1,
+  id: "com.example.defs",
+  defs: {
+    author: {
+      type: "object",
+      required: ["name"],
+      properties: {
+        name: { type: "string" },
+        pinned: { type: "ref", ref: "com.example.strongRef" },
+      },
+    },
+  },
+} as const;
+
+const post = {
+  lexicon: 1,
+  id: "com.example.post",
+  defs: {
+    main: {
+      type: "record",
+      key: "tid",
+      record: {
+        type: "object",
+        required: ["text", "author"],
+        properties: {
+          text: { type: "string" },
+          author: { type: "ref", ref: "com.example.defs#author" },
+          reply: { type: "ref", ref: "com.example.post#replyRef" },
+        },
+      },
+    },
+    replyRef: {
+      type: "object",
+      required: ["parent"],
+      properties: {
+        parent: { type: "ref", ref: "com.example.strongRef#main" },
+      },
+    },
+    getPost: {
+      type: "query",
+      parameters: {
+        type: "params",
+        required: ["uri"],
+        properties: {
+          uri: { type: "string", format: "at-uri" },
+        },
+      },
+      output: {
+        encoding: "application/json",
+        schema: { type: "ref", ref: "com.example.defs#author" },
+      },
+    },
+  },
+} as const;
+
+const uri = "at://did:plc:abc/com.example.post/3jui7kd54zh2y";
+
+describe("LexiconRegistry", () => {
+  it("resolves refs across lexicon documents", () => {
+    const registry = new LexiconRegistry().add(strongRef, defs, post);
+    const validators = registry.lexiconToValibot("com.example.post");
+
+    expect(
+      v.safeParse(validators.main, {
+        text: "Hello",
+        author: { name: "Alice", pinned: { uri, cid: "bafyreiabc" } },
+        reply: { parent: { uri, cid: "bafyreiabc" } },
+      }).success
+    ).toBe(true);
+
+    expect(v.safeParse(validators.main, { text: "Hello", author: {} }).success).toBe(false);
+    expect(
+      v.safeParse(validators.main, {
+        text: "Hello",
+        author: { name: "Alice", pinned: { uri } },
+      }).success
+    ).toBe(false);
+  });
+
+  it("resolves fully-qualified refs", () => {
+    const registry = new LexiconRegistry().add(strongRef, defs);
+
+    expect(v.safeParse(registry.resolve("com.example.strongRef"), { uri, cid: "bafyreiabc" }).success).toBe(true);
+    expect(v.safeParse(registry.resolve("com.example.defs#author"), { name: "Alice" }).success).toBe(true);
+    expect(v.safeParse(registry.resolve("com.example.defs#author"), {}).success).toBe(false);
+    expect(() => registry.resolve("#author")).toThrow();
+  });
+
+  it("shares converted defs between lexicons", () => {
+    const registry = new LexiconRegistry().add(strongRef, defs);
+
+    expect(registry.resolve("com.example.strongRef#main")).toBe(registry.resolve("com.example.strongRef"));
+  });
+
+  it("converts XRPC defs with cross-document refs", () => {
+    const registry = new LexiconRegistry().add(strongRef, defs, post);
+    const { getPost } = registry.xrpcToValibot("com.example.post");
+
+    expect(v.safeParse(getPost.parameters, { uri }).success).toBe(true);
+    expect(v.safeParse(getPost.output, { name: "Alice" }).success).toBe(true);
+    expect(v.safeParse(getPost.output, {}).success).toBe(false);
+  });
+
+  it("resolves refs to lexicons added later", () => {
+    const registry = new LexiconRegistry().add(defs);
+    const author = registry.resolve("com.example.defs#author");
+
+    registry.add(strongRef);
+
+    expect(v.safeParse(author, { name: "Alice", pinned: { uri } }).success).toBe(false);
+  });
+
+  it("reports unresolved refs reachable through other lexicons", () => {
+    const registry = new LexiconRegistry().add(defs, post);
+
+    expect(registry.findUnresolvedRefs("com.example.post")).toEqual([
+      { ref: "com.example.strongRef", lexiconId: "com.example.defs", path: "defs.author.properties.pinned.ref" },
+      { ref: "com.example.strongRef#main", lexiconId: "com.example.post", path: "defs.replyRef.properties.parent.ref" },
+    ]);
+  });
+
+  it("throws on unresolved refs with the 'error' policy", () => {
+    const registry = new LexiconRegistry({ unresolvedRefs: "error" }).add(defs, post);
+
+    expect(() => registry.lexiconToValibot("com.example.post")).toThrow("Unresolved refs in com.example.post");
+    registry.add(strongRef);
+    expect(() => registry.lexiconToValibot("com.example.post")).not.toThrow();
+  });
+
+  it("throws on unresolved refs when resolving with the 'error' policy, not when parsing", () => {
+    const registry = new LexiconRegistry({ unresolvedRefs: "error" }).add(defs, post);
+
+    expect(() => registry.resolve("com.example.defs#author")).toThrow(
+      "Unresolved refs in com.example.defs:\n  com.example.strongRef (com.example.defs defs.author.properties.pinned.ref)"
+    );
+    registry.add(strongRef);
+    const author = registry.resolve("com.example.defs#author");
+    expect(v.safeParse(author, { name: "Alice", pinned: { uri } }).success).toBe(false);
+  });
+
+  it("reports unresolved refs reachable from one def", () => {
+    const registry = new LexiconRegistry().add(defs, post);
+
+    expect(registry.findUnresolvedRefs("com.example.post", "replyRef")).toEqual([
+      { ref: "com.example.strongRef#main", lexiconId: "com.example.post", path: "defs.replyRef.properties.parent.ref" },
+    ]);
+  });
+
+  it("rejects duplicate lexicons", () => {
+    const registry = new LexiconRegistry().add(strongRef);
+
+    expect(() => registry.add(strongRef)).toThrow("Lexicon already registered: com.example.strongRef");
+  });
+
+  it("applies the format option to all lexicons", () => {
+    const registry = new LexiconRegistry({ format: "wire" }).add(strongRef, defs, post);
+    const validators = registry.lexiconToValibot("com.example.post");
+
+    expect(
+      v.safeParse(validators.main, {
+        $type: "com.example.post",
+        text: "Hello",
+        author: { name: "Alice" },
+      }).success
+    ).toBe(true);
+  });
+
+  it("derives wire transforms across lexicon documents", () => {
+    const registry = new LexiconRegistry().add(strongRef, defs, post);
+    const value = { text: "Hello", author: { name: "Alice" } };
+
+    expect(v.parse(registry.transform("com.example.post", toWireTransforms).main, value)).toEqual({ $type: "com.example.post", ...value });
+    expect(v.parse(registry.transform("com.example.post", fromWireTransforms).main, { $type: "com.example.post", ...value })).toEqual({
+      $type: "com.example.post",
+      ...value,
+    });
+  });
+
+  it("infers cross-document refs", () => {
+    const registry = new LexiconRegistry().add(strongRef, defs, post);
+    const validators = registry.lexiconToValibot("com.example.post");
+    const { getPost } = registry.xrpcToValibot("com.example.post");
+
+    type Post = v.InferOutput<typeof validators.main>;
+    type StrongRef = { $type?: "com.example.strongRef" | "com.example.strongRef#main"; uri: string; cid: string };
+    type Author = { $type?: "com.example.defs#author"; name: string; pinned?: StrongRef };
+
+    expectTypeOf<Post>().toEqualTypeOf<{
+      $type?: "com.example.post";
+      text: string;
+      author: Author;
+      reply?: { $type?: "com.example.post#replyRef"; parent: StrongRef };
+    }>();
+    expectTypeOf<v.InferOutput<typeof getPost.output>>().toEqualTypeOf<Author>();
+    expectTypeOf<v.InferOutput<ReturnType<typeof registry.resolve<"com.example.defs#author">>>>().toEqualTypeOf<Author>();
+  });
+});
@@ -0,0 +1,167 @@
+import type * as v from "valibot";
+import {
+  assertRefsResolved,
+  collectUnresolvedRefs,
+  convertLexiconDefs,
+  convertRecordKeyDefs,
+  convertXrpcDefs,
+  createContext,
+  createScope,
+  type ConversionScope,
+} from "./convert.js";
+import type {
+  BlobFormat,
+  InferLexiconRef,
+  InferLexiconTransformers,
+  InferLexiconValidators,
+  InferRecordKeyValidators,
+  InferSchemaOutputs,
+  InferXrpcValidators,
+  LexiconsMap,
+} from "./infer.js";
+import { traceIssues, type XrpcPart } from "./issues.js";
+import type {
+  LexiconInput,
+  LexiconToValibotOptions,
+  LexiconValidationIssue,
+  Mutable,
+  UnresolvedRef,
+  WireTransform,
+  WireTransforms,
+} from "./types.js";
+
+// Maps a list of lexicons to a lexicons map keyed by their NSID
+export type LexiconsById<T extends readonly LexiconInput[]> = {
+  [L in T[number] as L["id"]]: Mutable<L>;
+};
+
+/**
+ * A collection of lexicons whose refs resolve across documents.
+ * All conversions share one cache, so each def is converted at most once.
+ */
+export class LexiconRegistry<
+  Lexicons extends LexiconsMap = {},
+  ExtRefs extends Record<string, v.GenericSchema> = {},
+  Format extends BlobFormat = 'sdk'
+> {
+  private readonly lexicons = new Map<string, LexiconInput>();
+  private readonly options: LexiconToValibotOptions;
+  private readonly scope: ConversionScope;
+  // One scope per transforms, created on first use
+  private readonly transformScopes = new Map<WireTransforms, ConversionScope>();
+
+  constructor(options: LexiconToValibotOptions & { externalRefs?: ExtRefs; format?: Format } = {}) {
+    this.options = options;
+    this.scope = createScope(this.lexicons, options);
+  }
+
+  /** Add lexicons to the registry. Throws if a lexicon with the same NSID is already registered. */
+  add<const T extends readonly LexiconInput[]>(
+    ...lexicons: T
+  ): LexiconRegistry<Lexicons & LexiconsById<T>, ExtRefs, Format> {
+    for (const lexicon of lexicons) {
+      if (this.lexicons.has(lexicon.id)) {
+        throw new Error(`Lexicon already registered: ${lexicon.id}`);
+      }
+      this.lexicons.set(lexicon.id, lexicon);
+    }
+    return this as unknown as LexiconRegistry<Lexicons & LexiconsById<T>, ExtRefs, Format>;
+  }
+
+  has(nsid: string): boolean {
+    return this.lexicons.has(nsid);
+  }
+
+  get<Id extends keyof Lexicons & string>(nsid: Id): Lexicons[Id] | undefined {
+    return this.lexicons.get(nsid) as Lexicons[Id] | undefined;
+  }
+
+  /**
+   * Resolve a fully-qualified ref (nsid#defName, or nsid for the main def) to its schema.
+   * With the 'error' policy, throws if a ref reachable from the def is unresolved.
+   */
+  resolve<R extends string>(
+    ref: R
+  ): v.GenericSchema<InferLexiconRef<R, Lexicons, InferSchemaOutputs<ExtRefs>, Format>> {
+    if (ref.startsWith("#")) {
+      throw new Error(`Expected a fully-qualified ref, got local ref: ${ref}`);
+    }
+    const [nsid, defName = "main"] = ref.split("#");
+    // Nested refs resolve behind v.lazy, so check them now rather than on the first parse reaching one
+    const def = this.lexicons.get(nsid)?.defs[defName];
+    if (def !== undefined) {
+      assertRefsResolved(nsid, this.scope, (candidate) => candidate === def);
+    }
+    return createContext(nsid, this.scope).resolveRef(ref) as v.GenericSchema<
+      InferLexiconRef<R, Lexicons, InferSchemaOutputs<ExtRefs>, Format>
+    >;
+  }
+
+  /** Dry-run: report every unresolved ref reachable from the defs of a registered lexicon, or from one of its defs. */
+  findUnresolvedRefs(nsid: keyof Lexicons & string, defName?: string): UnresolvedRef[] {
+    const def = defName === undefined ? undefined : this.lexicons.get(nsid)?.defs[defName];
+    return collectUnresolvedRefs(nsid, this.scope, (candidate) => defName === undefined || candidate === def);
+  }
+
+  /** Schemas for the record and object defs of a registered lexicon, like lexiconToValibot. */
+  lexiconToValibot<Id extends keyof Lexicons & string>(
+    nsid: Id
+  ): InferLexiconValidators<Lexicons[Id] & { id: Id }, InferSchemaOutputs<ExtRefs>, Format, Lexicons> {
+    return convertLexiconDefs(nsid, this.scope) as InferLexiconValidators<
+      Lexicons[Id] & { id: Id },
+      InferSchemaOutputs<ExtRefs>,
+      Format,
+      Lexicons
+    >;
+  }
+
+  /** Validators for the XRPC defs of a registered lexicon, like xrpcToValibot. */
+  xrpcToValibot<Id extends keyof Lexicons & string>(
+    nsid: Id
+  ): InferXrpcValidators<Lexicons[Id] & { id: Id }, InferSchemaOutputs<ExtRefs>, Format, Lexicons> {
+    return convertXrpcDefs(nsid, this.scope) as InferXrpcValidators<
+      Lexicons[Id] & { id: Id },
+      InferSchemaOutputs<ExtRefs>,
+      Format,
+      Lexicons
+    >;
+  }
+
+  /**
+   * SDK <-> wire transforming schemas for the record and object defs of a registered lexicon, like toWire and fromWire.
+   * Takes `toWireTransforms` or `fromWireTransforms` from the ./wire subpath.
+   */
+  transform<Id extends keyof Lexicons & string, T extends WireTransform>(
+    nsid: Id,
+    transforms: WireTransforms<T>
+  ): InferLexiconTransformers<Lexicons[Id] & { id: Id }, InferSchemaOutputs<ExtRefs>, T, Lexicons> {
+    let scope = this.transformScopes.get(transforms);
+    if (scope === undefined) {
+      scope = createScope(this.lexicons, this.options, transforms);
+      this.transformScopes.set(transforms, scope);
+    }
+    return convertLexiconDefs(nsid, scope) as InferLexiconTransformers<
+      Lexicons[Id] & { id: Id },
+      InferSchemaOutputs<ExtRefs>,
+      T,
+      Lexicons
+    >;
+  }
+
+  /** Record key validators for the record defs of a registered lexicon, like recordKeysToValibot. */
+  recordKeysToValibot<Id extends keyof Lexicons & string>(nsid: Id): InferRecordKeyValidators<Lexicons[Id]> {
+    return convertRecordKeyDefs(nsid, this.scope) as InferRecordKeyValidators<Lexicons[Id]>;
+  }
+
+  /**
+   * Trace the issues of a value validated against a def (nsid#defName, or nsid for the main def)
+   * back to the lexicon constraints they violate, like describeIssues.
+   */
+  describeIssues(ref: string, issues: readonly v.BaseIssue<unknown>[], part?: XrpcPart): LexiconValidationIssue[] {
+    return traceIssues(this.lexicons, ref, issues, {
+      part,
+      knownValues: this.scope.knownValues,
+      untypedBlobs: this.scope.untypedBlobs,
+    });
+  }
+}
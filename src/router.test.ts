@@ -0,0 +1,235 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import * as v from "valibot";
+import { createXrpcClient, createXrpcRouter, XrpcError, type XrpcRouterOptions } from "./index.js";
+
+const getPosts = {
+  lexicon: 1,
+  id: "com.example.getPosts",
+  defs: {
+    main: {
+      type: "query",
+      parameters: {
+        type: "params",
+        required: ["actor"],
+        properties: {
+          actor: { type: "string", format: "did" },
+          limit: { type: "integer", minimum: 1, maximum: 100, default: 50 },
+        },
+      },
+      output: {
+        encoding: "application/json",
+        schema: {
+          type: "object",
+          required: ["texts"],
+          properties: { texts: { type: "array", items: { type: "string" } } },
+        },
+      },
+      errors: [{ name: "ActorNotFound" }],
+    },
+  },
+} as const;
+
+const createPost = {
+  lexicon: 1,
+  id: "com.example.createPost",
+  defs: {
+    main: {
+      type: "procedure",
+      input: {
+        encoding: "application/json",
+        schema: { type: "object", required: ["text"], properties: { text: { type: "string", maxLength: 10 } } },
+      },
+      output: {
+        encoding: "application/json",
+        schema: {
+          type: "object",
+          required: ["id"],
+          properties: { id: { type: "integer" }, draft: { type: "boolean", default: false } },
+        },
+      },
+    },
+  },
+} as const;
+
+const uploadBlob = {
+  lexicon: 1,
+  id: "com.example.uploadBlob",
+  defs: {
+    main: {
+      type: "procedure",
+      input: { encoding: "image/*" },
+      output: { encoding: "application/json", schema: { type: "object", required: ["size"], properties: { size: { type: "integer" } } } },
+    },
+  },
+} as const;
+
+const ping = {
+  lexicon: 1,
+  id: "com.example.ping",
+  defs: { main: { type: "query" } },
+} as const;
+
+const lexicons = [getPosts, createPost, uploadBlob, ping] as const;
+
+function createRouter(options?: XrpcRouterOptions) {
+  return createXrpcRouter(lexicons, options)
+    .add("com.example.getPosts", ({ params }) => {
+      if (params.actor === "did:plc:missing") {
+        throw new XrpcError(400, "ActorNotFound", "No such actor");
+      }
+      return { texts: Array.from({ length: Math.min(params.limit, 2) }, () => params.actor) };
+    })
+    .add("com.example.createPost", ({ input }) => (input.text === "bad" ? ({ id: "1" } as never) : { id: input.text.length }))
+    .add("com.example.uploadBlob", async ({ input, request }) => ({
+      size: input instanceof ReadableStream ? (await new Response(input).arrayBuffer()).byteLength : -1,
+      type: request.headers.get("content-type"),
+    }));
+}
+
+const url = (path: string) => `https://example.com/xrpc/${path}`;
+const post = (path: string, body: BodyInit, contentType = "application/json") =>
+  new Request(url(path), { method: "POST", body, headers: { "content-type": contentType } });
+
+describe("createXrpcRouter", () => {
+  const router = createRouter();
+
+  it("calls query handlers with coerced params", async () => {
+    const response = await router.fetch(new Request(url("com.example.getPosts?actor=did:plc:abc&limit=1")));
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("application/json");
+    expect(await response.json()).toEqual({ texts: ["did:plc:abc"] });
+  });
+
+  it("calls procedure handlers with validated input", async () => {
+    const response = await router.fetch(post("com.example.createPost", JSON.stringify({ text: "hello" })));
+    expect(await response.json()).toEqual({ id: 5 });
+
+    const upload = await router.fetch(post("com.example.uploadBlob", new Uint8Array([1, 2, 3]), "image/png"));
+    expect(await upload.json()).toEqual({ size: 3, type: "image/png" });
+  });
+
+  it("answers invalid requests with InvalidRequest errors", async () => {
+    const invalid = async (request: Request) => {
+      const response = await router.fetch(request);
+      expect(response.status).toBe(400);
+      return response.json();
+    };
+
+    expect(await invalid(new Request(url("com.example.getPosts")))).toEqual({
+      error: "InvalidRequest",
+      message: 'Params must have the property "actor"',
+    });
+    expect(await invalid(new Request(url("com.example.getPosts?actor=did:plc:abc&limit=0")))).toEqual({
+      error: "InvalidRequest",
+      message: "limit can not be less than 1",
+    });
+    expect(await invalid(new Request(url("com.example.createPost")))).toEqual({
+      error: "InvalidRequest",
+      message: "Incorrect HTTP method (GET) expected POST",
+    });
+    expect(await invalid(post("com.example.createPost", JSON.stringify({ text: "far too long" })))).toEqual({
+      error: "InvalidRequest",
+      message: "Input/text must not be longer than 10 characters",
+    });
+    expect(await invalid(post("com.example.createPost", JSON.stringify({ text: "hi" }), "text/plain"))).toEqual({
+      error: "InvalidRequest",
+      message: "Wrong request encoding (Content-Type): text/plain",
+    });
+    expect(await invalid(post("com.example.createPost", "{"))).toEqual({
+      error: "InvalidRequest",
+      message: "Request body is not valid JSON",
+    });
+    expect(await invalid(post("com.example.uploadBlob", new Uint8Array([1]), "video/mp4"))).toMatchObject({
+      message: "Wrong request encoding (Content-Type): video/mp4",
+    });
+  });
+
+  it("answers methods without a handler with MethodNotImplemented", async () => {
+    for (const path of ["com.example.ping", "com.example.missing"]) {
+      const response = await router.fetch(new Request(url(path)));
+      expect(response.status).toBe(501);
+      expect(await response.json()).toEqual({ error: "MethodNotImplemented", message: "Method Not Implemented" });
+    }
+  });
+
+  it("answers paths outside /xrpc/ with NotFound", async () => {
+    for (const path of ["https://example.com/", "https://example.com/health", url("../com.example.getPosts")]) {
+      const response = await router.fetch(new Request(path));
+      expect(response.status).toBe(404);
+      expect(await response.json()).toEqual({ error: "NotFound", message: "Not Found" });
+    }
+  });
+
+  it("answers thrown errors", async () => {
+    const response = await router.fetch(new Request(url("com.example.getPosts?actor=did:plc:missing")));
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "ActorNotFound", message: "No such actor" });
+
+    const errors: unknown[] = [];
+    const failing = createXrpcRouter(lexicons, { onError: (error) => errors.push(error) }).add("com.example.ping", () => {
+      throw new Error("Database is down");
+    });
+    const failed = await failing.fetch(new Request(url("com.example.ping")));
+    expect(failed.status).toBe(500);
+    expect(await failed.json()).toEqual({ error: "InternalServerError", message: "Internal Server Error" });
+    expect(errors).toEqual([new Error("Database is down")]);
+  });
+
+  it("validates outputs when enabled", async () => {
+    const unchecked = await router.fetch(post("com.example.createPost", JSON.stringify({ text: "bad" })));
+    expect(await unchecked.json()).toEqual({ id: "1" });
+
+    const errors: unknown[] = [];
+    const checked = createRouter({ validateOutput: true, onError: (error) => errors.push(error) });
+    const response = await checked.fetch(post("com.example.createPost", JSON.stringify({ text: "bad" })));
+    expect(response.status).toBe(500);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(v.ValiError);
+    expect((errors[0] as v.ValiError<v.GenericSchema>).issues[0].path?.[0].key).toBe("id");
+
+    // Validated outputs are sent, with their defaults applied
+    const valid = await checked.fetch(post("com.example.createPost", JSON.stringify({ text: "hello" })));
+    expect(await valid.json()).toEqual({ id: 5, draft: false });
+  });
+
+  it("rejects handlers for unknown or registered methods", () => {
+    expect(() => createRouter().add("com.example.getPosts", () => ({ texts: [] }))).toThrow(
+      "Handler already registered: com.example.getPosts"
+    );
+    // @ts-expect-error - only queries and procedures have handlers
+    expect(() => createXrpcRouter(lexicons).add("com.example.missing", () => ({}))).toThrow(
+      "Not a query or procedure: com.example.missing"
+    );
+  });
+
+  it("serves the XRPC client", async () => {
+    const client = createXrpcClient({
+      service: "https://example.com",
+      fetch: (input, init) => router.fetch(new Request(input, init)),
+      lexicons,
+    });
+    expect(await client.call("com.example.getPosts", { params: { actor: "did:plc:abc" } })).toMatchObject({
+      success: true,
+      data: { texts: ["did:plc:abc", "did:plc:abc"] },
+    });
+    expect(await client.call("com.example.getPosts", { params: { actor: "did:plc:missing" } })).toMatchObject({
+      success: false,
+      error: { error: "ActorNotFound" },
+    });
+  });
+
+  it("infers handler params and input", () => {
+    createXrpcRouter(lexicons)
+      .add("com.example.getPosts", ({ params, input }) => {
+        expectTypeOf(params).toEqualTypeOf<{ actor: string; limit: number }>();
+        expectTypeOf(input).toEqualTypeOf<undefined>();
+        return { texts: [] };
+      })
+      .add("com.example.createPost", ({ input }) => {
+        expectTypeOf(input).toEqualTypeOf<{ text: string }>();
+        return { id: 1 };
+      })
+      // @ts-expect-error - outputs must match the lexicon
+      .add("com.example.uploadBlob", () => ({ size: "1" }));
+  });
+});
@@ -0,0 +1,215 @@
+import * as v from "valibot";
+import type { ProcedureValidators, XrpcErrorBody } from "./converters/xrpc.js";
+import { isJsonEncoding, matchesEncoding } from "./converters/xrpc.js";
+import type { DefaultedKeys, LexiconsMap, Prettify } from "./infer.js";
+import { formatXrpcIssue, traceIssues, type XrpcPart } from "./issues.js";
+import {
+  createMethodResolver,
+  isProcedure,
+  type MainDef,
+  type MethodErrorName,
+  type MethodInput,
+  type MethodOutput,
+  type MethodParams,
+  type MethodValidators,
+  type XrpcMethods,
+} from "./methods.js";
+import type { LexiconsById } from "./registry.js";
+import type { LexiconInput } from "./types.js";
+
+// XRPC server on Fetch API Request/Response: params, input and its Content-Type are validated before a
+// handler is called, and validation failures are answered with InvalidRequest errors like atproto services do.
+
+/** An error a handler throws to respond with an XRPC error body. */
+export class XrpcError<Name extends string = string> extends Error {
+  constructor(
+    readonly status: number,
+    readonly error: Name | (string & {}),
+    message?: string
+  ) {
+    super(message ?? error);
+    this.name = "XrpcError";
+  }
+}
+
+/** What a handler receives: the validated params and input, and the request they came from. */
+export interface XrpcHandlerContext<Params, Input> {
+  params: Params;
+  input: Input;
+  request: Request;
+}
+
+// Output properties with a default may be left out by handlers, validated outputs have them filled in
+type HandlerOutput<Def, Output> = Def extends { output: { schema: { type: "object"; properties: infer Props } } }
+  ? Prettify<Omit<Output, DefaultedKeys<Props>> & Partial<Pick<Output, DefaultedKeys<Props> & keyof Output>>>
+  : Output;
+
+export type XrpcHandler<
+  Lexicons extends LexiconsMap,
+  Id extends keyof XrpcMethods<Lexicons>,
+  Output = HandlerOutput<MainDef<Lexicons, Id>, MethodOutput<XrpcMethods<Lexicons>[Id]>>,
+> = (
+  context: XrpcHandlerContext<MethodParams<XrpcMethods<Lexicons>[Id]>, MethodInput<XrpcMethods<Lexicons>[Id]>>
+) => Output | Promise<Output>;
+
+/** Declared error names of a method, for the XrpcErrors its handler throws. */
+export type XrpcHandlerErrorName<Lexicons extends LexiconsMap, Id extends keyof XrpcMethods<Lexicons>> = MethodErrorName<
+  XrpcMethods<Lexicons>[Id]
+>;
+
+export interface XrpcRouterOptions {
+  /**
+   * Validate the outputs of handlers, answering invalid ones with an InternalServerError - meant for development,
+   * like `validateOutput: process.env.NODE_ENV !== "production"`. Defaults to false.
+   */
+  validateOutput?: boolean;
+  /** Called with errors answered with an InternalServerError: ones handlers throw, and ValiErrors of invalid outputs. */
+  onError?: (error: unknown, request: Request) => void;
+}
+
+export interface XrpcRouter<Lexicons extends LexiconsMap> {
+  /** Handle calls to a query or procedure. Throws if the method already has a handler. */
+  add<Id extends keyof XrpcMethods<Lexicons> & string>(nsid: Id, handler: XrpcHandler<Lexicons, Id>): XrpcRouter<Lexicons>;
+  /** Answer a request to /xrpc/<nsid>. */
+  fetch(request: Request): Promise<Response>;
+}
+
+type AnyHandler = (context: XrpcHandlerContext<unknown, unknown>) => unknown;
+
+const errorResponse = (status: number, body: XrpcErrorBody) => Response.json(body, { status });
+
+// The first issue of a failed validation, formatted like @atproto/lexicon
+function describeFailure(
+  lexicons: ReadonlyMap<string, LexiconInput>,
+  nsid: string,
+  part: XrpcPart,
+  issues: readonly v.BaseIssue<unknown>[]
+): string {
+  const [issue] = traceIssues(lexicons, `${nsid}#main`, issues, { part });
+  if (issue === undefined) {
+    return issues[0].message;
+  }
+  return formatXrpcIssue(issue, part === "input" ? "Input" : "Params", part);
+}
+
+async function readInput(validators: ProcedureValidators, request: Request): Promise<{ body: unknown } | { error: string }> {
+  const encoding = validators.inputEncoding;
+  if (encoding === undefined) {
+    return { body: undefined };
+  }
+  const contentType = request.headers.get("content-type");
+  if (!matchesEncoding(encoding, contentType)) {
+    return { error: `Wrong request encoding (Content-Type): ${contentType ?? "none"}` };
+  }
+  if (!isJsonEncoding(encoding)) {
+    return { body: request.body ?? new Uint8Array() };
+  }
+  try {
+    return { body: await request.json() };
+  } catch {
+    return { error: "Request body is not valid JSON" };
+  }
+}
+
+function writeOutput(validators: MethodValidators, output: unknown): Response {
+  const encoding = validators.outputEncoding;
+  if (encoding === undefined) {
+    return new Response(null, { status: 200 });
+  }
+  if (isJsonEncoding(encoding)) {
+    return Response.json(output, { headers: { "content-type": encoding } });
+  }
+  const contentType = output instanceof Blob && output.type !== "" ? output.type : encoding;
+  return new Response(output as BodyInit, {
+    headers: { "content-type": contentType.includes("*") ? "application/octet-stream" : contentType },
+  });
+}
+
+/**
+ * Create a router answering XRPC calls to the queries and procedures of the given lexicons.
+ * Methods without a handler are answered with MethodNotImplemented, paths outside /xrpc/ with NotFound.
+ */
+export function createXrpcRouter<const T extends readonly LexiconInput[]>(
+  lexicons: T,
+  options: XrpcRouterOptions = {}
+): XrpcRouter<LexiconsById<T>> {
+  const resolve = createMethodResolver(lexicons);
+  const lexiconsById = new Map(lexicons.map((lexicon) => [lexicon.id, lexicon]));
+  const handlers = new Map<string, AnyHandler>();
+  const validateOutput = options.validateOutput ?? false;
+
+  const internalError = (error: unknown, request: Request) => {
+    options.onError?.(error, request);
+    return errorResponse(500, { error: "InternalServerError", message: "Internal Server Error" });
+  };
+
+  async function handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (!url.pathname.startsWith("/xrpc/")) {
+      return errorResponse(404, { error: "NotFound", message: "Not Found" });
+    }
+    const nsid = url.pathname.slice("/xrpc/".length);
+    const handler = handlers.get(nsid);
+    const validators = resolve(nsid);
+    if (handler === undefined || validators === undefined) {
+      return errorResponse(501, { error: "MethodNotImplemented", message: "Method Not Implemented" });
+    }
+
+    const method = isProcedure(validators) ? "POST" : "GET";
+    if (request.method !== method) {
+      return errorResponse(400, { error: "InvalidRequest", message: `Incorrect HTTP method (${request.method}) expected ${method}` });
+    }
+
+    const params = v.safeParse(validators.parseParams, url.searchParams);
+    if (!params.success) {
+      return errorResponse(400, { error: "InvalidRequest", message: describeFailure(lexiconsById, nsid, "parameters", params.issues) });
+    }
+
+    let input: unknown;
+    if (isProcedure(validators)) {
+      const read = await readInput(validators, request);
+      if ("error" in read) {
+        return errorResponse(400, { error: "InvalidRequest", message: read.error });
+      }
+      const result = v.safeParse(validators.input, read.body);
+      if (!result.success) {
+        return errorResponse(400, { error: "InvalidRequest", message: describeFailure(lexiconsById, nsid, "input", result.issues) });
+      }
+      input = result.output;
+    }
+
+    let output: unknown;
+    try {
+      output = await handler({ params: params.output, input, request });
+    } catch (error) {
+      if (error instanceof XrpcError) {
+        return errorResponse(error.status, { error: error.error, message: error.message });
+      }
+      return internalError(error, request);
+    }
+
+    if (validateOutput) {
+      const result = v.safeParse(validators.output, output);
+      if (!result.success) {
+        return internalError(new v.ValiError(result.issues), request);
+      }
+      output = result.output;
+    }
+    return writeOutput(validators, output);
+  }
+
+  const router: XrpcRouter<LexiconsById<T>> = {
+    add(nsid, handler) {
+      if (resolve(nsid) === undefined) {
+        throw new Error(`Not a query or procedure: ${nsid}`);
+      }
+      if (handlers.has(nsid)) {
+        throw new Error(`Handler already registered: ${nsid}`);
+      }
+      handlers.set(nsid, handler as AnyHandler);
+      return router;
+    },
+    fetch: handle,
+  };
+  return router;
+}
@@ -0,0 +1,46 @@
+import type * as v from "valibot";
+import { convertBlob as baseConvertBlob, convertCidLink as baseConvertCidLink } from "./converters/atproto.js";
+import { createUnion as baseCreateUnion } from "./converters/complex.js";
+import { convertBytes as baseConvertBytes } from "./converters/primitives.js";
+import {
+  createProcedureValidators as baseCreateProcedureValidators,
+  createQueryValidators as baseCreateQueryValidators,
+  createSubscriptionValidators as baseCreateSubscriptionValidators,
+} from "./converters/xrpc.js";
+
+// Helpers imported by generated modules (see codegen), so generated schemas behave like converted ones
+
+// The helpers' outputs are typed by generated modules, which pass the output type they emit for the node
+type TypedSchema<Args extends unknown[]> = <Output = unknown>(...args: Args) => v.GenericSchema<unknown, Output>;
+
+export const convertBlob = baseConvertBlob as TypedSchema<Parameters<typeof baseConvertBlob>>;
+export const convertBytes = baseConvertBytes as TypedSchema<Parameters<typeof baseConvertBytes>>;
+export const convertCidLink = baseConvertCidLink as TypedSchema<Parameters<typeof baseConvertCidLink>>;
+export const createUnion = baseCreateUnion as TypedSchema<Parameters<typeof baseCreateUnion>>;
+
+// Likewise for XRPC defs, which pass the type of their validators with the params and body types they emit
+type TypedValidators<Create extends (...args: never[]) => unknown> = <Validators = ReturnType<Create>>(
+  ...args: Parameters<Create>
+) => Validators;
+
+export const createQueryValidators = baseCreateQueryValidators as TypedValidators<typeof baseCreateQueryValidators>;
+export const createProcedureValidators = baseCreateProcedureValidators as TypedValidators<typeof baseCreateProcedureValidators>;
+export const createSubscriptionValidators = baseCreateSubscriptionValidators as TypedValidators<
+  typeof baseCreateSubscriptionValidators
+>;
+export type { QueryParamsInput, XrpcBodyInput, XrpcErrorBody } from "./converters/xrpc.js";
+
+export {
+  isValidAtIdentifier,
+  isValidAtUri,
+  isValidCid,
+  isValidDatetime,
+  isValidDid,
+  isValidHandle,
+  isValidLanguage,
+  isValidNsid,
+  isValidRecordKey,
+  isValidTid,
+  isValidUri,
+} from "./converters/formats.js";
+export { convertUnknown, countGraphemes } from "./converters/primitives.js";
@@ -20,17 +20,142 @@ export type {
   LexXrpcSubscription
 } from "@atproto/lexicon";
 
+// Flexible input type that accepts both LexiconDoc and const objects
+export interface LexiconInput {
+  lexicon: 1;
+  id: string;
+  defs: Record<string, unknown>;
+  description?: string;
+  revision?: number;
+}
+
+/**
+ * How to handle refs that resolve neither to a lexicon nor to externalRefs:
+ * - 'error': throw at conversion time, listing every unresolved ref
+ * - 'warn': log a warning and accept any value
+ * - 'unknown-object': accept any object
+ */
+export type UnresolvedRefPolicy = 'error' | 'warn' | 'unknown-object';
+
+/**
+ * How to validate untyped (legacy) blob refs `{ cid, mimeType }`, which carry no size:
+ * - 'allow': accept them, checking `accept` but skipping `maxSize`
+ * - 'reject': reject them
+ */
+export type UntypedBlobPolicy = 'allow' | 'reject';
+
+/**
+ * How to validate strings with `knownValues`:
+ * - 'open': accept any string, as the Lexicon spec requires
+ * - 'strict': reject values outside `knownValues`
+ */
+export type KnownValuesPolicy = 'open' | 'strict';
+
+// Options for lexiconToValibot
+export interface LexiconToValibotOptions {
+  /** External ref schemas (e.g., com.atproto.repo.strongRef) */
+  externalRefs?: Record<string, v.GenericSchema>;
+  /** Format for blob, bytes and cid-link validation: 'sdk' for parsing fetched records, 'wire' for outgoing JSON. Default: 'sdk' */
+  format?: 'sdk' | 'wire';
+  /** Policy for unresolved refs. Default: 'warn' */
+  unresolvedRefs?: UnresolvedRefPolicy;
+  /** Policy for untyped (legacy) blob refs. Default: 'allow' */
+  untypedBlobs?: UntypedBlobPolicy;
+  /** Policy for strings with knownValues. Default: 'open' */
+  knownValues?: KnownValuesPolicy;
+}
+
+// A ref that resolves neither to a lexicon nor to externalRefs
+export interface UnresolvedRef {
+  /** The ref as written in the lexicon */
+  ref: string;
+  /** NSID of the lexicon declaring the ref */
+  lexiconId: string;
+  /** Path of the ref within its lexicon, e.g. defs.main.record.properties.author.ref */
+  path: string;
+}
+
+// A problem in a lexicon document, found by validateLexicon
+export interface LexiconIssue {
+  /** Path of the offending node within the lexicon, e.g. defs.main.record.properties.text */
+  path: string;
+  message: string;
+}
+
+/**
+ * Stable, machine-readable code of a validation issue, named after the violated constraint.
+ * `invalid` is used for issues that cannot be traced back to a lexicon constraint.
+ */
+export type ValidationIssueCode =
+  | 'invalid_type'
+  | 'required'
+  | 'const'
+  | 'enum'
+  | 'known_values'
+  | 'format'
+  | 'min_length'
+  | 'max_length'
+  | 'min_graphemes'
+  | 'max_graphemes'
+  | 'minimum'
+  | 'maximum'
+  | 'missing_type'
+  | 'closed_union'
+  | 'type_mismatch'
+  | 'untyped_blob'
+  | 'blob_accept'
+  | 'blob_max_size'
+  | 'invalid';
+
+// A validation issue traced back to the lexicon constraint it violates, found by describeIssues
+export interface LexiconValidationIssue {
+  code: ValidationIssueCode;
+  /** NSID of the lexicon declaring the violated constraint */
+  nsid: string;
+  /** Name of the def declaring the violated constraint */
+  def: string;
+  /** Path of the offending value within the validated value */
+  path: (string | number)[];
+  /** The violated lexicon keyword, e.g. maxGraphemes, format or required */
+  constraint: string;
+  /** Value of the violated keyword, e.g. 300 for maxGraphemes or did for format */
+  expected?: unknown;
+  /** The offending value */
+  received: unknown;
+  /** The message of the underlying valibot issue */
+  message: string;
+}
+
 export type RefResolver = (ref: string) => v.GenericSchema;
 
-/** Format for blob validation */
+/** Format for blob, bytes and cid-link validation */
 export type BlobFormat = 'sdk' | 'wire';
 
+/** Transform between formats: 'toWire' parses SDK values into wire JSON, 'fromWire' the reverse */
+export type WireTransform = 'toWire' | 'fromWire';
+
+/** Conversions of validated blobs, bytes and cid-links into the other format - see the ./wire subpath */
+export interface WireTransforms<T extends WireTransform = WireTransform> {
+  direction: T;
+  blob: (value: never) => unknown;
+  bytes: (value: never) => unknown;
+  "cid-link": (value: never) => unknown;
+}
+
 export interface ConverterContext {
   lexiconId: string;
+  /** Name of the top-level def being converted, if any */
+  defName?: string;
   defs: Record<string, unknown>;
   resolveRef: RefResolver;
-  /** Format for blob validation: 'sdk' for parsing fetched records, 'wire' for outgoing */
+  /** Format for blob, bytes and cid-link validation: 'sdk' for parsing fetched records, 'wire' for outgoing JSON */
   blobFormat: BlobFormat;
+  /** Policy for untyped (legacy) blob refs */
+  untypedBlobs: UntypedBlobPolicy;
+  /** Policy for strings with knownValues */
+  knownValues: KnownValuesPolicy;
+  /** Transform validated blobs, bytes and cid-links into the other format, if any */
+  transform?: WireTransforms;
 }
 
 // Utility to strip readonly for SolidJS store compatibility
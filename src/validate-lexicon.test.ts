@@ -0,0 +1,196 @@
+import { describe, expect, it } from "vitest";
+import { lexiconToValibot, validateLexicon, xrpcToValibot } from "./index.js";
+
+function lexicon(defs: Record<string, unknown>) {
+  return { lexicon: 1 as const, id: "com.example.test", defs };
+}
+
+describe("validateLexicon", () => {
+  it("accepts a valid lexicon", () => {
+    expect(
+      validateLexicon(
+        lexicon({
+          main: {
+            type: "record",
+            key: "tid",
+            record: {
+              type: "object",
+              required: ["text"],
+              nullable: ["text"],
+              properties: {
+                text: { type: "string", maxLength: 300, maxGraphemes: 30 },
+                tags: { type: "array", items: { type: "string" }, maxLength: 8 },
+                embed: { type: "union", refs: ["#image"] },
+              },
+            },
+          },
+          image: { type: "object", properties: { image: { type: "blob", accept: ["image/*"] } } },
+          mention: { type: "token" },
+          list: {
+            type: "query",
+            parameters: { type: "params", properties: { limit: { type: "integer", minimum: 1, maximum: 100 } } },
+            output: { encoding: "application/json", schema: { type: "ref", ref: "#image" } },
+          },
+        })
+      )
+    ).toEqual([]);
+  });
+
+  it("checks the document fields", () => {
+    expect(validateLexicon({ lexicon: 2, id: "example.com", defs: [] })).toEqual([
+      { path: "lexicon", message: "Expected lexicon version 1" },
+      { path: "id", message: "Expected a valid NSID" },
+      { path: "defs", message: "Expected an object" },
+    ]);
+  });
+
+  it("reports required and nullable properties that are not declared", () => {
+    expect(
+      validateLexicon(
+        lexicon({
+          main: {
+            type: "record",
+            record: { type: "object", required: ["text", "title"], nullable: ["body"], properties: { text: { type: "string" } } },
+          },
+        })
+      )
+    ).toEqual([
+      { path: "defs.main.record.required.1", message: "required names an undeclared property: title" },
+      { path: "defs.main.record.nullable.0", message: "nullable names an undeclared property: body" },
+    ]);
+  });
+
+  it("reports records not named main", () => {
+    expect(
+      validateLexicon(lexicon({ post: { type: "record", record: { type: "object", properties: {} } } }))
+    ).toEqual([{ path: "defs.post", message: "record defs must be named main" }]);
+  });
+
+  it("reports primary types and tokens nested in other defs", () => {
+    expect(
+      validateLexicon(
+        lexicon({
+          view: {
+            type: "object",
+            properties: {
+              kind: { type: "token" },
+              items: { type: "array", items: { type: "record", record: { type: "object" } } },
+            },
+          },
+        })
+      )
+    ).toEqual([
+      { path: "defs.view.properties.kind", message: "token must be a top-level def" },
+      { path: "defs.view.properties.items.items", message: "record must be a top-level def" },
+    ]);
+  });
+
+  it("reports params holding objects", () => {
+    expect(
+      validateLexicon(
+        lexicon({
+          main: {
+            type: "query",
+            parameters: {
+              type: "params",
+              properties: {
+                filter: { type: "object", properties: {} },
+                ids: { type: "array", items: { type: "ref", ref: "#id" } },
+              },
+            },
+          },
+        })
+      )
+    ).toEqual([
+      { path: "defs.main.parameters.properties.filter", message: "params may not hold object properties" },
+      { path: "defs.main.parameters.properties.ids.items", message: "params arrays may not hold ref items" },
+    ]);
+  });
+
+  it("reports inverted bounds", () => {
+    expect(
+      validateLexicon(
+        lexicon({
+          main: {
+            type: "object",
+            properties: {
+              text: { type: "string", minLength: 10, maxLength: 5, minGraphemes: 3, maxGraphemes: 1 },
+              count: { type: "integer", minimum: 10, maximum: 1 },
+              list: { type: "array", items: { type: "integer" }, minLength: 2, maxLength: 1 },
+              data: { type: "bytes", minLength: 2, maxLength: 1 },
+            },
+          },
+        })
+      )
+    ).toEqual([
+      { path: "defs.main.properties.text", message: "minLength must not be greater than maxLength" },
+      { path: "defs.main.properties.text", message: "minGraphemes must not be greater than maxGraphemes" },
+      { path: "defs.main.properties.count", message: "minimum must not be greater than maximum" },
+      { path: "defs.main.properties.list", message: "minLength must not be greater than maxLength" },
+      { path: "defs.main.properties.data", message: "minLength must not be greater than maxLength" },
+    ]);
+  });
+
+  it("reports unknown types, formats and mistyped fields", () => {
+    expect(
+      validateLexicon(
+        lexicon({
+          main: {
+            type: "object",
+            properties: {
+              a: { type: "foo" },
+              b: { type: "string", format: "email", default: 1 },
+              c: { type: "integer", enum: [1, "two"] },
+              d: { description: "no type" },
+              e: { type: "blob", maxSize: "1MB" },
+            },
+          },
+        })
+      )
+    ).toEqual([
+      { path: "defs.main.properties.a.type", message: "Unknown type: foo" },
+      { path: "defs.main.properties.b.default", message: "Expected a string" },
+      { path: "defs.main.properties.b.format", message: "Unknown format: email" },
+      { path: "defs.main.properties.c.enum.1", message: "Expected an integer" },
+      { path: "defs.main.properties.d.type", message: "Missing type" },
+      { path: "defs.main.properties.e.maxSize", message: "Expected an integer" },
+    ]);
+  });
+
+  it("checks XRPC bodies and errors", () => {
+    expect(
+      validateLexicon(
+        lexicon({
+          main: {
+            type: "procedure",
+            input: { schema: { type: "object", properties: {} } },
+            output: { encoding: "application/json", schema: { type: "string" } },
+            errors: [{ name: "NotFound" }, { description: "no name" }],
+          },
+        })
+      )
+    ).toEqual([
+      { path: "defs.main.input.encoding", message: "Expected a string" },
+      { path: "defs.main.output.schema", message: "Expected an object, ref or union schema" },
+      { path: "defs.main.errors.1.name", message: "Expected a string" },
+    ]);
+  });
+});
+
+describe("lexicon pre-check", () => {
+  it("throws listing every problem before converting", () => {
+    const invalid = lexicon({
+      main: {
+        type: "record",
+        record: { type: "object", required: ["title"], properties: { text: { type: "foo" } } },
+      },
+    });
+
+    expect(() => lexiconToValibot(invalid)).toThrow(
+      "Invalid lexicon com.example.test:\n" +
+      "  defs.main.record.required.0: required names an undeclared property: title\n" +
+      "  defs.main.record.properties.text.type: Unknown type: foo"
+    );
+    expect(() => xrpcToValibot(invalid)).toThrow("Invalid lexicon com.example.test");
+  });
+});
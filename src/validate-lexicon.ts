@@ -0,0 +1,312 @@
+import { formatValidators, isValidNsid } from "./converters/formats.js";
+import type { LexiconIssue } from "./types.js";
+
+// Structural validation of lexicon documents, following the Lexicon spec
+// See https://atproto.com/specs/lexicon
+
+type Node = Record<string, unknown>;
+
+// Records may only be the `main` def. The spec also restricts XRPC defs to `main`,
+// but xrpcToValibot supports several XRPC defs per lexicon, so they are not checked.
+const MAIN_ONLY_TYPES = new Set(["record"]);
+
+// Types allowed for XRPC params, and for their array items
+const PARAM_TYPES = new Set(["boolean", "integer", "string", "unknown", "array"]);
+const PARAM_ITEM_TYPES = new Set(["boolean", "integer", "string", "unknown"]);
+
+const DEF_NAME_REGEX = /^[a-zA-Z][a-zA-Z0-9_]*$/;
+
+// Join a JSON path and a key - the document root has an empty path
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function isNode(value: unknown): value is Node {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function isInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value);
+}
+
+class LexiconValidator {
+  readonly issues: LexiconIssue[] = [];
+
+  report(path: string, message: string): void {
+    this.issues.push({ path, message });
+  }
+
+  // Check the type of an optional field, returning whether it is present and valid
+  expectField(node: Node, key: string, path: string, check: (value: unknown) => boolean, expected: string): boolean {
+    if (node[key] === undefined) return false;
+    if (!check(node[key])) {
+      this.report(joinPath(path, key), `Expected ${expected}`);
+      return false;
+    }
+    return true;
+  }
+
+  // Check that a lower bound does not exceed its upper bound
+  expectRange(node: Node, minKey: string, maxKey: string, path: string): void {
+    const hasMin = this.expectField(node, minKey, path, isInteger, "an integer");
+    const hasMax = this.expectField(node, maxKey, path, isInteger, "an integer");
+    if (hasMin && hasMax && (node[minKey] as number) > (node[maxKey] as number)) {
+      this.report(path, `${minKey} must not be greater than ${maxKey}`);
+    }
+  }
+
+  // Check `const`, `default` and `enum` values against the primitive type
+  expectValues(node: Node, path: string, check: (value: unknown) => boolean, expected: string): void {
+    this.expectField(node, "const", path, check, expected);
+    this.expectField(node, "default", path, check, expected);
+    if (node.enum !== undefined) {
+      if (!Array.isArray(node.enum)) {
+        this.report(`${path}.enum`, "Expected an array");
+      } else {
+        node.enum.forEach((value, index) => {
+          if (!check(value)) this.report(`${path}.enum.${index}`, `Expected ${expected}`);
+        });
+      }
+    }
+  }
+
+  document(doc: unknown): void {
+    if (!isNode(doc)) {
+      this.report("", "Expected a lexicon document object");
+      return;
+    }
+
+    if (doc.lexicon !== 1) {
+      this.report("lexicon", "Expected lexicon version 1");
+    }
+    if (typeof doc.id !== "string" || !isValidNsid(doc.id)) {
+      this.report("id", "Expected a valid NSID");
+    }
+    this.expectField(doc, "revision", "", isInteger, "an integer");
+    this.expectField(doc, "description", "", (value) => typeof value === "string", "a string");
+
+    if (!isNode(doc.defs)) {
+      this.report("defs", "Expected an object");
+      return;
+    }
+
+    for (const [defName, def] of Object.entries(doc.defs)) {
+      const path = `defs.${defName}`;
+      if (!DEF_NAME_REGEX.test(defName)) {
+        this.report(path, `Invalid def name: ${defName}`);
+      }
+      if (isNode(def) && typeof def.type === "string" && MAIN_ONLY_TYPES.has(def.type) && defName !== "main") {
+        this.report(path, `${def.type} defs must be named main`);
+      }
+      this.type(def, path, true);
+    }
+  }
+
+  type(schema: unknown, path: string, topLevel = false): void {
+    if (!isNode(schema)) {
+      this.report(path, "Expected a schema object");
+      return;
+    }
+
+    switch (schema.type) {
+      case "boolean":
+        this.expectValues(schema, path, (value) => typeof value === "boolean", "a boolean");
+        return;
+      case "integer":
+        this.expectRange(schema, "minimum", "maximum", path);
+        this.expectValues(schema, path, isInteger, "an integer");
+        return;
+      case "string":
+        return this.string(schema, path);
+      case "unknown":
+      case "cid-link":
+        return;
+      case "bytes":
+        this.expectRange(schema, "minLength", "maxLength", path);
+        return;
+      case "blob":
+        this.expectField(schema, "accept", path, isStringArray, "an array of strings");
+        this.expectField(schema, "maxSize", path, isInteger, "an integer");
+        return;
+      case "array":
+        this.expectRange(schema, "minLength", "maxLength", path);
+        if (schema.items === undefined) {
+          this.report(`${path}.items`, "Missing items");
+        } else {
+          this.type(schema.items, `${path}.items`);
+        }
+        return;
+      case "object":
+        return this.object(schema, path);
+      case "ref":
+        if (typeof schema.ref !== "string" || schema.ref.length === 0) {
+          this.report(`${path}.ref`, "Expected a non-empty string");
+        }
+        return;
+      case "union":
+        if (!isStringArray(schema.refs)) {
+          this.report(`${path}.refs`, "Expected an array of strings");
+        }
+        this.expectField(schema, "closed", path, (value) => typeof value === "boolean", "a boolean");
+        return;
+      case "token":
+        if (!topLevel) this.report(path, "token must be a top-level def");
+        return;
+      case "record":
+        if (!topLevel) return this.report(path, "record must be a top-level def");
+        return this.record(schema, path);
+      case "query":
+      case "procedure":
+      case "subscription":
+        if (!topLevel) return this.report(path, `${schema.type} must be a top-level def`);
+        return this.xrpc(schema, path);
+      case "params":
+        return this.report(path, "params are only allowed as XRPC parameters");
+      case undefined:
+        return this.report(`${path}.type`, "Missing type");
+      default:
+        return this.report(`${path}.type`, `Unknown type: ${String(schema.type)}`);
+    }
+  }
+
+  string(schema: Node, path: string): void {
+    this.expectRange(schema, "minLength", "maxLength", path);
+    this.expectRange(schema, "minGraphemes", "maxGraphemes", path);
+    this.expectValues(schema, path, (value) => typeof value === "string", "a string");
+    this.expectField(schema, "knownValues", path, isStringArray, "an array of strings");
+    if (schema.format !== undefined && !(typeof schema.format === "string" && schema.format in formatValidators)) {
+      this.report(`${path}.format`, `Unknown format: ${String(schema.format)}`);
+    }
+  }
+
+  // Check that `required` and `nullable` only name declared properties
+  propertyNames(schema: Node, key: "required" | "nullable", properties: Node, path: string): void {
+    if (!this.expectField(schema, key, path, isStringArray, "an array of strings")) return;
+    (schema[key] as string[]).forEach((name, index) => {
+      if (!(name in properties)) {
+        this.report(`${path}.${key}.${index}`, `${key} names an undeclared property: ${name}`);
+      }
+    });
+  }
+
+  object(schema: Node, path: string): void {
+    const properties = schema.properties ?? {};
+    if (!isNode(properties)) {
+      this.report(`${path}.properties`, "Expected an object");
+      return;
+    }
+    this.propertyNames(schema, "required", properties, path);
+    this.propertyNames(schema, "nullable", properties, path);
+    for (const [key, prop] of Object.entries(properties)) {
+      this.type(prop, `${path}.properties.${key}`);
+    }
+  }
+
+  record(schema: Node, path: string): void {
+    const key = schema.key;
+    if (
+      key !== undefined &&
+      !(typeof key === "string" && (["tid", "nsid", "any"].includes(key) || key.startsWith("literal:")))
+    ) {
+      this.report(`${path}.key`, `Unknown record key type: ${String(key)}`);
+    }
+    if (!isNode(schema.record) || schema.record.type !== "object") {
+      this.report(`${path}.record`, "Expected an object schema");
+      return;
+    }
+    this.object(schema.record, `${path}.record`);
+  }
+
+  params(schema: unknown, path: string): void {
+    if (!isNode(schema) || schema.type !== "params") {
+      this.report(path, "Expected a params schema");
+      return;
+    }
+    const properties = schema.properties ?? {};
+    if (!isNode(properties)) {
+      this.report(`${path}.properties`, "Expected an object");
+      return;
+    }
+    this.propertyNames(schema, "required", properties, path);
+    for (const [key, prop] of Object.entries(properties)) {
+      const propPath = `${path}.properties.${key}`;
+      if (isNode(prop) && typeof prop.type === "string" && !PARAM_TYPES.has(prop.type)) {
+        this.report(propPath, `params may not hold ${prop.type} properties`);
+        continue;
+      }
+      if (isNode(prop) && prop.type === "array" && isNode(prop.items) && typeof prop.items.type === "string" &&
+        !PARAM_ITEM_TYPES.has(prop.items.type)) {
+        this.report(`${propPath}.items`, `params arrays may not hold ${prop.items.type} items`);
+        continue;
+      }
+      this.type(prop, propPath);
+    }
+  }
+
+  // Input, output and message bodies - messages carry no encoding
+  body(body: unknown, path: string, hasEncoding = true): void {
+    if (!isNode(body)) {
+      this.report(path, "Expected an object");
+      return;
+    }
+    if (hasEncoding && typeof body.encoding !== "string") {
+      this.report(`${path}.encoding`, "Expected a string");
+    }
+    if (body.schema === undefined) return;
+    const schema = body.schema;
+    if (!isNode(schema) || !["object", "ref", "union"].includes(schema.type as string)) {
+      this.report(`${path}.schema`, "Expected an object, ref or union schema");
+      return;
+    }
+    this.type(schema, `${path}.schema`);
+  }
+
+  xrpc(schema: Node, path: string): void {
+    if (schema.parameters !== undefined) {
+      this.params(schema.parameters, `${path}.parameters`);
+    }
+    if (schema.type === "procedure" && schema.input !== undefined) {
+      this.body(schema.input, `${path}.input`);
+    }
+    if (schema.type !== "subscription" && schema.output !== undefined) {
+      this.body(schema.output, `${path}.output`);
+    }
+    if (schema.type === "subscription" && schema.message !== undefined) {
+      this.body(schema.message, `${path}.message`, false);
+    }
+    if (schema.errors !== undefined) {
+      if (!Array.isArray(schema.errors)) {
+        this.report(`${path}.errors`, "Expected an array");
+      } else {
+        schema.errors.forEach((error, index) => {
+          if (!isNode(error) || typeof error.name !== "string") {
+            this.report(`${path}.errors.${index}.name`, "Expected a string");
+          }
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Validate a lexicon document against the Lexicon spec, without converting it.
+ * Reports every problem with the JSON path of the offending node.
+ */
+export function validateLexicon(doc: unknown): LexiconIssue[] {
+  const validator = new LexiconValidator();
+  validator.document(doc);
+  return validator.issues;
+}
+
+// Throw listing every problem in the lexicon document, if any
+export function assertValidLexicon(doc: { id: string }): void {
+  const issues = validateLexicon(doc);
+  if (issues.length > 0) {
+    const list = issues.map(({ path, message }) => `  ${path}: ${message}`).join("\n");
+    throw new Error(`Invalid lexicon ${doc.id}:\n${list}`);
+  }
+}
@@ -0,0 +1,104 @@
+import { BlobRef } from "@atproto/lexicon";
+import { CID } from "multiformats/cid";
+import * as v from "valibot";
+import { describe, expect, expectTypeOf, it } from "vitest";
+import { fromWire, toWire } from "./wire.js";
+
+describe("toWire / fromWire", () => {
+  const cid = "bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku";
+
+  const lexicon = {
+    lexicon: 1,
+    id: "com.example.gallery",
+    defs: {
+      main: {
+        type: "record",
+        key: "tid",
+        record: {
+          type: "object",
+          required: ["images"],
+          properties: {
+            images: { type: "array", items: { type: "ref", ref: "#image" } },
+            cover: { type: "union", refs: ["#image"] },
+            checksum: { type: "bytes" },
+            previous: { type: "cid-link" },
+          },
+        },
+      },
+      image: {
+        type: "object",
+        required: ["image", "alt"],
+        properties: {
+          image: { type: "blob", accept: ["image/*"] },
+          alt: { type: "string" },
+        },
+      },
+    },
+  } as const;
+
+  const wireBlob = { $type: "blob", ref: { $link: cid }, mimeType: "image/png", size: 1000 };
+
+  it("converts SDK values to wire at nested paths", () => {
+    const sdkBlob = new BlobRef(CID.parse(cid) as never, "image/png", 1000);
+    const { main } = toWire(lexicon);
+
+    expect(
+      v.parse(main, {
+        images: [{ image: sdkBlob, alt: "first" }, { image: { cid, mimeType: "image/jpeg" }, alt: "legacy" }],
+        cover: { $type: "com.example.gallery#image", image: sdkBlob, alt: "cover" },
+        checksum: new Uint8Array([1, 2, 3]),
+        previous: CID.parse(cid),
+      })
+    ).toEqual({
+      $type: "com.example.gallery",
+      images: [
+        { image: wireBlob, alt: "first" },
+        { image: { cid, mimeType: "image/jpeg" }, alt: "legacy" },
+      ],
+      cover: { $type: "com.example.gallery#image", image: wireBlob, alt: "cover" },
+      checksum: { $bytes: "AQID" },
+      previous: { $link: cid },
+    });
+  });
+
+  it("converts wire values to SDK at nested paths", () => {
+    const { main } = fromWire(lexicon);
+
+    const record = v.parse(main, {
+      $type: "com.example.gallery",
+      images: [{ image: wireBlob, alt: "first" }],
+      checksum: { $bytes: "AQID" },
+      previous: { $link: cid },
+    });
+
+    expect(record.images[0].image).toBeInstanceOf(BlobRef);
+    expect(record.images[0].image).toMatchObject({ mimeType: "image/png", size: 1000 });
+    expect(record.checksum).toEqual(new Uint8Array([1, 2, 3]));
+    expect(record.previous?.toString()).toBe(cid);
+  });
+
+  it("round-trips through both transforms", () => {
+    const image = { image: wireBlob, alt: "first" };
+
+    const sdk = v.parse(fromWire(lexicon).image, image);
+    expect(v.parse(toWire(lexicon).image, sdk)).toEqual(image);
+  });
+
+  it("validates before transforming", () => {
+    const { image } = toWire(lexicon);
+    const video = new BlobRef(CID.parse(cid) as never, "video/mp4", 1000);
+
+    expect(v.safeParse(image, { image: video, alt: "video" }).success).toBe(false);
+    expect(v.safeParse(image, { image: wireBlob, alt: "already wire" }).success).toBe(false);
+  });
+
+  it("infers input and output types", () => {
+    const { main } = toWire(lexicon);
+
+    expectTypeOf<v.InferInput<typeof main>["checksum"]>().toEqualTypeOf<Uint8Array | undefined>();
+    expectTypeOf<v.InferOutput<typeof main>["checksum"]>().toEqualTypeOf<{ $bytes: string } | undefined>();
+    expectTypeOf<v.InferOutput<ReturnType<typeof fromWire<typeof lexicon>>["main"]>["previous"]>().toEqualTypeOf<
+      CID | undefined
+    >();
+  });
+});
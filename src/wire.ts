@@ -0,0 +1,60 @@
+import { BlobRef, jsonToLex } from "@atproto/lexicon";
+import type * as v from "valibot";
+import { convertLexiconDefs, createScope } from "./convert.js";
+import type { UntypedBlobRef, WireBlobRef } from "./converters/atproto.js";
+import { bytesFromWire, cidLinkFromWire, toWireTransforms } from "./converters/transforms.js";
+import type { InferLexiconTransformers, InferSchemaOutputs } from "./infer.js";
+import type { LexiconInput, LexiconToValibotOptions, Mutable, WireTransforms } from "./types.js";
+
+// SDK <-> wire transformers, published as the ./wire subpath: wire blobs become BlobRef instances of
+// @atproto/lexicon, which the main entry only depends on for types
+
+// Wire blob ref (or untyped blob ref) -> SDK BlobRef, with the CID of @atproto/lexicon's own multiformats
+function blobFromWire(value: WireBlobRef | UntypedBlobRef): BlobRef {
+  return jsonToLex(value) as BlobRef;
+}
+
+export const fromWireTransforms: WireTransforms<'fromWire'> = {
+  direction: 'fromWire',
+  blob: blobFromWire,
+  bytes: bytesFromWire,
+  "cid-link": cidLinkFromWire,
+};
+
+export { toWireTransforms };
+
+/**
+ * Convert a lexicon to schemas that parse SDK values and output the wire (JSON) representation.
+ * Blobs become `{ $type: "blob", ref: { $link } }`, bytes `{ $bytes }` and cid-links `{ $link }`.
+ * Legacy untyped blob refs pass through unchanged. Skips XRPC types.
+ */
+export function toWire<
+  T extends LexiconInput,
+  ExtRefs extends Record<string, v.GenericSchema> = {}
+>(
+  lexicon: T,
+  options: Omit<LexiconToValibotOptions, 'format'> & { externalRefs?: ExtRefs } = {}
+): InferLexiconTransformers<Mutable<T>, InferSchemaOutputs<ExtRefs>, 'toWire'> {
+  const scope = createScope(new Map([[lexicon.id, lexicon]]), options, toWireTransforms);
+  const result = convertLexiconDefs(lexicon.id, scope);
+
+  return result as InferLexiconTransformers<Mutable<T>, InferSchemaOutputs<ExtRefs>, 'toWire'>;
+}
+
+/**
+ * Convert a lexicon to schemas that parse wire (JSON) values and output the SDK representation.
+ * Blobs become `BlobRef` instances, bytes `Uint8Array` and cid-links `CID` instances.
+ * Legacy untyped blob refs are upgraded to `BlobRef`. Skips XRPC types.
+ */
+export function fromWire<
+  T extends LexiconInput,
+  ExtRefs extends Record<string, v.GenericSchema> = {}
+>(
+  lexicon: T,
+  options: Omit<LexiconToValibotOptions, 'format'> & { externalRefs?: ExtRefs } = {}
+): InferLexiconTransformers<Mutable<T>, InferSchemaOutputs<ExtRefs>, 'fromWire'> {
+  const scope = createScope(new Map([[lexicon.id, lexicon]]), options, fromWireTransforms);
+  const result = convertLexiconDefs(lexicon.id, scope);
+
+  return result as InferLexiconTransformers<Mutable<T>, InferSchemaOutputs<ExtRefs>, 'fromWire'>;
+}
@@ -1,7 +1,7 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  entry: ["src/index.ts", "src/runtime.ts", "src/arbitraries.ts", "src/compat.ts", "src/wire.ts", "src/bin.ts"],
   format: ["esm"],
   dts: true,
   clean: true,